@@ -0,0 +1,329 @@
+/**
+ * WB Canvas - Sync Server
+ *
+ * Reference server for real-time collaboration, run locally with
+ * `npm run sync-server`. It knows nothing about boards: each room keeps
+ * the ops its clients sent, hands them to clients that join and relays
+ * new ops to everyone else in the room. Only the latest op per field and
+ * each character once are kept, so ops sent again after a reconnect do
+ * not pile up. Image files are kept by id and handed to whoever asks,
+ * with requests for files the room lacks passed on to its clients.
+ * Presence is relayed too, with only each client's latest
+ * kept for newcomers. Merging happens in the clients, so any server that
+ * does this much will do.
+ *
+ * Node only, no dependencies: the WebSocket protocol (RFC 6455) is spoken
+ * over a plain HTTP upgrade. Rooms live in memory and are gone on restart;
+ * clients keep their own op log and send their whole document again when
+ * they rejoin a room that came back empty. Ops are acknowledged once
+ * logged, so clients know what they no longer need to resend
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Room name -> { clients: Set<Connection>, doc: RoomDocument, files: Map<id, dataUrl> }
+const rooms = new Map();
+
+// =============================================================================
+// Rooms
+// =============================================================================
+
+function handleMessage(connection, message) {
+    switch (message.type) {
+        case 'join': {
+            leaveRoom(connection);
+            let room = rooms.get(message.room);
+            if (!room) {
+                room = { clients: new Set(), doc: createRoomDocument(), files: new Map() };
+                rooms.set(message.room, room);
+            }
+            room.clients.add(connection);
+            connection.room = message.room;
+            connection.clientId = message.clientId;
+            connection.send({ type: 'sync', ops: getRoomOps(room.doc) });
+            room.clients.forEach((client) => {
+                if (client.presence && client !== connection) connection.send({ type: 'presence', presence: client.presence });
+            });
+            break;
+        }
+        case 'ops': {
+            const room = rooms.get(connection.room);
+            if (!room || !Array.isArray(message.ops)) return;
+            const ops = recordOps(room.doc, message.ops);
+            if (message.seq !== undefined) connection.send({ type: 'ack', seq: message.seq });
+            if (ops.length > 0) broadcast(connection, { type: 'ops', ops });
+            break;
+        }
+        case 'file': {
+            const room = rooms.get(connection.room);
+            if (!room || typeof message.id !== 'string' || typeof message.dataUrl !== 'string') return;
+            if (room.files.has(message.id)) return;
+            room.files.set(message.id, message.dataUrl);
+            broadcast(connection, message);
+            break;
+        }
+        case 'fileRequest': {
+            const room = rooms.get(connection.room);
+            if (!room) return;
+            const dataUrl = room.files.get(message.id);
+            if (dataUrl) connection.send({ type: 'file', id: message.id, dataUrl });
+            else broadcast(connection, message);
+            break;
+        }
+        case 'presence':
+            if (!connection.room) return;
+            connection.presence = message.presence;
+            broadcast(connection, message);
+            break;
+        case 'leave':
+            leaveRoom(connection);
+            break;
+    }
+}
+
+// To everyone in the connection's room but itself
+function broadcast(connection, message) {
+    rooms.get(connection.room)?.clients.forEach((client) => {
+        if (client !== connection) client.send(message);
+    });
+}
+
+// Empty rooms are kept, so a board survives everyone reloading at once
+function leaveRoom(connection) {
+    const room = rooms.get(connection.room);
+    if (!room) return;
+    room.clients.delete(connection);
+    broadcast(connection, { type: 'leave', clientId: connection.clientId });
+    connection.room = null;
+    connection.presence = null;
+}
+
+// =============================================================================
+// Room Document
+// =============================================================================
+
+// The ops of a room with nothing superseded: the latest set per element
+// field, every inserted character and every removed one, keyed by
+// element id and field name or character stamp
+function createRoomDocument() {
+    return { fields: new Map(), chars: new Map(), removed: new Map() };
+}
+
+// Keeps the ops that add anything and returns them
+function recordOps(doc, ops) {
+    const fresh = [];
+    ops.forEach((op) => {
+        if (!op || typeof op.id !== 'string') return;
+        switch (op.type) {
+            case 'set':
+                Object.entries(op.values ?? {}).forEach(([name, value]) => {
+                    const key = `${op.id}/${name}`;
+                    const current = doc.fields.get(key);
+                    if (current && compareStamps(current.stamp, op.stamp) >= 0) return;
+                    const field = { type: 'set', id: op.id, stamp: op.stamp, values: { [name]: value } };
+                    doc.fields.set(key, field);
+                    fresh.push(field);
+                });
+                break;
+            case 'insert': {
+                const key = `${op.id}/${stampKey(op.char)}`;
+                if (doc.chars.has(key)) return;
+                doc.chars.set(key, op);
+                fresh.push(op);
+                break;
+            }
+            case 'remove': {
+                const chars = (op.chars ?? []).filter((char) => {
+                    const key = `${op.id}/${stampKey(char)}`;
+                    if (doc.removed.has(key)) return false;
+                    doc.removed.set(key, { id: op.id, char });
+                    return true;
+                });
+                if (chars.length > 0) fresh.push({ type: 'remove', id: op.id, chars });
+                break;
+            }
+        }
+    });
+    return fresh;
+}
+
+function getRoomOps(doc) {
+    const removed = new Map(); // element id -> removed character stamps
+    doc.removed.forEach(({ id, char }) => {
+        if (!removed.has(id)) removed.set(id, []);
+        removed.get(id).push(char);
+    });
+    return [
+        ...doc.fields.values(),
+        ...doc.chars.values(),
+        ...[...removed].map(([id, chars]) => ({ type: 'remove', id, chars })),
+    ];
+}
+
+// As the clients order stamps: by clock, then client id
+function compareStamps(a, b) {
+    return a.clock - b.clock || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+}
+
+function stampKey({ clock, client }) {
+    return `${clock}@${client}`;
+}
+
+// =============================================================================
+// WebSocket
+// =============================================================================
+
+class Connection {
+    constructor(socket) {
+        this.socket = socket;
+        this.room = null;
+        this.clientId = null;
+        this.presence = null;
+        this.buffer = Buffer.alloc(0);
+        this.fragments = []; // payloads of a message split over frames
+
+        socket.on('data', (chunk) => {
+            this.buffer = Buffer.concat([this.buffer, chunk]);
+            this.readFrames();
+        });
+        // Upgraded sockets stay half open when the client goes
+        socket.on('end', () => socket.end());
+        socket.on('close', () => leaveRoom(this));
+        socket.on('error', () => socket.destroy());
+    }
+
+    send(message) {
+        if (!this.socket.destroyed) this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    }
+
+    readFrames() {
+        for (;;) {
+            const frame = decodeFrame(this.buffer);
+            if (!frame) return;
+            if (frame.length > MAX_MESSAGE_SIZE) {
+                this.socket.destroy();
+                return;
+            }
+            this.buffer = this.buffer.subarray(frame.size);
+            this.handleFrame(frame);
+        }
+    }
+
+    handleFrame({ fin, opcode, payload }) {
+        switch (opcode) {
+            case OPCODE_TEXT:
+            case OPCODE_BINARY:
+            case OPCODE_CONTINUATION:
+                this.fragments.push(payload);
+                if (!fin) return;
+                try {
+                    handleMessage(this, JSON.parse(Buffer.concat(this.fragments).toString('utf8')));
+                } catch (e) {
+                    console.warn('Dropped a malformed message:', e.message);
+                }
+                this.fragments = [];
+                break;
+            case OPCODE_PING:
+                this.socket.write(encodeFrame(OPCODE_PONG, payload));
+                break;
+            case OPCODE_CLOSE:
+                this.socket.end(encodeFrame(OPCODE_CLOSE, payload.subarray(0, 2)));
+                break;
+        }
+    }
+}
+
+// A frame at the start of `buffer`, or null until all of it has arrived.
+// `size` is its length on the wire, `length` that of its payload
+function decodeFrame(buffer) {
+    if (buffer.length < 2) return null;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    // Too large to wait for; the caller drops the connection
+    if (length > MAX_MESSAGE_SIZE) return { fin, opcode, length, size: 0, payload: null };
+
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    return { fin, opcode, length, size: offset + length, payload };
+}
+
+// Server frames are never masked or fragmented
+function encodeFrame(opcode, payload) {
+    let header;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WB Canvas sync server: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+    new Connection(socket);
+});
+
+server.listen(PORT, () => {
+    console.log(`Sync server listening on ws://localhost:${PORT}`);
+});
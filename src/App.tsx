@@ -8,10 +8,13 @@ import { useState, useCallback, useEffect } from 'react';
 import { Canvas } from './components/Canvas';
 import { Toolbar } from './components/Toolbar';
 import { StylePanel } from './components/StylePanel';
+import { HistoryPanel } from './components/HistoryPanel';
 import { ZoomControls } from './components/ZoomControls';
 import { ContextMenu } from './components/ContextMenu';
 import { Header } from './components/Header';
 import { useKeyboard } from './hooks/useKeyboard';
+import { useAutosave } from './hooks/useAutosave';
+import { useCollaboration } from './hooks/useCollaboration';
 import { useCanvasStore, selectSelectedIds } from './store/canvas-store';
 import { Point } from './types/canvas';
 
@@ -22,12 +25,19 @@ export default function App() {
     });
 
     const [contextMenuPos, setContextMenuPos] = useState<Point | null>(null);
+    const [historyOpen, setHistoryOpen] = useState(false);
     const selectedIds = useCanvasStore(selectSelectedIds);
     const setStoreDarkMode = useCanvasStore((s) => s.setDarkMode);
 
     // Keyboard shortcuts
     useKeyboard();
 
+    // Restore and autosave the board
+    useAutosave();
+
+    // Shared board session, joined from ?room= links
+    useCollaboration();
+
     // Sync darkMode with store
     useEffect(() => {
         setStoreDarkMode(darkMode);
@@ -65,7 +75,12 @@ export default function App() {
     return (
         <div className="h-screen w-screen overflow-hidden bg-canvas-bg" onContextMenu={handleContextMenu}>
             {/* Header */}
-            <Header darkMode={darkMode} onToggleDarkMode={toggleDarkMode} />
+            <Header
+                darkMode={darkMode}
+                onToggleDarkMode={toggleDarkMode}
+                historyOpen={historyOpen}
+                onToggleHistory={() => setHistoryOpen(!historyOpen)}
+            />
 
             {/* Main Canvas Area */}
             <main className="pt-14 h-full">
@@ -78,6 +93,9 @@ export default function App() {
             {/* Style Panel (when elements selected) */}
             {selectedIds.length > 0 && <StylePanel />}
 
+            {/* History Panel */}
+            {historyOpen && <HistoryPanel onClose={() => setHistoryOpen(false)} />}
+
             {/* Zoom Controls */}
             <ZoomControls />
 
@@ -0,0 +1,48 @@
+/**
+ * WB Canvas - Arrow Handles
+ *
+ * Endpoint handles for the selected arrow. Dragging an end detaches it;
+ * releasing it on or near a shape binds it there
+ */
+
+import { memo } from 'react';
+import { ArrowElement, Transform } from '../types/canvas';
+
+interface ArrowHandlesProps {
+    element: ArrowElement;
+    transform: Transform;
+    onEndpointMouseDown: (end: 'start' | 'end') => void;
+}
+
+const HANDLE_SIZE = 10;
+
+export const ArrowHandles = memo(function ArrowHandles({ element, transform, onEndpointMouseDown }: ArrowHandlesProps) {
+    if (element.locked || element.points.length < 2) return null;
+
+    const ends = [
+        { end: 'start' as const, point: element.points[0], bound: !!element.startBinding },
+        { end: 'end' as const, point: element.points[element.points.length - 1], bound: !!element.endBinding },
+    ];
+
+    return (
+        <div className="pointer-events-none absolute inset-0">
+            {ends.map(({ end, point, bound }) => (
+                <div
+                    key={end}
+                    className={`absolute rounded-full border-2 border-indigo-500 pointer-events-auto cursor-move ${bound ? 'bg-indigo-500' : 'bg-white'}`}
+                    style={{
+                        left: (element.x + point.x) * transform.scale + transform.x - HANDLE_SIZE / 2,
+                        top: (element.y + point.y) * transform.scale + transform.y - HANDLE_SIZE / 2,
+                        width: HANDLE_SIZE,
+                        height: HANDLE_SIZE,
+                    }}
+                    title={bound ? 'Bound - drag to detach' : 'Drag onto a shape to bind'}
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        onEndpointMouseDown(end);
+                    }}
+                />
+            ))}
+        </div>
+    );
+});
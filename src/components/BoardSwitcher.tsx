@@ -0,0 +1,164 @@
+/**
+ * WB Canvas - Board Switcher
+ *
+ * Header dropdown listing local boards with rename, duplicate and delete
+ */
+
+import { memo, useState } from 'react';
+import { ChevronDown, Copy, LayoutGrid, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useCanvasStore } from '../store/canvas-store';
+import { BoardInfo } from '../types/canvas';
+
+export const BoardSwitcher = memo(function BoardSwitcher() {
+    const [open, setOpen] = useState(false);
+    const boards = useCanvasStore((s) => s.boards);
+    const boardId = useCanvasStore((s) => s.boardId);
+    const openBoard = useCanvasStore((s) => s.openBoard);
+    const createBoard = useCanvasStore((s) => s.createBoard);
+
+    const current = boards.find((b) => b.id === boardId);
+
+    const handleCreate = () => {
+        createBoard().catch((e) => console.error('Failed to create board:', e));
+        setOpen(false);
+    };
+
+    const handleOpen = (id: string) => {
+        openBoard(id).catch((e) => console.error('Failed to open board:', e));
+        setOpen(false);
+    };
+
+    return (
+        <div className="relative ml-2">
+            <button
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-sm text-gray-700 dark:text-gray-200 max-w-[16rem]"
+                onClick={() => setOpen(!open)}
+            >
+                <LayoutGrid size={16} className="shrink-0" />
+                <span className="truncate">{current?.name ?? 'Boards'}</span>
+                <ChevronDown size={14} className="shrink-0" />
+            </button>
+
+            {open && (
+                <div className="absolute top-full left-0 mt-1 w-80 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 animate-slide-in">
+                    <div className="max-h-96 overflow-y-auto">
+                        {boards.map((board) => (
+                            <BoardRow
+                                key={board.id}
+                                board={board}
+                                active={board.id === boardId}
+                                onOpen={() => handleOpen(board.id)}
+                            />
+                        ))}
+                    </div>
+                    <div className="h-px bg-gray-200 dark:bg-gray-700 my-1" />
+                    <button
+                        className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                        onClick={handleCreate}
+                    >
+                        <Plus size={16} />
+                        New Board
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+});
+
+// =============================================================================
+// Board Row
+// =============================================================================
+
+interface BoardRowProps {
+    board: BoardInfo;
+    active: boolean;
+    onOpen: () => void;
+}
+
+const BoardRow = memo(function BoardRow({ board, active, onOpen }: BoardRowProps) {
+    const [renaming, setRenaming] = useState(false);
+    const renameBoard = useCanvasStore((s) => s.renameBoard);
+    const duplicateBoard = useCanvasStore((s) => s.duplicateBoard);
+    const deleteBoard = useCanvasStore((s) => s.deleteBoard);
+
+    const commitRename = (name: string) => {
+        setRenaming(false);
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== board.name) {
+            renameBoard(board.id, trimmed).catch((e) => console.error('Failed to rename board:', e));
+        }
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Delete "${board.name}"? This cannot be undone.`)) {
+            deleteBoard(board.id).catch((e) => console.error('Failed to delete board:', e));
+        }
+    };
+
+    return (
+        <div
+            className={`group flex items-center gap-3 px-3 py-2 cursor-pointer ${active
+                ? 'bg-indigo-50 dark:bg-indigo-900/40'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            onClick={() => !renaming && onOpen()}
+        >
+            {/* Thumbnail */}
+            <div className="w-16 h-10 shrink-0 rounded border border-gray-200 dark:border-gray-700 bg-canvas-bg flex items-center justify-center overflow-hidden">
+                {board.thumbnail && (
+                    <img src={board.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                )}
+            </div>
+
+            {/* Name */}
+            <div className="flex-1 min-w-0">
+                {renaming ? (
+                    <input
+                        autoFocus
+                        defaultValue={board.name}
+                        className="w-full px-1 text-sm rounded border border-indigo-400 bg-white dark:bg-slate-900 text-gray-900 dark:text-white outline-none"
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={(e) => commitRename(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename(e.currentTarget.value);
+                            if (e.key === 'Escape') setRenaming(false);
+                        }}
+                    />
+                ) : (
+                    <div className="text-sm text-gray-900 dark:text-white truncate">{board.name}</div>
+                )}
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(board.updatedAt).toLocaleString()}
+                </div>
+            </div>
+
+            {/* Actions */}
+            <div
+                className="hidden group-hover:flex items-center gap-1 text-gray-500 dark:text-gray-400"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title="Rename"
+                    onClick={() => setRenaming(true)}
+                >
+                    <Pencil size={14} />
+                </button>
+                <button
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title="Duplicate"
+                    onClick={() => duplicateBoard(board.id).catch((e) => console.error('Failed to duplicate board:', e))}
+                >
+                    <Copy size={14} />
+                </button>
+                <button
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-red-500"
+                    title="Delete"
+                    onClick={handleDelete}
+                >
+                    <Trash2 size={14} />
+                </button>
+            </div>
+        </div>
+    );
+});
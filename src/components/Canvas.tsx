@@ -4,25 +4,65 @@
  * Infinite canvas with pan, zoom, and element rendering
  */
 
-import { useRef, useCallback, useState, useEffect } from 'react';
-import { useCanvasStore, selectOrderedElements, selectTransform, selectActiveTool } from '../store/canvas-store';
-import { Point, CanvasElement, ShapeElement, LineElement, ArrowElement, TextElement, StickyElement, FreedrawElement, createBaseElement, DEFAULT_TEXT_STYLE } from '../types/canvas';
+import { useRef, useCallback, useState, useEffect, useMemo } from 'react';
+import { useCanvasStore, queryElementIds, selectElementOrder, selectTransform, selectActiveTool, selectRenderer } from '../store/canvas-store';
+import { Point, Bounds, Binding, CanvasElement, ShapeElement, LineElement, ArrowElement, TextElement, StickyElement, FreedrawElement, FrameElement, ConnectorElement, ImageElement, ResizeHandle, createBaseElement, DEFAULT_TEXT_STYLE } from '../types/canvas';
 import { RoughElementRenderer } from './elements/RoughElementRenderer';
-import { SelectionOverlay } from './SelectionOverlay';
+import { CanvasSceneRenderer } from './elements/CanvasSceneRenderer';
+import { FrameRenderer, getFrameLabelBounds } from './elements/FrameRenderer';
+import { SelectionOverlay, CollaboratorSelections } from './SelectionOverlay';
+import { PresenceOverlay } from './PresenceOverlay';
+import { ConnectorHandles } from './ConnectorHandles';
+import { ArrowHandles } from './ArrowHandles';
+import { ImageCropOverlay } from './ImageCropOverlay';
+import { LaserTrail, LaserPoint } from './LaserTrail';
 import { Grid } from './Grid';
 import { TextEditor } from './TextEditor';
+import { formatImportReport, isCleanImport } from '../utils/scene-file';
+import {
+    elementInBox,
+    elementIntersectsBox,
+    getElementOutline,
+    getResizeAnchorOffset,
+    getRotation,
+    getRotationCenter,
+    getUnrotatedBounds,
+    hitTestElement,
+    pathHitsElement,
+    pointInBounds,
+    rotatePoint,
+    toUnrotatedPoint,
+} from '../utils/geometry';
+import { ConnectorRouter, resolveConnectorEnds, routeConnector, routeConnectorLegs } from '../utils/connector-routing';
+import { bindArrowEnd, findBindingTarget, getLinearGeometry, isBindable } from '../utils/binding';
+import { cropImage, readImageFile } from '../utils/images';
+import { hasEmbeddedScene } from '../utils/svg-export';
+import { reportCursor } from '../utils/presence';
 
 interface CanvasProps {
     className?: string;
     darkMode?: boolean;
 }
 
+const ERASER_RADIUS = 8; // screen pixels
+const HIT_TOLERANCE = 6; // screen pixels around a stroke that still pick it
+const CONNECTOR_GAP = 4;
+const BINDING_SNAP_DISTANCE = 12; // screen pixels
+const MIN_CROP_SIZE = 10; // screen pixels
+const ROTATION_SNAP = 15; // degrees, with Shift
+const CULL_MARGIN = 200; // screen pixels drawn beyond the viewport
+
 export function Canvas({ className = '', darkMode = false }: CanvasProps) {
     const canvasRef = useRef<HTMLDivElement>(null);
     const svgRef = useRef<SVGSVGElement>(null);
 
     // Store
-    const elements = useCanvasStore(selectOrderedElements);
+    const elementMap = useCanvasStore((s) => s.elements);
+    const elementOrder = useCanvasStore(selectElementOrder);
+    const elements = useMemo(
+        () => elementOrder.map((id) => elementMap[id]).filter(Boolean),
+        [elementOrder, elementMap]
+    );
     const transform = useCanvasStore(selectTransform);
     const activeTool = useCanvasStore(selectActiveTool);
     const gridEnabled = useCanvasStore((s) => s.gridEnabled);
@@ -33,12 +73,15 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
     const isPanning = useCanvasStore((s) => s.isPanning);
     const currentStroke = useCanvasStore((s) => s.currentStroke);
     const currentFill = useCanvasStore((s) => s.currentFill);
+    const renderOffscreen = useCanvasStore((s) => s.renderOffscreen);
+    const renderer = useCanvasStore(selectRenderer);
 
     // Actions
     const setTransform = useCanvasStore((s) => s.setTransform);
     const setPanning = useCanvasStore((s) => s.setPanning);
     const setDrawing = useCanvasStore((s) => s.setDrawing);
     const addElement = useCanvasStore((s) => s.addElement);
+    const deleteElements = useCanvasStore((s) => s.deleteElements);
     const setSelection = useCanvasStore((s) => s.setSelection);
     const clearSelection = useCanvasStore((s) => s.clearSelection);
     const setHovered = useCanvasStore((s) => s.setHovered);
@@ -47,17 +90,97 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
     // Actions
     const updateElement = useCanvasStore((s) => s.updateElement);
     const updateElementSilent = useCanvasStore((s) => s.updateElementSilent);
+    const importFromSVG = useCanvasStore((s) => s.importFromSVG);
+    const insertImages = useCanvasStore((s) => s.insertImages);
+    const paste = useCanvasStore((s) => s.paste);
+    const assignToFrames = useCanvasStore((s) => s.assignToFrames);
+    const beginTransaction = useCanvasStore((s) => s.beginTransaction);
+    const commitTransaction = useCanvasStore((s) => s.commitTransaction);
+    const transact = useCanvasStore((s) => s.transact);
 
     // Local state
     const [dragStart, setDragStart] = useState<Point | null>(null);
     const [dragStartCanvas, setDragStartCanvas] = useState<Point | null>(null);
     const [currentElement, setCurrentElement] = useState<CanvasElement | null>(null);
-    const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point } | null>(null);
+    // Alt-drag selects everything the box touches instead of what it encloses
+    const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point; intersect: boolean } | null>(null);
     const [isDraggingElement, setIsDraggingElement] = useState(false);
     const [draggedElementStart, setDraggedElementStart] = useState<Map<string, Point>>(new Map());
     const [isSpacePressed, setIsSpacePressed] = useState(false);
     const [resizeStart, setResizeStart] = useState<{ element: CanvasElement; point: Point } | null>(null);
     const [editingTextId, setEditingTextId] = useState<string | null>(null);
+    const [erasingIds, setErasingIds] = useState<string[] | null>(null);
+    const [waypointDrag, setWaypointDrag] = useState<{ id: string; index: number; start: Point[] } | null>(null);
+    const [croppingId, setCroppingId] = useState<string | null>(null);
+    const laserStrokes = useRef<LaserPoint[][]>([]);
+    const isLaserDown = useRef(false);
+    const [cropDrag, setCropDrag] = useState<{ handle: ResizeHandle; start: ImageElement; origin: Point } | null>(null);
+    const draggedWaypointsStart = useRef<Map<string, Point[]>>(new Map());
+    const [endpointDrag, setEndpointDrag] = useState<{ id: string; end: 'start' | 'end'; start: ArrowElement } | null>(null);
+    const [bindingHintId, setBindingHintId] = useState<string | null>(null);
+    const lastEraserPoint = useRef<Point | null>(null);
+    const erasingSet = useMemo(() => new Set(erasingIds), [erasingIds]);
+    const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+    // Child id -> frame id. Children are rendered inside their frame
+    const frameOf = useMemo(() => {
+        const map = new Map<string, string>();
+        elements.forEach((el) => {
+            if (el.type === 'frame') el.childIds.forEach((id) => map.set(id, el.id));
+        });
+        return map;
+    }, [elements]);
+
+    const frames = useMemo(
+        () => elements.filter((el): el is FrameElement => el.type === 'frame'),
+        [elements]
+    );
+
+    // Paint position of each element, for ordering index results
+    const paintOrder = useMemo(() => new Map(elementOrder.map((id, i) => [id, i])), [elementOrder]);
+
+    // Elements whose indexed bounds touch `area`, in paint order
+    const elementsIn = useCallback((area: Bounds) => (
+        queryElementIds(area)
+            .filter((id) => paintOrder.has(id) && elementMap[id])
+            .sort((a, b) => paintOrder.get(a)! - paintOrder.get(b)!)
+            .map((id) => elementMap[id])
+    ), [paintOrder, elementMap]);
+
+    // Elements drawn near the viewport, plus the frames holding them. Null
+    // draws everything. elementMap is a dependency because the index
+    // changes with it
+    const visibleIds = useMemo(() => {
+        if (renderOffscreen) return null;
+        const margin = CULL_MARGIN / transform.scale;
+        const ids = new Set(queryElementIds({
+            x: -transform.x / transform.scale - margin,
+            y: -transform.y / transform.scale - margin,
+            width: viewportSize.width / transform.scale + margin * 2,
+            height: viewportSize.height / transform.scale + margin * 2,
+        }));
+        ids.forEach((id) => {
+            const frameId = frameOf.get(id);
+            if (frameId) ids.add(frameId);
+        });
+        return ids;
+    }, [renderOffscreen, transform, viewportSize, frameOf, elementMap]);
+
+    // Connector routes depend on the shapes they might steer around; the
+    // router only redoes the ones near whatever changed
+    const connectorRouter = useMemo(() => new ConnectorRouter(queryElementIds), []);
+    const connectorRoutes = useMemo(() => connectorRouter.update(elementMap), [connectorRouter, elementMap]);
+
+    const selectedConnector = selectedIds.length === 1 && elementMap[selectedIds[0]]?.type === 'connector'
+        ? elementMap[selectedIds[0]] as ConnectorElement
+        : null;
+    const selectedArrow = selectedIds.length === 1 && elementMap[selectedIds[0]]?.type === 'arrow'
+        ? elementMap[selectedIds[0]] as ArrowElement
+        : null;
+    const selectedConnectorLegs = useMemo(
+        () => selectedConnector ? routeConnectorLegs(selectedConnector, elementMap, queryElementIds) : [],
+        [selectedConnector, elementMap]
+    );
 
     // Get resize handle from store
     const resizeHandle = useCanvasStore((s) => s.resizeHandle);
@@ -67,14 +190,20 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
     // Track resize end - record to history
     useEffect(() => {
         if (!storeIsResizing && resizeStart) {
-            // Resize ended - record to history
+            // Resize ended - record to history. The start is restored first
+            // so the entry holds both states
             const el = elements.find(e => e.id === selectedIds[0]);
             if (el) {
-                updateElement(selectedIds[0], { x: el.x, y: el.y, width: el.width, height: el.height });
+                updateElementSilent(el.id, resizeStart.element);
+                transact(resizeHandle === 'rotation' ? 'Rotate' : 'Resize', () => {
+                    updateElement(el.id, el);
+                    // A resized frame may now cover (or uncover) other elements
+                    assignToFrames(el.type === 'frame' ? elements.map((e) => e.id) : [el.id]);
+                });
             }
             setResizeStart(null);
         }
-    }, [storeIsResizing, selectedIds, elements, resizeStart, updateElement]);
+    }, [storeIsResizing, selectedIds, elements, resizeStart, resizeHandle, updateElement, updateElementSilent, assignToFrames, transact]);
 
     // Space key for temporary pan (Miro-like)
     useEffect(() => {
@@ -100,6 +229,28 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
         };
     }, [setPanning]);
 
+    // Crop mode ends with Enter or Escape, or when the image is deselected
+    const croppingImage = croppingId && selectedIds.length === 1 && selectedIds[0] === croppingId &&
+        elementMap[croppingId]?.type === 'image'
+        ? elementMap[croppingId] as ImageElement
+        : null;
+
+    useEffect(() => {
+        if (croppingId && !croppingImage) setCroppingId(null);
+    }, [croppingId, croppingImage]);
+
+    useEffect(() => {
+        if (!croppingId) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Enter' || e.key === 'Escape') {
+                e.preventDefault();
+                setCroppingId(null);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [croppingId]);
+
     // Convert screen coordinates to canvas coordinates
     const screenToCanvas = useCallback((screenX: number, screenY: number): Point => {
         return {
@@ -160,7 +311,9 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
 
         // Select tool - start selection box or element drag
         if (activeTool === 'select') {
-            const clickedElement = findElementAtPoint(elements, canvasPoint);
+            const nearby = elementsIn(getAreaAround(canvasPoint, HIT_TOLERANCE / transform.scale));
+            const clickedElement = findElementAtPoint(nearby, frames, canvasPoint, transform.scale, connectorRoutes) ??
+                findSelectedAtPoint(nearby, selectedIds, canvasPoint);
             if (clickedElement) {
                 // Determine which elements to move
                 let idsToMove: string[];
@@ -177,25 +330,53 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                     setSelection(idsToMove);
                 }
 
-                // Start dragging
+                // Start dragging. Everything the drag moves, bound
+                // connectors included, is undone as one step
+                beginTransaction('Move');
                 setIsDraggingElement(true);
                 setDragStartCanvas(canvasPoint);
 
-                // Store initial positions
+                // Store initial positions. Frames carry their children along
                 const startPositions = new Map<string, Point>();
+                draggedWaypointsStart.current = new Map();
                 idsToMove.forEach(id => {
                     const el = elements.find(e => e.id === id);
-                    if (el) startPositions.set(id, { x: el.x, y: el.y });
+                    if (!el) return;
+                    startPositions.set(id, { x: el.x, y: el.y });
+                    if (el.type === 'connector') draggedWaypointsStart.current.set(id, el.waypoints);
+                    if (el.type === 'frame') {
+                        el.childIds.forEach((childId) => {
+                            const child = elements.find(e => e.id === childId);
+                            if (child) startPositions.set(childId, { x: child.x, y: child.y });
+                        });
+                    }
                 });
                 setDraggedElementStart(startPositions);
             } else {
                 // Click on empty space - start selection box
                 clearSelection();
-                setSelectionBox({ start: canvasPoint, end: canvasPoint });
+                setSelectionBox({ start: canvasPoint, end: canvasPoint, intersect: e.altKey });
             }
             return;
         }
 
+        // Laser pointer - trail only, nothing is added to the board
+        if (activeTool === 'laser') {
+            isLaserDown.current = true;
+            laserStrokes.current.push([{ ...canvasPoint, time: performance.now() }]);
+            return;
+        }
+
+        // Eraser - mark what the pointer path crosses, delete on release
+        if (activeTool === 'eraser') {
+            lastEraserPoint.current = canvasPoint;
+            const radius = ERASER_RADIUS / transform.scale;
+            setErasingIds(findElementsOnPath(
+                elementsIn(getAreaAround(canvasPoint, radius)), canvasPoint, canvasPoint, radius, [], connectorRoutes
+            ));
+            return;
+        }
+
         // Drawing tools - create new element
         if (['rectangle', 'ellipse', 'diamond', 'triangle'].includes(activeTool)) {
             setDrawing(true);
@@ -247,7 +428,10 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                 width: 100,
                 height: 30,
             };
-            addElement(newElement);
+            transact(`Add ${newElement.type}`, () => {
+                addElement(newElement);
+                assignToFrames([newElement.id]);
+            });
             setSelection([newElement.id]);
         }
 
@@ -262,10 +446,29 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                 width: 200,
                 height: 200,
             };
-            addElement(newElement);
+            transact(`Add ${newElement.type}`, () => {
+                addElement(newElement);
+                assignToFrames([newElement.id]);
+            });
             setSelection([newElement.id]);
         }
 
+        // Frame tool
+        if (activeTool === 'frame') {
+            setDrawing(true);
+            const frameCount = frames.length;
+            const newElement: FrameElement = {
+                ...createBaseElement('frame', snappedPoint.x, snappedPoint.y),
+                type: 'frame',
+                name: `Frame ${frameCount + 1}`,
+                stroke: { color: '#9ca3af', width: 1, style: 'solid' },
+                fill: { type: 'none', color: 'transparent' },
+                childIds: [],
+                clip: true,
+            };
+            setCurrentElement(newElement);
+        }
+
         // Freedraw tool
         if (activeTool === 'freedraw') {
             setDrawing(true);
@@ -278,7 +481,24 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             };
             setCurrentElement(newElement);
         }
-    }, [activeTool, elements, screenToCanvas, snapToGridPoint, currentStroke, currentFill, setPanning, setDrawing, clearSelection]);
+
+        // Connector tool - starts bound when pressed on a shape
+        if (activeTool === 'connector') {
+            setDrawing(true);
+            const target = findBindableAt(elementsIn(getAreaAround(canvasPoint, 0)), canvasPoint);
+            const newElement: ConnectorElement = {
+                ...createBaseElement('connector', snappedPoint.x, snappedPoint.y),
+                type: 'connector',
+                stroke: { ...currentStroke },
+                startArrow: 'none',
+                endArrow: 'arrow',
+                startBinding: target ? { elementId: target.id, focus: 0, gap: CONNECTOR_GAP } : undefined,
+                routeType: 'elbow',
+                waypoints: [],
+            };
+            setCurrentElement(newElement);
+        }
+    }, [activeTool, elements, frames, selectedIds, transform.scale, connectorRoutes, elementsIn, screenToCanvas, snapToGridPoint, currentStroke, currentFill, setPanning, setDrawing, clearSelection, assignToFrames, beginTransaction, transact]);
 
     // Handle mouse move
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -288,6 +508,7 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
         const screenX = e.clientX - rect.left;
         const screenY = e.clientY - rect.top;
         const canvasPoint = screenToCanvas(screenX, screenY);
+        reportCursor(canvasPoint);
 
         // Panning
         if (isPanning && dragStart) {
@@ -303,7 +524,70 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
 
         // Selection box
         if (selectionBox) {
-            setSelectionBox({ ...selectionBox, end: canvasPoint });
+            setSelectionBox({ ...selectionBox, end: canvasPoint, intersect: e.altKey });
+            return;
+        }
+
+        // Erasing
+        if (erasingIds && lastEraserPoint.current) {
+            const radius = ERASER_RADIUS / transform.scale;
+            const from = lastEraserPoint.current;
+            const area = {
+                x: Math.min(from.x, canvasPoint.x) - radius,
+                y: Math.min(from.y, canvasPoint.y) - radius,
+                width: Math.abs(canvasPoint.x - from.x) + radius * 2,
+                height: Math.abs(canvasPoint.y - from.y) + radius * 2,
+            };
+            const hits = findElementsOnPath(elementsIn(area), from, canvasPoint, radius, erasingIds, connectorRoutes);
+            if (hits.length > 0) setErasingIds([...erasingIds, ...hits]);
+            lastEraserPoint.current = canvasPoint;
+            return;
+        }
+
+        // Laser trail
+        if (isLaserDown.current) {
+            laserStrokes.current[laserStrokes.current.length - 1]?.push({ ...canvasPoint, time: performance.now() });
+            return;
+        }
+
+        // Dragging a crop edge, along the image's own axes
+        if (cropDrag) {
+            const { start, handle, origin } = cropDrag;
+            const rotation = getRotation(start);
+            const delta = rotatePoint({ x: canvasPoint.x - origin.x, y: canvasPoint.y - origin.y }, { x: 0, y: 0 }, -rotation);
+            const cropped = cropImage(start, handle, delta.x, delta.y, MIN_CROP_SIZE / transform.scale);
+            const offset = getResizeAnchorOffset(start, cropped, handle, rotation);
+            updateElementSilent(start.id, { ...cropped, x: cropped.x + offset.x, y: cropped.y + offset.y });
+            return;
+        }
+
+        // Dragging an arrow end - detached until released
+        if (endpointDrag) {
+            const el = elementMap[endpointDrag.id];
+            if (el?.type === 'arrow') {
+                const points = el.points.map((p) => ({ x: el.x + p.x, y: el.y + p.y }));
+                points[endpointDrag.end === 'start' ? 0 : points.length - 1] = snapToGridPoint(canvasPoint);
+                updateElementSilent(el.id, {
+                    ...getLinearGeometry(points),
+                    ...(endpointDrag.end === 'start' ? { startBinding: undefined } : { endBinding: undefined }),
+                });
+
+                const other = endpointDrag.end === 'start' ? el.endBinding : el.startBinding;
+                const distance = BINDING_SNAP_DISTANCE / transform.scale;
+                const target = findBindingTarget(elementsIn(getAreaAround(canvasPoint, distance)), canvasPoint, distance, other?.elementId);
+                setBindingHintId(target?.id ?? null);
+            }
+            return;
+        }
+
+        // Dragging a connector waypoint
+        if (waypointDrag) {
+            const el = elementMap[waypointDrag.id];
+            if (el?.type === 'connector') {
+                const waypoints = [...el.waypoints];
+                waypoints[waypointDrag.index] = snapToGridPoint(canvasPoint);
+                updateElementSilent(el.id, { waypoints });
+            }
             return;
         }
 
@@ -315,7 +599,12 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             draggedElementStart.forEach((startPos, id) => {
                 const newX = snapToGrid ? Math.round((startPos.x + dx) / gridSize) * gridSize : startPos.x + dx;
                 const newY = snapToGrid ? Math.round((startPos.y + dy) / gridSize) * gridSize : startPos.y + dy;
-                updateElementSilent(id, { x: newX, y: newY });
+                // Waypoints are absolute, so they travel with the connector
+                const waypoints = draggedWaypointsStart.current.get(id)?.map((p) => ({
+                    x: p.x + newX - startPos.x,
+                    y: p.y + newY - startPos.y,
+                }));
+                updateElementSilent(id, waypoints ? { x: newX, y: newY, waypoints } : { x: newX, y: newY });
             });
             return;
         }
@@ -332,8 +621,21 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             }
 
             const el = resizeStart.element;
-            const dx = canvasPoint.x - resizeStart.point.x;
-            const dy = canvasPoint.y - resizeStart.point.y;
+
+            if (resizeHandle === 'rotation') {
+                updateElementSilent(el.id, rotateElement(el, resizeStart.point, canvasPoint, e.shiftKey));
+                return;
+            }
+
+            // Drag measured along the element's own axes
+            const rotation = getRotation(el);
+            const delta = rotatePoint(
+                { x: canvasPoint.x - resizeStart.point.x, y: canvasPoint.y - resizeStart.point.y },
+                { x: 0, y: 0 },
+                -rotation
+            );
+            const dx = delta.x;
+            const dy = delta.y;
 
             let newX = el.x;
             let newY = el.y;
@@ -389,8 +691,25 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                 newHeight = minSize;
             }
 
+            // Images keep their proportions unless Shift is held
+            const keepAspect = el.type === 'image' && !e.shiftKey;
+            if (keepAspect) {
+                ({ x: newX, y: newY, width: newWidth, height: newHeight } = fitAspectRatio(el, resizeHandle, {
+                    x: newX,
+                    y: newY,
+                    width: newWidth,
+                    height: newHeight,
+                }));
+            }
+
+            // Rotated elements grow away from the corner or edge opposite
+            // the handle, which must not move on screen
+            const offset = getResizeAnchorOffset(el, { x: newX, y: newY, width: newWidth, height: newHeight }, resizeHandle, rotation);
+            newX += offset.x;
+            newY += offset.y;
+
             // Snap to grid
-            if (snapToGrid) {
+            if (snapToGrid && !keepAspect && !rotation) {
                 newX = Math.round(newX / gridSize) * gridSize;
                 newY = Math.round(newY / gridSize) * gridSize;
                 newWidth = Math.round(newWidth / gridSize) * gridSize;
@@ -407,7 +726,7 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             const startPoint = snapToGridPoint(screenToCanvas(dragStart.x, dragStart.y));
 
             // Shape elements
-            if (['rectangle', 'ellipse', 'diamond', 'triangle'].includes(currentElement.type)) {
+            if (['rectangle', 'ellipse', 'diamond', 'triangle', 'frame'].includes(currentElement.type)) {
                 const width = Math.abs(snappedPoint.x - startPoint.x);
                 const height = Math.abs(snappedPoint.y - startPoint.y);
                 const x = Math.min(snappedPoint.x, startPoint.x);
@@ -440,6 +759,32 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                         { x: dx >= 0 ? width : 0, y: dy >= 0 ? height : 0 },
                     ],
                 } as LineElement | ArrowElement);
+
+                if (currentElement.type === 'arrow') {
+                    const distance = BINDING_SNAP_DISTANCE / transform.scale;
+                    const target = findBindingTarget(elementsIn(getAreaAround(canvasPoint, distance)), canvasPoint, distance);
+                    setBindingHintId(target?.id ?? null);
+                }
+            }
+
+            // Connector - end follows the pointer, or binds to the shape under it
+            if (currentElement.type === 'connector') {
+                const target = findBindableAt(elementsIn(getAreaAround(canvasPoint, 0)), canvasPoint);
+                const bindable = target && target.id !== currentElement.startBinding?.elementId ? target : undefined;
+                const next: ConnectorElement = {
+                    ...currentElement,
+                    width: snappedPoint.x - currentElement.x,
+                    height: snappedPoint.y - currentElement.y,
+                    endBinding: bindable ? { elementId: bindable.id, focus: 0, gap: CONNECTOR_GAP } : undefined,
+                };
+                const { start, end } = resolveConnectorEnds(next, elementMap);
+                setCurrentElement({
+                    ...next,
+                    x: start.point.x,
+                    y: start.point.y,
+                    width: end.point.x - start.point.x,
+                    height: end.point.y - start.point.y,
+                });
             }
 
             // Freedraw element - add points as we move
@@ -468,10 +813,11 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
 
         // Hover detection
         if (activeTool === 'select' && !isDrawing && !isPanning) {
-            const hoveredElement = findElementAtPoint(elements, canvasPoint);
+            const nearby = elementsIn(getAreaAround(canvasPoint, HIT_TOLERANCE / transform.scale));
+            const hoveredElement = findElementAtPoint(nearby, frames, canvasPoint, transform.scale, connectorRoutes);
             setHovered(hoveredElement?.id || null);
         }
-    }, [isPanning, isDrawing, dragStart, transform, selectionBox, currentElement, activeTool, elements, screenToCanvas, snapToGridPoint, setTransform, setHovered]);
+    }, [isPanning, isDrawing, dragStart, transform, selectionBox, erasingIds, cropDrag, endpointDrag, waypointDrag, currentElement, activeTool, elements, elementMap, frames, connectorRoutes, elementsIn, screenToCanvas, snapToGridPoint, setTransform, setHovered]);
 
     // Handle mouse up
     const handleMouseUp = useCallback(() => {
@@ -480,21 +826,74 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             setPanning(false);
         }
 
+        isLaserDown.current = false;
+
         // End resizing
         if (storeIsResizing) {
             setResizing(false, null);
         }
 
-        // End element dragging - record history for undo
-        if (isDraggingElement && draggedElementStart.size > 0) {
-            // Record final positions to history
+        // End crop drag - restore the start so history records one change
+        if (cropDrag) {
+            const el = elementMap[cropDrag.start.id];
+            if (el?.type === 'image') {
+                updateElementSilent(el.id, cropDrag.start);
+                updateElement(el.id, { x: el.x, y: el.y, width: el.width, height: el.height, crop: el.crop });
+            }
+            setCropDrag(null);
+        }
+
+        // End arrow end drag - bind where released. The start is restored
+        // first so history records one change
+        if (endpointDrag) {
+            const el = elementMap[endpointDrag.id];
+            if (el?.type === 'arrow') {
+                const bound = bindArrowEnd(el, endpointDrag.end, elements, BINDING_SNAP_DISTANCE / transform.scale);
+                updateElementSilent(el.id, endpointDrag.start);
+                updateElement(el.id, {
+                    x: bound.x,
+                    y: bound.y,
+                    width: bound.width,
+                    height: bound.height,
+                    points: bound.points,
+                    startBinding: bound.startBinding,
+                    endBinding: bound.endBinding,
+                });
+            }
+            setEndpointDrag(null);
+            setBindingHintId(null);
+        }
+
+        // End waypoint drag - restore the start so history records one change
+        if (waypointDrag) {
+            const el = elementMap[waypointDrag.id];
+            if (el?.type === 'connector' && JSON.stringify(el.waypoints) !== JSON.stringify(waypointDrag.start)) {
+                const { waypoints } = el;
+                updateElementSilent(el.id, { waypoints: waypointDrag.start });
+                updateElement(el.id, { waypoints });
+            }
+            setWaypointDrag(null);
+        }
+
+        // End element dragging - the transaction opened on mouse down
+        // records the move
+        if (isDraggingElement) {
             draggedElementStart.forEach((startPos, id) => {
                 const el = elements.find(e => e.id === id);
-                if (el && (el.x !== startPos.x || el.y !== startPos.y)) {
-                    // Only record if position actually changed
-                    updateElement(id, { x: el.x, y: el.y });
+                if (el?.type === 'arrow' && (el.x !== startPos.x || el.y !== startPos.y)) {
+                    // An arrow dragged away from its shapes lets go of them
+                    const keep = (binding?: Binding) =>
+                        binding && draggedElementStart.has(binding.elementId) ? binding : undefined;
+                    updateElement(id, {
+                        startBinding: keep(el.startBinding),
+                        endBinding: keep(el.endBinding),
+                    });
                 }
             });
+            draggedWaypointsStart.current = new Map();
+            // Dropping an element inside a frame adopts it
+            assignToFrames([...draggedElementStart.keys()]);
+            commitTransaction();
             setIsDraggingElement(false);
             setDragStartCanvas(null);
             setDraggedElementStart(new Map());
@@ -502,25 +901,61 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
 
         // End selection box
         if (selectionBox) {
-            const selectedElements = findElementsInBox(elements, selectionBox.start, selectionBox.end);
+            const { start, end, intersect } = selectionBox;
+            const box = {
+                x: Math.min(start.x, end.x),
+                y: Math.min(start.y, end.y),
+                width: Math.abs(end.x - start.x),
+                height: Math.abs(end.y - start.y),
+            };
+            const selectedElements = findElementsInBox(elementsIn(box), box, intersect, connectorRoutes);
             setSelection(selectedElements.map((el) => el.id));
             setSelectionBox(null);
         }
 
+        // End erasing - one delete, so a single undo brings everything back
+        if (erasingIds) {
+            if (erasingIds.length > 0) deleteElements(erasingIds);
+            setErasingIds(null);
+            lastEraserPoint.current = null;
+        }
+
         // End drawing - auto-switch to Select tool (Miro-like UX)
         if (isDrawing && currentElement) {
-            if (currentElement.width > 5 && currentElement.height > 5) {
-                addElement(currentElement);
+            const bigEnough = currentElement.type === 'connector'
+                ? !!currentElement.endBinding || Math.hypot(currentElement.width, currentElement.height) > 5
+                : currentElement.width > 5 && currentElement.height > 5;
+            if (bigEnough) {
+                // Arrow ends released on or near shapes bind to them
+                let created = currentElement;
+                if (created.type === 'arrow') {
+                    const distance = BINDING_SNAP_DISTANCE / transform.scale;
+                    created = bindArrowEnd(bindArrowEnd(created, 'start', elements, distance), 'end', elements, distance);
+                }
+                transact(`Add ${created.type}`, () => {
+                    addElement(created);
+                    // A new frame adopts what it was drawn around
+                    assignToFrames(created.type === 'frame'
+                        ? elements.map((el) => el.id)
+                        : [created.id]);
+                });
                 setSelection([currentElement.id]);
                 // Auto-switch to select tool after creating element
                 setActiveTool('select');
             }
             setCurrentElement(null);
             setDrawing(false);
+            setBindingHintId(null);
         }
 
         setDragStart(null);
-    }, [isPanning, isDrawing, isDraggingElement, selectionBox, currentElement, elements, setPanning, setDrawing, addElement, setSelection]);
+    }, [isPanning, isDrawing, isDraggingElement, selectionBox, erasingIds, cropDrag, endpointDrag, waypointDrag, currentElement, elements, elementMap, connectorRoutes, elementsIn, transform.scale, setPanning, setDrawing, addElement, deleteElements, setSelection, assignToFrames, commitTransaction, transact]);
+
+    // Leaving the canvas ends drags and hides the cursor from collaborators
+    const handleMouseLeave = useCallback(() => {
+        reportCursor(null);
+        handleMouseUp();
+    }, [handleMouseUp]);
 
     // Get cursor class
     const getCursorClass = () => {
@@ -529,10 +964,12 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
         if (isDraggingElement) return 'tool-move';
         if (activeTool === 'hand') return 'tool-hand';
         if (activeTool === 'select') return 'tool-select';
-        if (['rectangle', 'ellipse', 'diamond', 'triangle', 'line', 'arrow', 'freedraw'].includes(activeTool)) {
+        if (['rectangle', 'ellipse', 'diamond', 'triangle', 'line', 'arrow', 'freedraw', 'frame', 'connector'].includes(activeTool)) {
             return 'tool-draw';
         }
         if (activeTool === 'text') return 'tool-text';
+        if (activeTool === 'eraser') return 'tool-eraser';
+        if (activeTool === 'laser') return 'tool-laser';
         return '';
     };
 
@@ -545,11 +982,146 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
         const screenY = e.clientY - rect.top;
         const canvasPoint = screenToCanvas(screenX, screenY);
 
-        const clickedElement = findElementAtPoint(elements, canvasPoint);
-        if (clickedElement && ['rectangle', 'ellipse', 'diamond', 'triangle', 'text', 'sticky'].includes(clickedElement.type)) {
+        const nearby = elementsIn(getAreaAround(canvasPoint, HIT_TOLERANCE / transform.scale));
+        const clickedElement = findElementAtPoint(nearby, frames, canvasPoint, transform.scale, connectorRoutes) ??
+            findSelectedAtPoint(nearby, selectedIds, canvasPoint);
+        if (clickedElement && ['rectangle', 'ellipse', 'diamond', 'triangle', 'text', 'sticky', 'frame'].includes(clickedElement.type)) {
             setEditingTextId(clickedElement.id);
+        } else if (clickedElement?.type === 'image' && !clickedElement.locked) {
+            setSelection([clickedElement.id]);
+            setCroppingId(clickedElement.id);
         }
-    }, [elements, screenToCanvas]);
+    }, [frames, selectedIds, transform.scale, connectorRoutes, elementsIn, screenToCanvas, setSelection]);
+
+    // Crop handles of the image being cropped
+    const handleCropMouseDown = useCallback((handle: ResizeHandle, e: React.MouseEvent) => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        if (!croppingImage || !rect) return;
+        const origin = screenToCanvas(e.clientX - rect.left, e.clientY - rect.top);
+        setCropDrag({ handle, start: croppingImage, origin });
+    }, [croppingImage, screenToCanvas]);
+
+    // Endpoint handles of the selected arrow
+    const handleEndpointMouseDown = useCallback((end: 'start' | 'end') => {
+        if (selectedArrow) setEndpointDrag({ id: selectedArrow.id, end, start: selectedArrow });
+    }, [selectedArrow]);
+
+    // Waypoint handles of the selected connector
+    const handleWaypointMouseDown = useCallback((index: number, insertAt?: Point) => {
+        if (!selectedConnector) return;
+        const start = selectedConnector.waypoints;
+        if (insertAt) {
+            updateElementSilent(selectedConnector.id, {
+                waypoints: [...start.slice(0, index), insertAt, ...start.slice(index)],
+            });
+        }
+        setWaypointDrag({ id: selectedConnector.id, index, start });
+    }, [selectedConnector, updateElementSilent]);
+
+    const handleWaypointDoubleClick = useCallback((index: number) => {
+        if (!selectedConnector) return;
+        updateElement(selectedConnector.id, {
+            waypoints: selectedConnector.waypoints.filter((_, i) => i !== index),
+        });
+    }, [selectedConnector, updateElement]);
+
+    // Accept dropped files
+    const handleDragOver = useCallback((e: React.DragEvent) => {
+        if (e.dataTransfer.types.includes('Files')) {
+            e.preventDefault();
+        }
+    }, []);
+
+    // Read image files into the store and place them around a canvas point
+    const insertImageFiles = useCallback(async (files: File[], center: Point) => {
+        const imageFiles = files.filter((file) => file.type.startsWith('image/'));
+        if (imageFiles.length === 0) return;
+
+        try {
+            insertImages(await Promise.all(imageFiles.map(readImageFile)), center);
+        } catch (err) {
+            alert(`Failed to insert image: ${(err as Error).message}`);
+        }
+    }, [insertImages]);
+
+    const handleDrop = useCallback(async (e: React.DragEvent) => {
+        const files = Array.from(e.dataTransfer.files);
+        const rect = canvasRef.current?.getBoundingClientRect();
+        if (files.length === 0 || !rect) return;
+        e.preventDefault();
+
+        // Editable SVG exports restore the board they were exported from;
+        // any other SVG is just an image
+        const file = files[0];
+        if (files.length === 1 && (file.type === 'image/svg+xml' || file.name.endsWith('.svg'))) {
+            const svg = await file.text();
+            if (hasEmbeddedScene(svg)) {
+                try {
+                    const report = importFromSVG(svg);
+                    if (!isCleanImport(report)) alert(formatImportReport(report));
+                } catch (err) {
+                    alert(`Failed to import SVG: ${(err as Error).message}`);
+                }
+                return;
+            }
+        }
+
+        await insertImageFiles(files, screenToCanvas(e.clientX - rect.left, e.clientY - rect.top));
+    }, [importFromSVG, insertImageFiles, screenToCanvas]);
+
+    // Culling follows the canvas size
+    useEffect(() => {
+        const container = canvasRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // Ctrl+V: images on the system clipboard win over copied elements
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            e.preventDefault();
+
+            const files = Array.from(e.clipboardData?.files ?? []).filter((file) => file.type.startsWith('image/'));
+            const rect = canvasRef.current?.getBoundingClientRect();
+            if (files.length === 0 || !rect) {
+                paste();
+                return;
+            }
+            insertImageFiles(files, screenToCanvas(rect.width / 2, rect.height / 2));
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [paste, insertImageFiles, screenToCanvas]);
+
+    const isVisible = (id: string) => !visibleIds || visibleIds.has(id);
+
+    // Element wrapped so exporters can find it by id; frames nest their children
+    const renderElement = (element: CanvasElement): React.ReactNode => (
+        <g
+            key={element.id}
+            data-element-id={element.id}
+            opacity={erasingSet.has(element.id) ? 0.3 : undefined}
+        >
+            {element.type === 'frame' ? (
+                <FrameRenderer element={element} scale={transform.scale}>
+                    {elements.filter((el) => frameOf.get(el.id) === element.id && isVisible(el.id)).map(renderElement)}
+                </FrameRenderer>
+            ) : (
+                <g transform={getRotationTransform(element)}>
+                    <RoughElementRenderer
+                        element={element}
+                        isSelected={selectedIds.includes(element.id)}
+                        route={connectorRoutes.get(element.id)}
+                    />
+                </g>
+            )}
+        </g>
+    );
 
     return (
         <div
@@ -559,45 +1131,111 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            onMouseLeave={handleMouseLeave}
             onDoubleClick={handleDoubleClick}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
         >
             {/* Grid */}
             {gridEnabled && <Grid transform={transform} gridSize={gridSize} darkMode={darkMode} />}
 
+            {/* Canvas backend. Exports copy SVG nodes, so while one runs the
+                SVG scene is drawn as well, identically on top */}
+            {renderer === 'canvas' && (
+                <CanvasSceneRenderer
+                    elements={elements}
+                    frameOf={frameOf}
+                    routes={connectorRoutes}
+                    dimmed={erasingSet}
+                    transform={transform}
+                    width={viewportSize.width}
+                    height={viewportSize.height}
+                />
+            )}
+
             {/* SVG Canvas */}
             <svg
                 ref={svgRef}
                 className="absolute inset-0 w-full h-full"
                 style={{ overflow: 'visible' }}
             >
-                <g transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}>
+                <g
+                    data-canvas-scene
+                    transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}
+                >
                     {/* Render elements */}
-                    {elements.map((element) => (
-                        <RoughElementRenderer
-                            key={element.id}
-                            element={element}
-                            isSelected={selectedIds.includes(element.id)}
+                    {(renderer === 'svg' || renderOffscreen) &&
+                        elements.filter((el) => !frameOf.has(el.id) && isVisible(el.id)).map(renderElement)}
+
+                    {/* Shape an arrow end would bind to */}
+                    {bindingHintId && elementMap[bindingHintId] && (
+                        <polyline
+                            points={getElementOutline(elementMap[bindingHintId]).map((p) => `${p.x},${p.y}`).join(' ')}
+                            fill="none"
+                            stroke="var(--canvas-selection)"
+                            strokeWidth={3 / transform.scale}
+                            strokeOpacity={0.6}
+                            pointerEvents="none"
                         />
-                    ))}
+                    )}
 
                     {/* Current drawing element */}
-                    {currentElement && (
+                    {currentElement?.type === 'frame' && (
+                        <FrameRenderer element={currentElement} scale={transform.scale} />
+                    )}
+                    {currentElement && currentElement.type !== 'frame' && (
                         <RoughElementRenderer
                             element={currentElement}
                             isSelected={false}
+                            route={currentElement.type === 'connector'
+                                ? routeConnector(currentElement, elementMap, queryElementIds)
+                                : undefined}
                         />
                     )}
                 </g>
             </svg>
 
+            {/* What collaborators have selected */}
+            <CollaboratorSelections transform={transform} />
+
             {/* Selection overlay */}
-            <SelectionOverlay transform={transform} />
+            {croppingImage ? (
+                <ImageCropOverlay
+                    element={croppingImage}
+                    transform={transform}
+                    onHandleMouseDown={handleCropMouseDown}
+                />
+            ) : (
+                <SelectionOverlay transform={transform} />
+            )}
+
+            {/* Arrow ends */}
+            {selectedArrow && activeTool === 'select' && (
+                <ArrowHandles
+                    element={selectedArrow}
+                    transform={transform}
+                    onEndpointMouseDown={handleEndpointMouseDown}
+                />
+            )}
+
+            {/* Connector waypoints */}
+            {selectedConnector && activeTool === 'select' && (
+                <ConnectorHandles
+                    element={selectedConnector}
+                    legs={selectedConnectorLegs}
+                    transform={transform}
+                    onWaypointMouseDown={handleWaypointMouseDown}
+                    onWaypointDoubleClick={handleWaypointDoubleClick}
+                />
+            )}
+
+            {/* Laser pointer */}
+            {activeTool === 'laser' && <LaserTrail strokes={laserStrokes} transform={transform} />}
 
             {/* Selection box */}
             {selectionBox && (
                 <div
-                    className="selection-box"
+                    className={`selection-box ${selectionBox.intersect ? 'intersect' : ''}`}
                     style={{
                         left: Math.min(selectionBox.start.x, selectionBox.end.x) * transform.scale + transform.x,
                         top: Math.min(selectionBox.start.y, selectionBox.end.y) * transform.scale + transform.y,
@@ -607,6 +1245,9 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
                 />
             )}
 
+            {/* Collaborators' cursors */}
+            <PresenceOverlay transform={transform} />
+
             {/* Text editor */}
             {editingTextId && (
                 <TextEditor
@@ -623,15 +1264,90 @@ export function Canvas({ className = '', darkMode = false }: CanvasProps) {
 // Helper Functions
 // =============================================================================
 
-function findElementAtPoint(elements: CanvasElement[], point: Point): CanvasElement | null {
+function getRotationTransform(el: CanvasElement): string | undefined {
+    const rotation = getRotation(el);
+    if (!rotation) return undefined;
+    const center = getRotationCenter(el);
+    return `rotate(${rotation} ${center.x} ${center.y})`;
+}
+
+// Turn `el` by the angle the pointer swept around its center. Shapes keep
+// a rotation; point-based elements have their points turned instead, so
+// their ends stay where they are drawn
+function rotateElement(el: CanvasElement, from: Point, to: Point, snap: boolean): Partial<CanvasElement> {
+    const center = getRotationCenter(el);
+    const angle = (p: Point) => (Math.atan2(p.y - center.y, p.x - center.x) * 180) / Math.PI;
+    const sweep = angle(to) - angle(from);
+
+    if (el.type === 'line' || el.type === 'arrow' || el.type === 'freedraw') {
+        const delta = snap ? Math.round(sweep / ROTATION_SNAP) * ROTATION_SNAP : sweep;
+        const points = getElementOutline(el).map((p) => rotatePoint(p, center, delta));
+        // Turned arrow ends no longer point at the shapes they were bound to
+        const unbound = el.type === 'arrow' ? { startBinding: undefined, endBinding: undefined } : {};
+        return { ...getLinearGeometry(points), rotation: 0, ...unbound };
+    }
+
+    let rotation = el.rotation + sweep;
+    if (snap) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+    return { rotation: ((rotation % 360) + 360) % 360 };
+}
+
+// Scale `el` to the box dragged by `handle` without changing its aspect
+// ratio. The side or corner opposite the handle stays put
+function fitAspectRatio(el: CanvasElement, handle: ResizeHandle, box: Bounds): Bounds {
+    const horizontal = handle.includes('e') || handle.includes('w');
+    const vertical = handle.includes('n') || handle.includes('s');
+    const scale = horizontal && vertical
+        ? Math.max(box.width / el.width, box.height / el.height)
+        : horizontal ? box.width / el.width : box.height / el.height;
+
+    const width = el.width * scale;
+    const height = el.height * scale;
+    return {
+        x: handle.includes('w') ? el.x + el.width - width : horizontal ? el.x : el.x + (el.width - width) / 2,
+        y: handle.includes('n') ? el.y + el.height - height : vertical ? el.y : el.y + (el.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+// Square of the given radius around p, for index lookups
+function getAreaAround(p: Point, radius: number): Bounds {
+    return { x: p.x - radius, y: p.y - radius, width: radius * 2, height: radius * 2 };
+}
+
+// `elements` are candidates from the index, in paint order. Frame labels
+// sit outside the frame's bounds, so frames are passed separately
+function findElementAtPoint(
+    elements: CanvasElement[],
+    frames: FrameElement[],
+    point: Point,
+    scale: number,
+    connectorRoutes: Map<string, Point[]>
+): CanvasElement | null {
     // Search in reverse order (top elements first)
+    for (let i = elements.length - 1; i >= 0; i--) {
+        const el = elements[i];
+        if (el.type === 'frame') continue;
+        if (hitTestElement(el, point, HIT_TOLERANCE / scale, connectorRoutes.get(el.id))) return el;
+    }
+    // Frames are picked by their name label, so their empty area can
+    // start a selection box
+    for (let i = frames.length - 1; i >= 0; i--) {
+        if (pointInBounds(point, getFrameLabelBounds(frames[i], scale))) return frames[i];
+    }
+    return null;
+}
+
+// Topmost selected element whose box contains the point. Selected
+// elements can be grabbed anywhere inside, even where they are hollow
+function findSelectedAtPoint(elements: CanvasElement[], selectedIds: string[], point: Point): CanvasElement | null {
     for (let i = elements.length - 1; i >= 0; i--) {
         const el = elements[i];
         if (
-            point.x >= el.x &&
-            point.x <= el.x + el.width &&
-            point.y >= el.y &&
-            point.y <= el.y + el.height
+            el.type !== 'frame' &&
+            selectedIds.includes(el.id) &&
+            pointInBounds(toUnrotatedPoint(el, point), getUnrotatedBounds(el))
         ) {
             return el;
         }
@@ -639,18 +1355,38 @@ function findElementAtPoint(elements: CanvasElement[], point: Point): CanvasElem
     return null;
 }
 
-function findElementsInBox(elements: CanvasElement[], start: Point, end: Point): CanvasElement[] {
-    const minX = Math.min(start.x, end.x);
-    const maxX = Math.max(start.x, end.x);
-    const minY = Math.min(start.y, end.y);
-    const maxY = Math.max(start.y, end.y);
-
-    return elements.filter((el) => {
-        return (
-            el.x >= minX &&
-            el.x + el.width <= maxX &&
-            el.y >= minY &&
-            el.y + el.height <= maxY
-        );
-    });
+// Elements the marquee encloses, or touches when `intersect` is set
+function findElementsInBox(
+    elements: CanvasElement[],
+    box: Bounds,
+    intersect: boolean,
+    connectorRoutes: Map<string, Point[]>
+): CanvasElement[] {
+    const test = intersect ? elementIntersectsBox : elementInBox;
+    return elements.filter((el) => test(el, box, connectorRoutes.get(el.id)));
+}
+
+// Topmost shape a connector end can attach to
+function findBindableAt(elements: CanvasElement[], point: Point): CanvasElement | null {
+    for (let i = elements.length - 1; i >= 0; i--) {
+        const el = elements[i];
+        if (isBindable(el) && pointInBounds(toUnrotatedPoint(el, point), getUnrotatedBounds(el))) return el;
+    }
+    return null;
+}
+
+// Unlocked elements, not already in `exclude`, whose strokes the pointer
+// path from -> to touches
+function findElementsOnPath(
+    elements: CanvasElement[],
+    from: Point,
+    to: Point,
+    radius: number,
+    exclude: string[],
+    connectorRoutes: Map<string, Point[]>
+): string[] {
+    return elements
+        .filter((el) => !el.locked && !exclude.includes(el.id) &&
+            pathHitsElement(el, from, to, radius, connectorRoutes.get(el.id)))
+        .map((el) => el.id);
 }
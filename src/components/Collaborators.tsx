@@ -0,0 +1,78 @@
+/**
+ * WB Canvas - Collaborators
+ *
+ * Who is on the shared board, as avatars in their colors. Clicking
+ * someone follows their view; clicking yourself changes your name
+ */
+
+import { memo, useState } from 'react';
+import { useCanvasStore } from '../store/canvas-store';
+import { getLocalUser, setLocalUserName } from '../utils/presence';
+
+const MAX_AVATARS = 5;
+
+export const Collaborators = memo(function Collaborators() {
+    const collaborators = useCanvasStore((s) => s.collaborators);
+    const followingId = useCanvasStore((s) => s.followingId);
+    const followCollaborator = useCanvasStore((s) => s.followCollaborator);
+    const [user, setUser] = useState(getLocalUser);
+
+    const others = Object.values(collaborators);
+    const hidden = others.length - MAX_AVATARS;
+
+    const handleRename = () => {
+        const name = prompt('Your name, as collaborators see it:', user.name)?.trim();
+        if (!name) return;
+        setLocalUserName(name);
+        setUser(getLocalUser());
+    };
+
+    return (
+        <div className="flex items-center -space-x-1.5">
+            {others.slice(0, MAX_AVATARS).map((presence) => {
+                const following = presence.clientId === followingId;
+                return (
+                    <Avatar
+                        key={presence.clientId}
+                        name={presence.name}
+                        color={presence.color}
+                        active={following}
+                        title={following ? `Stop following ${presence.name}` : `Follow ${presence.name}`}
+                        onClick={() => followCollaborator(following ? null : presence.clientId)}
+                    />
+                );
+            })}
+            {hidden > 0 && (
+                <div className="w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-medium bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-200 ring-2 ring-white dark:ring-slate-800">
+                    +{hidden}
+                </div>
+            )}
+            <Avatar name={user.name} color={user.color} title={`${user.name} (you) - click to rename`} onClick={handleRename} />
+        </div>
+    );
+});
+
+interface AvatarProps {
+    name: string;
+    color: string;
+    active?: boolean;
+    title: string;
+    onClick: () => void;
+}
+
+function Avatar({ name, color, active = false, title, onClick }: AvatarProps) {
+    return (
+        <button
+            className={`w-7 h-7 rounded-full flex items-center justify-center text-[11px] font-semibold text-white ring-2 ${active ? 'ring-indigo-500 z-10' : 'ring-white dark:ring-slate-800'}`}
+            style={{ background: color }}
+            onClick={onClick}
+            title={title}
+        >
+            {getInitials(name)}
+        </button>
+    );
+}
+
+function getInitials(name: string): string {
+    return name.split(/\s+/).filter(Boolean).slice(0, 2).map((word) => word[0].toUpperCase()).join('');
+}
@@ -0,0 +1,72 @@
+/**
+ * WB Canvas - Connector Handles
+ *
+ * Waypoint handles for the selected connector. Square handles move
+ * existing waypoints (double-click removes one); round handles in the
+ * middle of each leg insert a new waypoint when dragged
+ */
+
+import { memo } from 'react';
+import { ConnectorElement, Point, Transform } from '../types/canvas';
+import { getPolylineMidpoint } from '../utils/connector-routing';
+
+interface ConnectorHandlesProps {
+    element: ConnectorElement;
+    legs: Point[][];
+    transform: Transform;
+    onWaypointMouseDown: (index: number, insertAt?: Point) => void;
+    onWaypointDoubleClick: (index: number) => void;
+}
+
+const HANDLE_SIZE = 10;
+
+export const ConnectorHandles = memo(function ConnectorHandles({
+    element,
+    legs,
+    transform,
+    onWaypointMouseDown,
+    onWaypointDoubleClick,
+}: ConnectorHandlesProps) {
+    if (element.locked) return null;
+
+    const toScreen = (p: Point) => ({
+        left: p.x * transform.scale + transform.x - HANDLE_SIZE / 2,
+        top: p.y * transform.scale + transform.y - HANDLE_SIZE / 2,
+    });
+
+    return (
+        <div className="pointer-events-none absolute inset-0">
+            {legs.map((leg, i) => {
+                const midpoint = getPolylineMidpoint(leg);
+                return (
+                    <div
+                        key={`insert-${i}`}
+                        className="absolute rounded-full border border-indigo-500 bg-white/70 pointer-events-auto cursor-move"
+                        style={{ ...toScreen(midpoint), width: HANDLE_SIZE, height: HANDLE_SIZE }}
+                        onMouseDown={(e) => {
+                            e.stopPropagation();
+                            onWaypointMouseDown(i, midpoint);
+                        }}
+                    />
+                );
+            })}
+
+            {element.waypoints.map((point, i) => (
+                <div
+                    key={`waypoint-${i}`}
+                    className="resize-handle pointer-events-auto cursor-move"
+                    style={{ ...toScreen(point), width: HANDLE_SIZE, height: HANDLE_SIZE }}
+                    title="Drag to move, double-click to remove"
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        onWaypointMouseDown(i);
+                    }}
+                    onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        onWaypointDoubleClick(i);
+                    }}
+                />
+            ))}
+        </div>
+    );
+});
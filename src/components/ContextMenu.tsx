@@ -37,6 +37,7 @@ export const ContextMenu = memo(function ContextMenu({ position, onClose }: Cont
     const bringToFront = useCanvasStore((s) => s.bringToFront);
     const sendToBack = useCanvasStore((s) => s.sendToBack);
     const updateElement = useCanvasStore((s) => s.updateElement);
+    const transact = useCanvasStore((s) => s.transact);
     const group = useCanvasStore((s) => s.group);
     const ungroup = useCanvasStore((s) => s.ungroup);
     const clipboard = useCanvasStore((s) => s.clipboard);
@@ -124,11 +125,9 @@ export const ContextMenu = memo(function ContextMenu({ position, onClose }: Cont
         {
             icon: isLocked ? <Unlock size={16} /> : <Lock size={16} />,
             label: isLocked ? 'Unlock' : 'Lock',
-            action: () => {
-                selectedElements.forEach((el) => {
-                    updateElement(el.id, { locked: !isLocked });
-                });
-            },
+            action: () => transact(isLocked ? 'Unlock' : 'Lock', () => selectedElements.forEach((el) => {
+                updateElement(el.id, { locked: !isLocked });
+            })),
             disabled: !hasSelection,
         },
         {
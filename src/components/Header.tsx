@@ -10,6 +10,7 @@ import {
     Download,
     Upload,
     FileJson,
+    FileCode,
     Image,
     Sun,
     Moon,
@@ -17,21 +18,50 @@ import {
     Github,
     Pencil,
     Square,
+    Gauge,
+    History,
+    Users,
 } from 'lucide-react';
-import { useCanvasStore } from '../store/canvas-store';
+import { saveAs } from 'file-saver';
+import { useCanvasStore, selectElementOrder, selectRenderer, withOffscreenRendered } from '../store/canvas-store';
+import { PngExportDialog } from './PngExportDialog';
+import { BoardSwitcher } from './BoardSwitcher';
+import { Collaborators } from './Collaborators';
+import { SyncStatus } from './SyncStatus';
+import { findCanvasScene } from '../utils/scene-svg';
+import { exportToSVG } from '../utils/svg-export';
+import { ExportResult, formatSkippedSummary } from '../utils/diagram-ir';
+import { formatImportReport, isCleanImport } from '../utils/scene-file';
+import { getRoomLink } from '../hooks/useCollaboration';
 
 interface HeaderProps {
     darkMode: boolean;
     onToggleDarkMode: () => void;
+    historyOpen: boolean;
+    onToggleHistory: () => void;
 }
 
-export const Header = memo(function Header({ darkMode, onToggleDarkMode }: HeaderProps) {
+export const Header = memo(function Header({ darkMode, onToggleDarkMode, historyOpen, onToggleHistory }: HeaderProps) {
     const [menuOpen, setMenuOpen] = useState(false);
+    const [pngDialogOpen, setPngDialogOpen] = useState(false);
+    const elementOrder = useCanvasStore(selectElementOrder);
     const exportToJSON = useCanvasStore((s) => s.exportToJSON);
     const importFromJSON = useCanvasStore((s) => s.importFromJSON);
-    const clear = useCanvasStore((s) => s.clear);
+    const exportToMermaid = useCanvasStore((s) => s.exportToMermaid);
+    const exportToPlantUML = useCanvasStore((s) => s.exportToPlantUML);
+    const exportToDrawio = useCanvasStore((s) => s.exportToDrawio);
+    const importFromDrawio = useCanvasStore((s) => s.importFromDrawio);
+    const exportToExcalidraw = useCanvasStore((s) => s.exportToExcalidraw);
+    const importFromExcalidraw = useCanvasStore((s) => s.importFromExcalidraw);
+    const createBoard = useCanvasStore((s) => s.createBoard);
     const roughStyle = useCanvasStore((s) => s.roughStyle);
     const toggleRoughStyle = useCanvasStore((s) => s.toggleRoughStyle);
+    const renderer = useCanvasStore(selectRenderer);
+    const setRenderer = useCanvasStore((s) => s.setRenderer);
+    const boardId = useCanvasStore((s) => s.boardId);
+    const collaboration = useCanvasStore((s) => s.collaboration);
+    const startCollaboration = useCanvasStore((s) => s.startCollaboration);
+    const stopCollaboration = useCanvasStore((s) => s.stopCollaboration);
 
     const handleExportJSON = () => {
         const json = exportToJSON();
@@ -45,6 +75,23 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
         setMenuOpen(false);
     };
 
+    const handleToggleCollaboration = async () => {
+        if (collaboration) {
+            stopCollaboration();
+            return;
+        }
+        if (!boardId) return;
+
+        startCollaboration();
+        const link = getRoomLink(boardId);
+        try {
+            await navigator.clipboard.writeText(link);
+            alert('Sharing this board. The link to join was copied to the clipboard.');
+        } catch {
+            prompt('Sharing this board. Send this link to join:', link);
+        }
+    };
+
     const handleImportJSON = () => {
         const input = document.createElement('input');
         input.type = 'file';
@@ -52,24 +99,104 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
         input.onchange = async (e) => {
             const file = (e.target as HTMLInputElement).files?.[0];
             if (file) {
-                const text = await file.text();
-                importFromJSON(text);
+                try {
+                    const report = importFromJSON(await file.text());
+                    if (!isCleanImport(report)) alert(formatImportReport(report));
+                } catch (err) {
+                    alert(`Failed to import JSON: ${(err as Error).message}`);
+                }
             }
         };
         input.click();
         setMenuOpen(false);
     };
 
-    const handleExportPNG = async () => {
-        // TODO: Implement PNG export
-        alert('PNG export coming soon!');
+    // Save a text-based export and report anything that could not be converted
+    const saveExport = (result: ExportResult, format: string, filename: string) => {
+        saveAs(new Blob([result.output], { type: 'text/plain;charset=utf-8' }), filename);
+        if (result.skipped.length > 0) {
+            alert(formatSkippedSummary(format, result.skipped));
+        }
+    };
+
+    const handleExportMermaid = () => {
+        saveExport(exportToMermaid(), 'Mermaid', 'canvas.mmd');
+        setMenuOpen(false);
+    };
+
+    const handleExportPlantUML = () => {
+        saveExport(exportToPlantUML(), 'PlantUML', 'canvas.puml');
         setMenuOpen(false);
     };
 
-    const handleNew = () => {
-        if (confirm('Clear canvas? This cannot be undone.')) {
-            clear();
+    const handleExportDrawio = () => {
+        saveExport(exportToDrawio(), 'Draw.io', 'canvas.drawio');
+        setMenuOpen(false);
+    };
+
+    const handleImportDrawio = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.drawio,.xml';
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (file) {
+                try {
+                    const skipped = await importFromDrawio(await file.text());
+                    if (skipped.length > 0) alert(formatSkippedSummary('Draw.io', skipped, 'import'));
+                } catch (err) {
+                    alert(`Failed to import Draw.io file: ${(err as Error).message}`);
+                }
+            }
+        };
+        input.click();
+        setMenuOpen(false);
+    };
+
+    const handleExportExcalidraw = () => {
+        saveExport(exportToExcalidraw(), 'Excalidraw', 'canvas.excalidraw');
+        setMenuOpen(false);
+    };
+
+    const handleImportExcalidraw = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.excalidraw,.json';
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (file) {
+                try {
+                    importFromExcalidraw(await file.text());
+                } catch (err) {
+                    alert(`Failed to import Excalidraw file: ${(err as Error).message}`);
+                }
+            }
+        };
+        input.click();
+        setMenuOpen(false);
+    };
+
+    const handleExportSVG = async () => {
+        setMenuOpen(false);
+        const scene = findCanvasScene();
+        if (!scene) return;
+
+        try {
+            const svg = await withOffscreenRendered(() => exportToSVG(scene, elementOrder, exportToJSON()));
+            saveAs(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), 'canvas.svg');
+        } catch (err) {
+            alert(`Failed to export SVG: ${(err as Error).message}`);
         }
+    };
+
+    const handleExportPNG = () => {
+        setPngDialogOpen(true);
+        setMenuOpen(false);
+    };
+
+    // Boards are kept, so starting a new one needs no confirmation
+    const handleNew = () => {
+        createBoard().catch((e) => console.error('Failed to create board:', e));
         setMenuOpen(false);
     };
 
@@ -107,7 +234,7 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                             onClick={handleNew}
                         >
                             <FileJson size={16} />
-                            New Canvas
+                            New Board
                         </button>
                         <div className="h-px bg-gray-200 dark:bg-gray-700 my-1" />
                         <button
@@ -117,6 +244,20 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                             <Upload size={16} />
                             Import JSON
                         </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleImportDrawio}
+                        >
+                            <Upload size={16} />
+                            Import Draw.io
+                        </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleImportExcalidraw}
+                        >
+                            <Upload size={16} />
+                            Import Excalidraw
+                        </button>
                         <button
                             className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
                             onClick={handleExportJSON}
@@ -124,6 +265,41 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                             <Download size={16} />
                             Export JSON
                         </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleExportMermaid}
+                        >
+                            <FileCode size={16} />
+                            Export Mermaid
+                        </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleExportPlantUML}
+                        >
+                            <FileCode size={16} />
+                            Export PlantUML
+                        </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleExportDrawio}
+                        >
+                            <FileCode size={16} />
+                            Export Draw.io
+                        </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleExportExcalidraw}
+                        >
+                            <FileCode size={16} />
+                            Export Excalidraw
+                        </button>
+                        <button
+                            className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            onClick={handleExportSVG}
+                        >
+                            <Image size={16} />
+                            Export SVG
+                        </button>
                         <button
                             className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
                             onClick={handleExportPNG}
@@ -135,11 +311,33 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                 )}
             </div>
 
+            {/* Boards */}
+            <BoardSwitcher />
+
             {/* Spacer */}
             <div className="flex-1" />
 
             {/* Right actions */}
             <div className="flex items-center gap-2">
+                {collaboration && <Collaborators />}
+                <SyncStatus />
+
+                <button
+                    className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${collaboration ? 'text-indigo-500' : 'text-gray-600 dark:text-gray-300'}`}
+                    onClick={handleToggleCollaboration}
+                    title={collaboration ? 'Stop sharing this board' : 'Share this board'}
+                >
+                    <Users size={20} />
+                </button>
+
+                <button
+                    className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${historyOpen ? 'text-indigo-500' : 'text-gray-600 dark:text-gray-300'}`}
+                    onClick={onToggleHistory}
+                    title="History"
+                >
+                    <History size={20} />
+                </button>
+
                 <button
                     className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${roughStyle ? 'text-indigo-500' : 'text-gray-600 dark:text-gray-300'}`}
                     onClick={toggleRoughStyle}
@@ -148,6 +346,14 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                     {roughStyle ? <Pencil size={20} /> : <Square size={20} />}
                 </button>
 
+                <button
+                    className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${renderer === 'canvas' ? 'text-indigo-500' : 'text-gray-600 dark:text-gray-300'}`}
+                    onClick={() => setRenderer(renderer === 'canvas' ? 'svg' : 'canvas')}
+                    title={renderer === 'canvas' ? 'Switch this board to SVG rendering' : 'Switch this board to canvas rendering (faster for large boards)'}
+                >
+                    <Gauge size={20} />
+                </button>
+
                 <button
                     className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
                     onClick={onToggleDarkMode}
@@ -173,6 +379,9 @@ export const Header = memo(function Header({ darkMode, onToggleDarkMode }: Heade
                     <Github size={20} />
                 </a>
             </div>
+
+            {/* PNG export options */}
+            {pngDialogOpen && <PngExportDialog onClose={() => setPngDialogOpen(false)} />}
         </header>
     );
 });
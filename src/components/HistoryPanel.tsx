@@ -0,0 +1,173 @@
+/**
+ * WB Canvas - History Panel
+ *
+ * Every undo step of the board, including branches left behind by editing
+ * after an undo. Clicking an entry jumps to the board as it was right
+ * after it. Named checkpoints keep a copy of the board for good
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { Bookmark, GitBranch, RotateCcw, Trash2, X } from 'lucide-react';
+import { useCanvasStore } from '../store/canvas-store';
+import { HistoryCheckpoint } from '../types/canvas';
+import { describeHistoryEntry, getHistoryPath } from '../utils/history-tree';
+
+interface HistoryPanelProps {
+    onClose: () => void;
+}
+
+export const HistoryPanel = memo(function HistoryPanel({ onClose }: HistoryPanelProps) {
+    const history = useCanvasStore((s) => s.history);
+    const historyHead = useCanvasStore((s) => s.historyHead);
+    const historyTip = useCanvasStore((s) => s.historyTip);
+    const checkpoints = useCanvasStore((s) => s.checkpoints);
+    const jumpToHistory = useCanvasStore((s) => s.jumpToHistory);
+    const createCheckpoint = useCanvasStore((s) => s.createCheckpoint);
+
+    const [checkpointName, setCheckpointName] = useState('');
+
+    // Entries up to the head are done, the rest of the branch can be redone
+    const { done, redoable } = useMemo(() => {
+        const branch = getHistoryPath(history, historyTip).map((e) => e.id);
+        const headIndex = branch.indexOf(historyHead ?? '');
+        return {
+            done: new Set(branch.slice(0, headIndex + 1)),
+            redoable: new Set(branch.slice(headIndex + 1)),
+        };
+    }, [history, historyHead, historyTip]);
+
+    const handleCreateCheckpoint = () => {
+        const name = checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`;
+        createCheckpoint(name);
+        setCheckpointName('');
+    };
+
+    return (
+        <div className="panel panel-left flex flex-col">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">History</h3>
+                <button
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    onClick={onClose}
+                    title="Close"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+
+            {/* Checkpoints */}
+            <div className="flex gap-1 mb-2">
+                <input
+                    value={checkpointName}
+                    placeholder="Checkpoint name"
+                    className="flex-1 min-w-0 h-8 px-2 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-slate-900 text-gray-900 dark:text-white outline-none focus:border-indigo-400"
+                    onChange={(e) => setCheckpointName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreateCheckpoint()}
+                />
+                <button
+                    className="flex items-center gap-1 h-8 px-2 rounded border text-xs border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                    onClick={handleCreateCheckpoint}
+                    title="Save the board as it is now"
+                >
+                    <Bookmark size={14} />
+                    Save
+                </button>
+            </div>
+            {checkpoints.length > 0 && (
+                <div className="mb-3 space-y-0.5">
+                    {checkpoints.map((checkpoint) => (
+                        <CheckpointRow key={checkpoint.id} checkpoint={checkpoint} />
+                    ))}
+                </div>
+            )}
+
+            <div className="h-px bg-gray-200 dark:bg-gray-700 mb-2" />
+
+            {/* Entries, oldest first */}
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-0.5">
+                <HistoryRow
+                    label="Start"
+                    active={historyHead === null}
+                    state="done"
+                    onClick={() => jumpToHistory(null)}
+                />
+                {history.map((entry) => (
+                    <HistoryRow
+                        key={entry.id}
+                        label={describeHistoryEntry(entry)}
+                        timestamp={entry.timestamp}
+                        active={entry.id === historyHead}
+                        state={done.has(entry.id) ? 'done' : redoable.has(entry.id) ? 'redoable' : 'branch'}
+                        onClick={() => jumpToHistory(entry.id)}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+});
+
+// =============================================================================
+// History Row
+// =============================================================================
+
+interface HistoryRowProps {
+    label: string;
+    timestamp?: number;
+    active: boolean;
+    state: 'done' | 'redoable' | 'branch'; // 'branch' is off the current branch
+    onClick: () => void;
+}
+
+function HistoryRow({ label, timestamp, active, state, onClick }: HistoryRowProps) {
+    return (
+        <button
+            className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs ${active
+                ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200'
+            } ${state === 'done' ? '' : 'opacity-50'}`}
+            onClick={onClick}
+            title={state === 'branch' ? 'On another branch' : undefined}
+        >
+            {state === 'branch' && <GitBranch size={12} className="shrink-0" />}
+            <span className="flex-1 truncate">{label}</span>
+            {timestamp !== undefined && (
+                <span className="shrink-0 text-gray-400">{new Date(timestamp).toLocaleTimeString()}</span>
+            )}
+        </button>
+    );
+}
+
+// =============================================================================
+// Checkpoint Row
+// =============================================================================
+
+const CheckpointRow = memo(function CheckpointRow({ checkpoint }: { checkpoint: HistoryCheckpoint }) {
+    const restoreCheckpoint = useCanvasStore((s) => s.restoreCheckpoint);
+    const deleteCheckpoint = useCanvasStore((s) => s.deleteCheckpoint);
+
+    return (
+        <div className="group flex items-center gap-2 px-2 py-1 rounded text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700">
+            <Bookmark size={12} className="shrink-0 text-indigo-500" />
+            <span className="flex-1 truncate">{checkpoint.name}</span>
+            <span className="shrink-0 text-gray-400 group-hover:hidden">
+                {new Date(checkpoint.timestamp).toLocaleTimeString()}
+            </span>
+            <div className="hidden group-hover:flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                <button
+                    className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title="Restore"
+                    onClick={() => restoreCheckpoint(checkpoint.id)}
+                >
+                    <RotateCcw size={12} />
+                </button>
+                <button
+                    className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-red-500"
+                    title="Delete"
+                    onClick={() => deleteCheckpoint(checkpoint.id)}
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+        </div>
+    );
+});
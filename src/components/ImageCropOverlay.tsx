@@ -0,0 +1,92 @@
+/**
+ * WB Canvas - Image Crop Overlay
+ *
+ * Crop mode for an image: the uncropped image is shown faded behind the
+ * crop box, whose handles move the crop edges
+ */
+
+import { memo } from 'react';
+import { ImageElement, ResizeHandle, Transform } from '../types/canvas';
+import { getImageSource, getUncroppedBounds } from '../utils/images';
+
+interface ImageCropOverlayProps {
+    element: ImageElement;
+    transform: Transform;
+    onHandleMouseDown: (handle: ResizeHandle, e: React.MouseEvent) => void;
+}
+
+const HANDLE_SIZE = 10;
+
+const HANDLES: { handle: ResizeHandle; x: number; y: number; cursor: string }[] = [
+    { handle: 'nw', x: 0, y: 0, cursor: 'nwse-resize' },
+    { handle: 'n', x: 0.5, y: 0, cursor: 'ns-resize' },
+    { handle: 'ne', x: 1, y: 0, cursor: 'nesw-resize' },
+    { handle: 'e', x: 1, y: 0.5, cursor: 'ew-resize' },
+    { handle: 'se', x: 1, y: 1, cursor: 'nwse-resize' },
+    { handle: 's', x: 0.5, y: 1, cursor: 'ns-resize' },
+    { handle: 'sw', x: 0, y: 1, cursor: 'nesw-resize' },
+    { handle: 'w', x: 0, y: 0.5, cursor: 'ew-resize' },
+];
+
+export const ImageCropOverlay = memo(function ImageCropOverlay({ element, transform, onHandleMouseDown }: ImageCropOverlayProps) {
+    const src = getImageSource(element);
+    const full = getUncroppedBounds(element);
+
+    const toScreen = (x: number, y: number, width: number, height: number) => ({
+        left: x * transform.scale + transform.x,
+        top: y * transform.scale + transform.y,
+        width: width * transform.scale,
+        height: height * transform.scale,
+    });
+    const box = toScreen(element.x, element.y, element.width, element.height);
+
+    // Everything turns with the image around its center
+    const rotation = element.rotation
+        ? {
+            transform: `rotate(${element.rotation}deg)`,
+            transformOrigin: `${box.left + box.width / 2}px ${box.top + box.height / 2}px`,
+        }
+        : undefined;
+
+    return (
+        <div className="pointer-events-none absolute inset-0" style={rotation}>
+            {/* Parts cropped away */}
+            {src && (
+                <img
+                    src={src}
+                    alt=""
+                    draggable={false}
+                    className="absolute max-w-none opacity-30"
+                    style={toScreen(full.x, full.y, full.width, full.height)}
+                />
+            )}
+
+            <div className="absolute border-2 border-dashed border-indigo-500" style={box} />
+
+            {HANDLES.map(({ handle, x, y, cursor }) => (
+                <div
+                    key={handle}
+                    className="resize-handle pointer-events-auto"
+                    style={{
+                        left: box.left + box.width * x - HANDLE_SIZE / 2,
+                        top: box.top + box.height * y - HANDLE_SIZE / 2,
+                        width: HANDLE_SIZE,
+                        height: HANDLE_SIZE,
+                        cursor,
+                    }}
+                    onMouseDown={(e) => {
+                        e.stopPropagation();
+                        onHandleMouseDown(handle, e);
+                    }}
+                />
+            ))}
+
+            <div
+                className="absolute text-xs text-indigo-600 font-medium"
+                style={{ left: box.left, top: box.top - 24 }}
+            >
+                Cropping - Enter to finish
+            </div>
+        </div>
+    );
+});
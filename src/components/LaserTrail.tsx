@@ -0,0 +1,79 @@
+/**
+ * WB Canvas - Laser Trail
+ *
+ * Fading trail of the laser pointer, drawn in screen space over the
+ * canvas. Points are recorded by the canvas into `strokes`; each one fades
+ * out on its own, so the trail shrinks from its tail. Nothing here touches
+ * the board or its history
+ */
+
+import { memo, useEffect, useState, MutableRefObject } from 'react';
+import { Point, Transform } from '../types/canvas';
+
+export const LASER_FADE_DURATION = 1000; // ms
+const LASER_WIDTH = 6; // screen pixels
+const LASER_COLOR = '#ef4444';
+
+export interface LaserPoint extends Point {
+    time: number;
+}
+
+interface LaserTrailProps {
+    strokes: MutableRefObject<LaserPoint[][]>;
+    transform: Transform;
+}
+
+export const LaserTrail = memo(function LaserTrail({ strokes, transform }: LaserTrailProps) {
+    const [now, setNow] = useState(() => performance.now());
+
+    useEffect(() => {
+        let frame = 0;
+        let visible = false;
+
+        const tick = () => {
+            const time = performance.now();
+            // Forget faded points; the last stroke may still be drawn into
+            strokes.current = strokes.current
+                .map((stroke) => stroke.filter((p) => time - p.time < LASER_FADE_DURATION))
+                .filter((stroke, i, all) => stroke.length > 0 || i === all.length - 1);
+
+            // Only re-render while there is something to fade
+            const hasPoints = strokes.current.some((stroke) => stroke.length > 0);
+            if (hasPoints || visible) setNow(time);
+            visible = hasPoints;
+
+            frame = requestAnimationFrame(tick);
+        };
+
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [strokes]);
+
+    const toScreen = (p: Point) => ({
+        x: p.x * transform.scale + transform.x,
+        y: p.y * transform.scale + transform.y,
+    });
+
+    return (
+        <svg className="pointer-events-none absolute inset-0 w-full h-full">
+            {strokes.current.map((stroke, i) => stroke.slice(1).map((point, j) => {
+                const from = toScreen(stroke[j]);
+                const to = toScreen(point);
+                const life = Math.max(0, 1 - (now - point.time) / LASER_FADE_DURATION);
+                return (
+                    <line
+                        key={`${i}-${j}`}
+                        x1={from.x}
+                        y1={from.y}
+                        x2={to.x}
+                        y2={to.y}
+                        stroke={LASER_COLOR}
+                        strokeWidth={LASER_WIDTH * (0.4 + 0.6 * life)}
+                        strokeOpacity={life}
+                        strokeLinecap="round"
+                    />
+                );
+            }))}
+        </svg>
+    );
+});
@@ -0,0 +1,205 @@
+/**
+ * WB Canvas - PNG Export Dialog
+ *
+ * Options for rasterizing the board, the current selection, or each
+ * frame as its own image
+ */
+
+import { memo, useState } from 'react';
+import { X } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { useCanvasStore, selectElementOrder, selectOrderedElements, selectSelectedIds, withOffscreenRendered } from '../store/canvas-store';
+import { FrameElement } from '../types/canvas';
+import { findCanvasScene } from '../utils/scene-svg';
+import {
+    exportToPNG,
+    PngExportOptions,
+    PngExportScope,
+    PngScale,
+    DEFAULT_PNG_EXPORT_OPTIONS,
+} from '../utils/png-export';
+
+const SCALES: PngScale[] = [1, 2, 4];
+
+const SCOPES: { scope: PngExportScope; label: string }[] = [
+    { scope: 'board', label: 'Board' },
+    { scope: 'selection', label: 'Selection' },
+    { scope: 'frames', label: 'Each frame' },
+];
+
+interface PngExportDialogProps {
+    onClose: () => void;
+}
+
+export const PngExportDialog = memo(function PngExportDialog({ onClose }: PngExportDialogProps) {
+    const elementOrder = useCanvasStore(selectElementOrder);
+    const selectedIds = useCanvasStore(selectSelectedIds);
+    const frames = useCanvasStore(selectOrderedElements)
+        .filter((el): el is FrameElement => el.type === 'frame');
+
+    const [options, setOptions] = useState<PngExportOptions>(() => ({
+        ...DEFAULT_PNG_EXPORT_OPTIONS,
+        scope: selectedIds.length > 0 ? 'selection' : 'board',
+    }));
+    const [exporting, setExporting] = useState(false);
+
+    const update = (updates: Partial<PngExportOptions>) => {
+        setOptions((prev) => ({ ...prev, ...updates }));
+    };
+
+    const handleExport = async () => {
+        const scene = findCanvasScene();
+        if (!scene) return;
+
+        setExporting(true);
+        try {
+            // Off-screen elements are only drawn on request
+            await withOffscreenRendered(async () => {
+                if (options.scope === 'frames') {
+                    // Numbered in paint order so the files sort like slides
+                    for (const [i, frame] of frames.entries()) {
+                        const blob = await exportToPNG(scene, [frame.id], {
+                            ...options,
+                            padding: 0,
+                            crop: { x: frame.x, y: frame.y, width: frame.width, height: frame.height },
+                        });
+                        saveAs(blob, `${String(i + 1).padStart(2, '0')} - ${toFileName(frame.name)}.png`);
+                    }
+                } else {
+                    const selected = new Set(selectedIds);
+                    const ids = options.scope === 'selection'
+                        ? elementOrder.filter((id) => selected.has(id))
+                        : elementOrder;
+                    const blob = await exportToPNG(scene, ids, options);
+                    saveAs(blob, options.scope === 'selection' ? 'selection.png' : 'canvas.png');
+                }
+            });
+            onClose();
+        } catch (err) {
+            alert(`Failed to export PNG: ${(err as Error).message}`);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const optionButton = (active: boolean) =>
+        `flex-1 px-2 py-1 rounded text-xs ${active
+            ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200'
+            : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30" onClick={onClose}>
+            <div
+                className="w-80 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-4 animate-slide-in"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Title */}
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Export PNG</h2>
+                    <button
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                        onClick={onClose}
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+
+                {/* Scope */}
+                <div className="mb-3">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Export</label>
+                    <div className="flex gap-1">
+                        {SCOPES.map(({ scope, label }) => (
+                            <button
+                                key={scope}
+                                className={`${optionButton(options.scope === scope)} disabled:opacity-40 disabled:pointer-events-none`}
+                                disabled={
+                                    (scope === 'selection' && selectedIds.length === 0) ||
+                                    (scope === 'frames' && frames.length === 0)
+                                }
+                                onClick={() => update({ scope })}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Scale */}
+                <div className="mb-3">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Scale</label>
+                    <div className="flex gap-1">
+                        {SCALES.map((scale) => (
+                            <button
+                                key={scale}
+                                className={optionButton(options.scale === scale)}
+                                onClick={() => update({ scale })}
+                            >
+                                {scale}x
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Background */}
+                <div className="mb-3">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">Background</label>
+                    <div className="flex gap-1">
+                        <button
+                            className={optionButton(options.background === 'theme')}
+                            onClick={() => update({ background: 'theme' })}
+                        >
+                            Theme
+                        </button>
+                        <button
+                            className={optionButton(options.background === 'transparent')}
+                            onClick={() => update({ background: 'transparent' })}
+                        >
+                            Transparent
+                        </button>
+                    </div>
+                </div>
+
+                {/* Padding */}
+                <div className="mb-3">
+                    <label className="text-xs text-gray-500 dark:text-gray-400 mb-1 block">
+                        Padding: {options.scope === 'frames' ? 'none (cropped to frame)' : `${options.padding}px`}
+                    </label>
+                    <input
+                        type="range"
+                        min={0}
+                        max={128}
+                        step={8}
+                        disabled={options.scope === 'frames'}
+                        value={options.padding}
+                        onChange={(e) => update({ padding: Number(e.target.value) })}
+                        className="w-full"
+                    />
+                </div>
+
+                {/* Toggles */}
+                <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-200">
+                    <input
+                        type="checkbox"
+                        checked={options.embedFonts}
+                        onChange={(e) => update({ embedFonts: e.target.checked })}
+                    />
+                    Embed fonts
+                </label>
+
+                <button
+                    className="w-full px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm"
+                    disabled={exporting || elementOrder.length === 0}
+                    onClick={handleExport}
+                >
+                    {exporting ? 'Exporting…' : 'Export'}
+                </button>
+            </div>
+        </div>
+    );
+});
+
+// Frame names may contain characters file systems reject
+function toFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'Frame';
+}
@@ -0,0 +1,71 @@
+/**
+ * WB Canvas - Presence Overlay
+ *
+ * Collaborators' cursors, named and in their colors, drawn in screen
+ * space over the canvas. While following someone, the view is framed in
+ * their color
+ */
+
+import { memo } from 'react';
+import { useCanvasStore } from '../store/canvas-store';
+import { Presence, Transform } from '../types/canvas';
+
+interface PresenceOverlayProps {
+    transform: Transform;
+}
+
+export const PresenceOverlay = memo(function PresenceOverlay({ transform }: PresenceOverlayProps) {
+    const collaborators = useCanvasStore((s) => s.collaborators);
+    const followingId = useCanvasStore((s) => s.followingId);
+    const followCollaborator = useCanvasStore((s) => s.followCollaborator);
+    const followed = followingId ? collaborators[followingId] : undefined;
+
+    return (
+        <div className="pointer-events-none absolute inset-0 overflow-hidden">
+            {Object.values(collaborators).map((presence) => presence.cursor && (
+                <Cursor key={presence.clientId} presence={presence} transform={transform} />
+            ))}
+
+            {followed && (
+                <div className="absolute inset-0 border-4" style={{ borderColor: followed.color }}>
+                    <button
+                        className="pointer-events-auto absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full text-xs text-white shadow"
+                        style={{ background: followed.color }}
+                        onClick={() => followCollaborator(null)}
+                        title="Stop following"
+                    >
+                        Following {followed.name}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+});
+
+// =============================================================================
+// Cursor
+// =============================================================================
+
+function Cursor({ presence, transform }: { presence: Presence; transform: Transform }) {
+    const { cursor, color, name } = presence;
+    if (!cursor) return null;
+
+    return (
+        <div
+            className="absolute transition-transform duration-75 ease-linear"
+            style={{
+                transform: `translate(${cursor.x * transform.scale + transform.x}px, ${cursor.y * transform.scale + transform.y}px)`,
+            }}
+        >
+            <svg width="18" height="18" viewBox="0 0 18 18" className="drop-shadow">
+                <path d="M1 1 L1 15 L5 11 L8 17 L10.5 16 L7.5 10 L13 10 Z" fill={color} stroke="white" strokeWidth="1.5" strokeLinejoin="round" />
+            </svg>
+            <div
+                className="absolute left-4 top-4 px-1.5 rounded text-[11px] leading-5 text-white whitespace-nowrap shadow"
+                style={{ background: color }}
+            >
+                {name}
+            </div>
+        </div>
+    );
+}
@@ -1,12 +1,14 @@
 /**
  * WB Canvas - Selection Overlay
  * 
- * Renders selection bounds and resize handles
+ * Renders selection bounds and resize handles, and the selections of
+ * collaborators on a shared board
  */
 
 import { memo, useCallback } from 'react';
 import { useCanvasStore, selectSelectedElements } from '../store/canvas-store';
-import { Transform, Bounds, ResizeHandle } from '../types/canvas';
+import { Transform, Bounds, ResizeHandle, CanvasElement, Presence } from '../types/canvas';
+import { getElementBounds, getRotation, getUnrotatedBounds } from '../utils/geometry';
 
 interface SelectionOverlayProps {
     transform: Transform;
@@ -21,118 +23,70 @@ export const SelectionOverlay = memo(function SelectionOverlay({ transform }: Se
         setResizing(true, handle);
     }, [setResizing]);
 
-    if (selectedElements.length === 0) return null;
-
-    // Calculate combined bounds
-    const bounds = getSelectionBounds(selectedElements);
-    if (!bounds) return null;
-
-    // Transform bounds to screen coordinates
-    const screenBounds = {
-        x: bounds.x * transform.scale + transform.x,
-        y: bounds.y * transform.scale + transform.y,
-        width: bounds.width * transform.scale,
-        height: bounds.height * transform.scale,
-    };
+    const frame = getSelectionFrame(selectedElements, transform);
+    if (!frame) return null;
+    const { single, screenBounds, rotation } = frame;
 
     const handleSize = 10;
     const rotationHandleOffset = 30;
+    const { width, height } = screenBounds;
+
+    // Connectors are shaped by their ends and waypoints; frames hold
+    // their children upright
+    const showHandles = single && !single.locked && single.type !== 'connector';
+    const showRotation = showHandles && single.type !== 'frame';
 
     return (
         <div className="pointer-events-none absolute inset-0">
-            {/* Selection border */}
             <div
-                className="absolute border-2 border-indigo-500"
+                className="absolute"
                 style={{
                     left: screenBounds.x,
                     top: screenBounds.y,
-                    width: screenBounds.width,
-                    height: screenBounds.height,
+                    width,
+                    height,
+                    transform: rotation ? `rotate(${rotation}deg)` : undefined,
                 }}
-            />
+            >
+                {/* Selection border */}
+                <div className="absolute inset-0 border-2 border-indigo-500" />
 
-            {/* Resize handles */}
-            {selectedElements.length === 1 && !selectedElements[0].locked && (
-                <>
-                    {/* Corner handles */}
-                    <Handle
-                        position="nw"
-                        x={screenBounds.x - handleSize / 2}
-                        y={screenBounds.y - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('nw')}
-                    />
+                {/* Corner and edge handles */}
+                {showHandles && HANDLES.map(({ handle, x, y }) => (
                     <Handle
-                        position="ne"
-                        x={screenBounds.x + screenBounds.width - handleSize / 2}
-                        y={screenBounds.y - handleSize / 2}
+                        key={handle}
+                        position={handle}
+                        x={width * x - handleSize / 2}
+                        y={height * y - handleSize / 2}
                         size={handleSize}
-                        onMouseDown={handleMouseDown('ne')}
-                    />
-                    <Handle
-                        position="sw"
-                        x={screenBounds.x - handleSize / 2}
-                        y={screenBounds.y + screenBounds.height - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('sw')}
-                    />
-                    <Handle
-                        position="se"
-                        x={screenBounds.x + screenBounds.width - handleSize / 2}
-                        y={screenBounds.y + screenBounds.height - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('se')}
+                        rotation={rotation}
+                        onMouseDown={handleMouseDown(handle)}
                     />
+                ))}
 
-                    {/* Edge handles */}
-                    <Handle
-                        position="n"
-                        x={screenBounds.x + screenBounds.width / 2 - handleSize / 2}
-                        y={screenBounds.y - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('n')}
-                    />
-                    <Handle
-                        position="s"
-                        x={screenBounds.x + screenBounds.width / 2 - handleSize / 2}
-                        y={screenBounds.y + screenBounds.height - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('s')}
-                    />
-                    <Handle
-                        position="w"
-                        x={screenBounds.x - handleSize / 2}
-                        y={screenBounds.y + screenBounds.height / 2 - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('w')}
-                    />
-                    <Handle
-                        position="e"
-                        x={screenBounds.x + screenBounds.width - handleSize / 2}
-                        y={screenBounds.y + screenBounds.height / 2 - handleSize / 2}
-                        size={handleSize}
-                        onMouseDown={handleMouseDown('e')}
-                    />
-
-                    {/* Rotation handle */}
-                    <div
-                        className="absolute w-px bg-indigo-500"
-                        style={{
-                            left: screenBounds.x + screenBounds.width / 2,
-                            top: screenBounds.y - rotationHandleOffset,
-                            height: rotationHandleOffset,
-                        }}
-                    />
-                    <div
-                        className="rotation-handle pointer-events-auto"
-                        style={{
-                            left: screenBounds.x + screenBounds.width / 2 - 6,
-                            top: screenBounds.y - rotationHandleOffset - 6,
-                        }}
-                        onMouseDown={handleMouseDown('rotation')}
-                    />
-                </>
-            )}
+                {showRotation && (
+                    <>
+                        {/* Rotation handle */}
+                        <div
+                            className="absolute w-px bg-indigo-500"
+                            style={{
+                                left: width / 2,
+                                top: -rotationHandleOffset,
+                                height: rotationHandleOffset,
+                            }}
+                        />
+                        <div
+                            className="rotation-handle pointer-events-auto"
+                            style={{
+                                left: width / 2 - 6,
+                                top: -rotationHandleOffset - 6,
+                            }}
+                            title="Rotate (Shift snaps to 15°)"
+                            onMouseDown={handleMouseDown('rotation')}
+                        />
+                    </>
+                )}
+            </div>
 
             {/* Multi-selection info */}
             {selectedElements.length > 1 && (
@@ -150,36 +104,98 @@ export const SelectionOverlay = memo(function SelectionOverlay({ transform }: Se
     );
 });
 
+// =============================================================================
+// Collaborator Selections
+// =============================================================================
+
+// The same box, in each collaborator's color and labeled with their name
+export const CollaboratorSelections = memo(function CollaboratorSelections({ transform }: SelectionOverlayProps) {
+    const collaborators = useCanvasStore((s) => s.collaborators);
+    const elements = useCanvasStore((s) => s.elements);
+
+    return (
+        <div className="pointer-events-none absolute inset-0">
+            {Object.values(collaborators).map((presence) => (
+                <CollaboratorSelection
+                    key={presence.clientId}
+                    presence={presence}
+                    elements={presence.selectedIds.map((id) => elements[id]).filter(Boolean)}
+                    transform={transform}
+                />
+            ))}
+        </div>
+    );
+});
+
+interface CollaboratorSelectionProps {
+    presence: Presence;
+    elements: CanvasElement[];
+    transform: Transform;
+}
+
+function CollaboratorSelection({ presence, elements, transform }: CollaboratorSelectionProps) {
+    const frame = getSelectionFrame(elements, transform);
+    if (!frame) return null;
+    const { screenBounds, rotation } = frame;
+
+    return (
+        <div
+            className="absolute"
+            style={{
+                left: screenBounds.x,
+                top: screenBounds.y,
+                width: screenBounds.width,
+                height: screenBounds.height,
+                transform: rotation ? `rotate(${rotation}deg)` : undefined,
+            }}
+        >
+            <div className="absolute inset-0 border-2" style={{ borderColor: presence.color }} />
+            <div
+                className="absolute left-0 -top-5 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+                style={{ background: presence.color }}
+            >
+                {presence.name}
+            </div>
+        </div>
+    );
+}
+
 // =============================================================================
 // Handle Component
 // =============================================================================
 
+// Handle positions as fractions of the selection box
+const HANDLES: { handle: ResizeHandle; x: number; y: number }[] = [
+    { handle: 'nw', x: 0, y: 0 },
+    { handle: 'ne', x: 1, y: 0 },
+    { handle: 'sw', x: 0, y: 1 },
+    { handle: 'se', x: 1, y: 1 },
+    { handle: 'n', x: 0.5, y: 0 },
+    { handle: 's', x: 0.5, y: 1 },
+    { handle: 'w', x: 0, y: 0.5 },
+    { handle: 'e', x: 1, y: 0.5 },
+];
+
+// Clockwise from north; cursors repeat every 180°
+const HANDLE_DIRECTIONS: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+const DIRECTION_CURSORS = ['ns-resize', 'nesw-resize', 'ew-resize', 'nwse-resize'];
+
 interface HandleProps {
     position: ResizeHandle;
     x: number;
     y: number;
     size: number;
+    rotation: number;
     onMouseDown: (e: React.MouseEvent) => void;
 }
 
-function Handle({ position, x, y, size, onMouseDown }: HandleProps) {
+function Handle({ position, x, y, size, rotation, onMouseDown }: HandleProps) {
+    // Point the cursor the way the handle faces on screen
     const getCursor = () => {
-        switch (position) {
-            case 'nw':
-            case 'se':
-                return 'nwse-resize';
-            case 'ne':
-            case 'sw':
-                return 'nesw-resize';
-            case 'n':
-            case 's':
-                return 'ns-resize';
-            case 'e':
-            case 'w':
-                return 'ew-resize';
-            default:
-                return 'pointer';
-        }
+        const index = HANDLE_DIRECTIONS.indexOf(position);
+        if (index < 0) return 'pointer';
+        const steps = Math.round(rotation / 45);
+        return DIRECTION_CURSORS[(((index + steps) % 4) + 4) % 4];
     };
 
     return (
@@ -201,17 +217,37 @@ function Handle({ position, x, y, size, onMouseDown }: HandleProps) {
 // Helper Functions
 // =============================================================================
 
-function getSelectionBounds(elements: { x: number; y: number; width: number; height: number }[]): Bounds | null {
+// Screen box around a selection. A single element is framed in its own
+// rotated box
+function getSelectionFrame(elements: CanvasElement[], transform: Transform) {
+    const single = elements.length === 1 ? elements[0] : null;
+    const bounds = single ? getUnrotatedBounds(single) : getSelectionBounds(elements);
+    if (!bounds) return null;
+
+    return {
+        single,
+        screenBounds: {
+            x: bounds.x * transform.scale + transform.x,
+            y: bounds.y * transform.scale + transform.y,
+            width: bounds.width * transform.scale,
+            height: bounds.height * transform.scale,
+        },
+        rotation: single ? getRotation(single) : 0,
+    };
+}
+
+function getSelectionBounds(elements: CanvasElement[]): Bounds | null {
     if (elements.length === 0) return null;
 
     let minX = Infinity, minY = Infinity;
     let maxX = -Infinity, maxY = -Infinity;
 
     elements.forEach((el) => {
-        minX = Math.min(minX, el.x);
-        minY = Math.min(minY, el.y);
-        maxX = Math.max(maxX, el.x + el.width);
-        maxY = Math.max(maxY, el.y + el.height);
+        const bounds = getElementBounds(el);
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
     });
 
     return {
@@ -7,7 +7,9 @@
 import { memo, useState } from 'react';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useCanvasStore, selectSelectedElements } from '../store/canvas-store';
-import { StrokeStyle, FillStyle, StickyColor, STICKY_COLORS } from '../types/canvas';
+import { StrokeStyle, FillStyle, StickyColor, STICKY_COLORS, ConnectorElement, CanvasElement, createSeed } from '../types/canvas';
+import { getUncroppedBounds } from '../utils/images';
+import { DEFAULT_BOWING, DEFAULT_ROUGHNESS } from '../utils/element-paint';
 
 const COLORS = [
     '#1e1e1e', '#374151', '#6b7280', '#9ca3af',
@@ -18,6 +20,23 @@ const COLORS = [
 
 const STROKE_WIDTHS = [1, 2, 3, 4, 6, 8];
 
+const ROUTE_TYPES: ConnectorElement['routeType'][] = ['elbow', 'straight', 'curved'];
+
+const ROUGHNESS_LEVELS = [
+    { label: 'Clean', value: 0 },
+    { label: 'Sketchy', value: DEFAULT_ROUGHNESS },
+    { label: 'Rough', value: 3 },
+];
+
+const BOWING_LEVELS = [
+    { label: 'Straight', value: 0 },
+    { label: 'Bent', value: DEFAULT_BOWING },
+    { label: 'Curvy', value: 4 },
+];
+
+// Elements drawn through rough.js with the user's stroke
+const SKETCHED_TYPES: CanvasElement['type'][] = ['rectangle', 'ellipse', 'diamond', 'triangle', 'line', 'arrow', 'connector'];
+
 export const StylePanel = memo(function StylePanel() {
     const selectedElements = useCanvasStore(selectSelectedElements);
     const currentStroke = useCanvasStore((s) => s.currentStroke);
@@ -25,6 +44,7 @@ export const StylePanel = memo(function StylePanel() {
     const setStroke = useCanvasStore((s) => s.setStroke);
     const setFill = useCanvasStore((s) => s.setFill);
     const updateElement = useCanvasStore((s) => s.updateElement);
+    const transact = useCanvasStore((s) => s.transact);
 
     const [expandedSections, setExpandedSections] = useState({
         stroke: true,
@@ -48,22 +68,29 @@ export const StylePanel = memo(function StylePanel() {
     // Update handlers
     const handleStrokeChange = (updates: Partial<StrokeStyle>) => {
         setStroke(updates);
-        selectedElements.forEach((el) => {
+        transact('Change stroke', () => selectedElements.forEach((el) => {
             if ('stroke' in el) {
                 updateElement(el.id, { stroke: { ...el.stroke, ...updates } } as Partial<typeof el>);
             }
-        });
+        }));
     };
 
     const handleFillChange = (updates: Partial<FillStyle>) => {
         setFill(updates);
-        selectedElements.forEach((el) => {
+        transact('Change fill', () => selectedElements.forEach((el) => {
             if ('fill' in el) {
                 updateElement(el.id, { fill: { ...el.fill, ...updates } } as Partial<typeof el>);
             }
-        });
+        }));
     };
 
+    const sketched = selectedElements.filter((el) => SKETCHED_TYPES.includes(el.type));
+
+    const levelButtonClass = (active: boolean) => `flex-1 h-8 rounded border text-xs ${active
+        ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600'
+        : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-600'
+        }`;
+
     return (
         <div className="panel panel-right">
             <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-4">
@@ -192,6 +219,105 @@ export const StylePanel = memo(function StylePanel() {
                 </div>
             </Section>
 
+            {/* Connector route (when connector selected) */}
+            {selectedElements.some((el) => el.type === 'connector') && (
+                <Section
+                    title="Route"
+                    expanded={true}
+                    onToggle={() => { }}
+                >
+                    <div className="flex gap-1">
+                        {ROUTE_TYPES.map((routeType) => (
+                            <button
+                                key={routeType}
+                                className={`flex-1 h-8 rounded border text-xs capitalize ${selectedElements.every((el) => el.type !== 'connector' || el.routeType === routeType)
+                                        ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600'
+                                        : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-600'
+                                    }`}
+                                onClick={() => transact('Change route', () => selectedElements.forEach((el) => {
+                                    if (el.type === 'connector') {
+                                        updateElement(el.id, { routeType } as Partial<typeof el>);
+                                    }
+                                }))}
+                            >
+                                {routeType}
+                            </button>
+                        ))}
+                    </div>
+                </Section>
+            )}
+
+            {/* Hand-drawn look (when sketched elements selected) */}
+            {sketched.length > 0 && (
+                <Section
+                    title="Sketch"
+                    expanded={true}
+                    onToggle={() => { }}
+                >
+                    <div className="space-y-3">
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">Roughness</label>
+                            <div className="flex gap-1">
+                                {ROUGHNESS_LEVELS.map(({ label, value }) => (
+                                    <button
+                                        key={label}
+                                        className={levelButtonClass(sketched.every((el) => (el.roughness ?? DEFAULT_ROUGHNESS) === value))}
+                                        onClick={() => transact('Change roughness', () => sketched.forEach((el) => updateElement(el.id, { roughness: value })))}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="text-xs text-gray-500 mb-1 block">Bowing</label>
+                            <div className="flex gap-1">
+                                {BOWING_LEVELS.map(({ label, value }) => (
+                                    <button
+                                        key={label}
+                                        className={levelButtonClass(sketched.every((el) => (el.bowing ?? DEFAULT_BOWING) === value))}
+                                        onClick={() => transact('Change bowing', () => sketched.forEach((el) => updateElement(el.id, { bowing: value })))}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* A new seed draws the same shape with a different wobble */}
+                        <button
+                            className={levelButtonClass(false) + ' w-full'}
+                            onClick={() => transact('Redraw', () => sketched.forEach((el) => updateElement(el.id, { seed: createSeed() })))}
+                        >
+                            Redraw
+                        </button>
+                    </div>
+                </Section>
+            )}
+
+            {/* Image crop (when image selected) */}
+            {selectedElements.some((el) => el.type === 'image') && (
+                <Section
+                    title="Image"
+                    expanded={true}
+                    onToggle={() => { }}
+                >
+                    <p className="text-xs text-gray-500 mb-2">Double-click an image to crop it</p>
+                    <button
+                        className="w-full h-8 rounded border text-xs border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-600 disabled:opacity-50"
+                        disabled={!selectedElements.some((el) => el.type === 'image' && el.crop)}
+                        onClick={() => transact('Reset crop', () => selectedElements.forEach((el) => {
+                            if (el.type === 'image' && el.crop) {
+                                updateElement(el.id, { ...getUncroppedBounds(el), crop: undefined } as Partial<typeof el>);
+                            }
+                        }))}
+                    >
+                        Reset crop
+                    </button>
+                </Section>
+            )}
+
             {/* Sticky Colors (when sticky note selected) */}
             {selectedElements.some((el) => el.type === 'sticky') && (
                 <Section
@@ -205,13 +331,11 @@ export const StylePanel = memo(function StylePanel() {
                                 key={color}
                                 className="w-8 h-8 rounded-lg border-2 border-transparent hover:border-gray-300"
                                 style={{ backgroundColor: STICKY_COLORS[color] }}
-                                onClick={() => {
-                                    selectedElements.forEach((el) => {
-                                        if (el.type === 'sticky') {
-                                            updateElement(el.id, { color } as Partial<typeof el>);
-                                        }
-                                    });
-                                }}
+                                onClick={() => transact('Change sticky color', () => selectedElements.forEach((el) => {
+                                    if (el.type === 'sticky') {
+                                        updateElement(el.id, { color } as Partial<typeof el>);
+                                    }
+                                }))}
                             />
                         ))}
                     </div>
@@ -0,0 +1,61 @@
+/**
+ * WB Canvas - Sync Status
+ *
+ * Whether the shared board is in step with its room, and how many local
+ * changes are still waiting for the server. Offline changes are kept in
+ * the op log and sent once the connection is back
+ */
+
+import { memo } from 'react';
+import { Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useCanvasStore } from '../store/canvas-store';
+import { Collaboration } from '../types/canvas';
+
+export const SyncStatus = memo(function SyncStatus() {
+    const collaboration = useCanvasStore((s) => s.collaboration);
+    if (!collaboration) return null;
+
+    const { label, title, tone } = describe(collaboration);
+    const { status, pending } = collaboration;
+    const syncing = status === 'connecting' || (status === 'connected' && pending > 0);
+    const Icon = status === 'offline' ? CloudOff : syncing ? RefreshCw : Cloud;
+
+    return (
+        <div className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-xs whitespace-nowrap ${tone}`} title={title}>
+            <Icon size={14} className={syncing ? 'animate-spin' : undefined} />
+            {label}
+        </div>
+    );
+});
+
+function describe({ status, pending }: Collaboration): { label: string; title: string; tone: string } {
+    const changes = `${pending} ${pending === 1 ? 'change' : 'changes'}`;
+    switch (status) {
+        case 'offline':
+            return {
+                label: pending > 0 ? `Offline · ${pending}` : 'Offline',
+                title: pending > 0
+                    ? `Offline, reconnecting. ${changes} saved locally, sent once back online`
+                    : 'Offline, reconnecting. Changes are saved locally',
+                tone: 'bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-300',
+            };
+        case 'connecting':
+            return {
+                label: 'Connecting',
+                title: pending > 0 ? `Connecting... ${changes} saved locally` : 'Connecting...',
+                tone: 'bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-300',
+            };
+        case 'connected':
+            return pending > 0
+                ? {
+                    label: `Syncing ${pending}`,
+                    title: `Sending ${changes} to the server`,
+                    tone: 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-300',
+                }
+                : {
+                    label: 'Synced',
+                    title: 'All changes are on the server',
+                    tone: 'bg-green-50 text-green-600 dark:bg-green-900/30 dark:text-green-300',
+                };
+    }
+}
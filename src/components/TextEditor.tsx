@@ -4,7 +4,9 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useCanvasStore } from '../store/canvas-store';
-import { Transform, ShapeElement, TextElement, StickyElement } from '../types/canvas';
+import { Transform, CanvasElement, ShapeElement, TextElement, StickyElement, FrameElement } from '../types/canvas';
+import { mergeTextEdits } from '../utils/crdt-document';
+import { getFrameLabelBounds } from './elements/FrameRenderer';
 
 interface TextEditorProps {
     elementId: string;
@@ -17,15 +19,9 @@ export function TextEditor({ elementId, transform, onClose }: TextEditorProps) {
     const updateElement = useCanvasStore((s) => s.updateElement);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-    const [text, setText] = useState(() => {
-        if (!element) return '';
-        if (element.type === 'text') return (element as TextElement).text;
-        if (element.type === 'sticky') return (element as StickyElement).text;
-        if (['rectangle', 'ellipse', 'diamond', 'triangle'].includes(element.type)) {
-            return (element as ShapeElement).text || '';
-        }
-        return '';
-    });
+    // Text as editing started; collaborators may change it meanwhile
+    const [initialText] = useState(() => getEditableText(element));
+    const [text, setText] = useState(initialText);
 
     useEffect(() => {
         textareaRef.current?.focus();
@@ -35,15 +31,21 @@ export function TextEditor({ elementId, transform, onClose }: TextEditorProps) {
     const handleSave = useCallback(() => {
         if (!element) return;
 
+        // Keep what others typed elsewhere in the text while this was open
+        const merged = mergeTextEdits(initialText, text, getEditableText(element));
         if (element.type === 'text') {
-            updateElement(elementId, { text } as Partial<TextElement>);
+            updateElement(elementId, { text: merged } as Partial<TextElement>);
         } else if (element.type === 'sticky') {
-            updateElement(elementId, { text } as Partial<StickyElement>);
+            updateElement(elementId, { text: merged } as Partial<StickyElement>);
         } else if (['rectangle', 'ellipse', 'diamond', 'triangle'].includes(element.type)) {
-            updateElement(elementId, { text } as Partial<ShapeElement>);
+            updateElement(elementId, { text: merged } as Partial<ShapeElement>);
+        } else if (element.type === 'frame') {
+            // Keep the old name rather than leave the frame unlabeled
+            const name = text.replace(/\s+/g, ' ').trim();
+            if (name) updateElement(elementId, { name } as Partial<FrameElement>);
         }
         onClose();
-    }, [element, elementId, text, updateElement, onClose]);
+    }, [element, elementId, initialText, text, updateElement, onClose]);
 
     const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
         if (e.key === 'Escape') {
@@ -56,6 +58,39 @@ export function TextEditor({ elementId, transform, onClose }: TextEditorProps) {
 
     if (!element) return null;
 
+    // Frames edit their name label in place, on one line
+    if (element.type === 'frame') {
+        const label = getFrameLabelBounds(element, transform.scale);
+        return (
+            <div
+                className="absolute z-50"
+                style={{
+                    left: label.x * transform.scale + transform.x,
+                    top: label.y * transform.scale + transform.y,
+                    width: Math.max(element.width * transform.scale, 120),
+                    height: label.height * transform.scale,
+                }}
+            >
+                <textarea
+                    ref={textareaRef}
+                    value={text}
+                    rows={1}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onBlur={handleSave}
+                    className="w-full h-full bg-transparent border border-indigo-500 rounded resize-none outline-none overflow-hidden whitespace-nowrap"
+                    style={{
+                        fontSize: 13,
+                        lineHeight: 1.2,
+                        fontFamily: 'Inter, system-ui, sans-serif',
+                        color: '#6b7280',
+                        padding: '0 0.25rem',
+                    }}
+                />
+            </div>
+        );
+    }
+
     // Calculate screen position
     const screenX = element.x * transform.scale + transform.x;
     const screenY = element.y * transform.scale + transform.y;
@@ -70,6 +105,7 @@ export function TextEditor({ elementId, transform, onClose }: TextEditorProps) {
                 top: screenY,
                 width: screenWidth,
                 height: screenHeight,
+                transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
             }}
         >
             <textarea
@@ -93,3 +129,14 @@ export function TextEditor({ elementId, transform, onClose }: TextEditorProps) {
         </div>
     );
 }
+
+function getEditableText(element: CanvasElement | undefined): string {
+    if (!element) return '';
+    if (element.type === 'text') return (element as TextElement).text;
+    if (element.type === 'sticky') return (element as StickyElement).text;
+    if (element.type === 'frame') return (element as FrameElement).name;
+    if (['rectangle', 'ellipse', 'diamond', 'triangle'].includes(element.type)) {
+        return (element as ShapeElement).text || '';
+    }
+    return '';
+}
@@ -20,11 +20,14 @@ import {
     Frame,
     Spline,
     Eraser,
+    Wand,
+    ImagePlus,
     Undo2,
     Redo2,
 } from 'lucide-react';
 import { useCanvasStore, selectActiveTool, selectCanUndo, selectCanRedo } from '../store/canvas-store';
 import { Tool } from '../types/canvas';
+import { readImageFile } from '../utils/images';
 
 interface ToolbarProps {
     position?: 'left' | 'top';
@@ -37,6 +40,7 @@ export const Toolbar = memo(function Toolbar({ position = 'left' }: ToolbarProps
     const setTool = useCanvasStore((s) => s.setTool);
     const undo = useCanvasStore((s) => s.undo);
     const redo = useCanvasStore((s) => s.redo);
+    const insertImages = useCanvasStore((s) => s.insertImages);
 
     const tools: { tool: Tool; icon: React.ReactNode; label: string; shortcut?: string }[] = [
         { tool: 'select', icon: <MousePointer2 size={20} />, label: 'Select', shortcut: 'V' },
@@ -53,10 +57,35 @@ export const Toolbar = memo(function Toolbar({ position = 'left' }: ToolbarProps
         { tool: 'frame', icon: <Frame size={20} />, label: 'Frame', shortcut: 'F' },
         { tool: 'connector', icon: <Spline size={20} />, label: 'Connector', shortcut: 'C' },
         { tool: 'eraser', icon: <Eraser size={20} />, label: 'Eraser', shortcut: 'E' },
+        { tool: 'laser', icon: <Wand size={20} />, label: 'Laser Pointer', shortcut: 'K' },
     ];
 
     const isVertical = position === 'left';
 
+    // Picked images land in the middle of the viewport
+    const handleInsertImage = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.multiple = true;
+        input.onchange = async (e) => {
+            const files = Array.from((e.target as HTMLInputElement).files ?? []);
+            if (files.length === 0) return;
+            try {
+                const images = await Promise.all(files.map(readImageFile));
+                const { transform } = useCanvasStore.getState();
+                insertImages(images, {
+                    x: (window.innerWidth / 2 - transform.x) / transform.scale,
+                    y: (window.innerHeight / 2 - transform.y) / transform.scale,
+                });
+                setTool('select');
+            } catch (err) {
+                alert(`Failed to insert image: ${(err as Error).message}`);
+            }
+        };
+        input.click();
+    };
+
     return (
         <div className={`toolbar ${isVertical ? 'toolbar-left' : 'toolbar-top'}`}>
             {/* Undo/Redo */}
@@ -90,6 +119,14 @@ export const Toolbar = memo(function Toolbar({ position = 'left' }: ToolbarProps
                     {icon}
                 </button>
             ))}
+
+            <button
+                className="toolbar-button"
+                onClick={handleInsertImage}
+                title="Insert image"
+            >
+                <ImagePlus size={20} />
+            </button>
         </div>
     );
 });
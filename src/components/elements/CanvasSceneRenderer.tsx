@@ -0,0 +1,463 @@
+/**
+ * WB Canvas - Canvas Scene Renderer
+ *
+ * Draws the whole scene onto one <canvas>, for boards with more elements
+ * than the DOM keeps up with. Paints from the same instructions as the
+ * SVG renderers (see element-paint), and after the first frame only
+ * repaints the areas of elements that changed
+ */
+
+import { memo, useEffect, useRef, useState } from 'react';
+import rough from 'roughjs';
+import type { RoughCanvas } from 'roughjs/bin/canvas';
+import { Bounds, CanvasElement, FrameElement, Point, Transform } from '../../types/canvas';
+import { boundsOverlap, getElementBounds, getRotation, getRotationCenter } from '../../utils/geometry';
+import { getImageSource } from '../../utils/images';
+import {
+    DropShadow,
+    SHAPE_SHADOW,
+    STICKY_FONT_FAMILY,
+    STICKY_PADDING,
+    STICKY_PLACEHOLDER,
+    STICKY_SHADOW,
+    STICKY_TEXT_COLOR,
+    getElementDrawables,
+    getFreedrawDash,
+    getFreedrawPath,
+    getTextLayout,
+} from '../../utils/element-paint';
+import { LABEL_COLOR, LABEL_FONT_FAMILY, LABEL_FONT_SIZE, getFrameLabelBounds } from './FrameRenderer';
+
+interface CanvasSceneRendererProps {
+    elements: CanvasElement[]; // paint order
+    frameOf: Map<string, string>; // child id -> frame id
+    routes: Map<string, Point[]>; // connector paths
+    dimmed: Set<string>; // drawn faded, e.g. about to be erased
+    transform: Transform;
+    width: number;
+    height: number;
+}
+
+// An element as last painted, to tell what changed since
+interface PaintedElement {
+    element: CanvasElement;
+    route?: Point[];
+    frameId?: string;
+    order: number;
+    alpha: number;
+    bounds: Bounds; // everything it drew, in canvas coordinates
+}
+
+interface PaintedScene {
+    items: Map<string, PaintedElement>;
+    transform: Transform;
+    width: number;
+    height: number;
+    pixelRatio: number;
+}
+
+// Past this many changed areas, repaint their union instead
+const MAX_DIRTY_RECTS = 32;
+// Slack around painted bounds for arrowheads, rough strokes and shadows
+const PAINT_PADDING = 24;
+// How far shadow casters are moved out of view, in canvas units
+const SHADOW_CASTER_OFFSET = 1e6;
+const DIMMED_OPACITY = 0.3;
+
+export const CanvasSceneRenderer = memo(function CanvasSceneRenderer({
+    elements,
+    frameOf,
+    routes,
+    dimmed,
+    transform,
+    width,
+    height,
+}: CanvasSceneRendererProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const painted = useRef<PaintedScene | null>(null);
+    // Images and fonts arrive after they are first needed; both ask for a
+    // full repaint once loaded
+    const [assetsLoaded, setAssetsLoaded] = useState(0);
+    const pixelRatio = window.devicePixelRatio || 1;
+
+    useEffect(() => {
+        let cancelled = false;
+        document.fonts?.ready.then(() => {
+            if (cancelled) return;
+            painted.current = null;
+            setAssetsLoaded((n) => n + 1);
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const prev = painted.current;
+        const fullRepaint = !prev ||
+            prev.width !== width ||
+            prev.height !== height ||
+            prev.pixelRatio !== pixelRatio ||
+            prev.transform !== transform;
+
+        // Diff against what is on the canvas. Changed elements dirty both
+        // where they were and where they are now
+        const items = new Map<string, PaintedElement>();
+        const dirty: Bounds[] = [];
+        elements.forEach((element, order) => {
+            const route = routes.get(element.id);
+            const frameId = frameOf.get(element.id);
+            const alpha = (dimmed.has(element.id) ? DIMMED_OPACITY : 1) *
+                (frameId && dimmed.has(frameId) ? DIMMED_OPACITY : 1);
+            const old = prev?.items.get(element.id);
+
+            // Frame labels keep their screen size, so their bounds follow the zoom
+            if (
+                old && old.element === element && old.frameId === frameId && old.order === order &&
+                old.alpha === alpha && samePoints(old.route, route) &&
+                (element.type !== 'frame' || prev?.transform.scale === transform.scale)
+            ) {
+                items.set(element.id, old);
+                return;
+            }
+
+            const item = { element, route, frameId, order, alpha, bounds: getPaintBounds(element, route, transform.scale) };
+            items.set(element.id, item);
+            if (old) dirty.push(old.bounds);
+            dirty.push(item.bounds);
+        });
+        prev?.items.forEach((old, id) => {
+            if (!items.has(id)) dirty.push(old.bounds);
+        });
+
+        painted.current = { items, transform, width, height, pixelRatio };
+
+        const viewport = {
+            x: -transform.x / transform.scale,
+            y: -transform.y / transform.scale,
+            width: width / transform.scale,
+            height: height / transform.scale,
+        };
+        const region = fullRepaint
+            ? [viewport]
+            : (dirty.length > MAX_DIRTY_RECTS ? [unionOf(dirty)] : dirty).filter((rect) => boundsOverlap(rect, viewport));
+        if (region.length === 0) return;
+
+        paintScene(ctx, canvas, items, region, transform, pixelRatio, width, height, () => {
+            painted.current = null;
+            setAssetsLoaded((n) => n + 1);
+        });
+    }, [elements, frameOf, routes, dimmed, transform, width, height, pixelRatio, assetsLoaded]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            data-scene-canvas
+            className="absolute inset-0 pointer-events-none"
+            width={Math.round(width * pixelRatio)}
+            height={Math.round(height * pixelRatio)}
+            style={{ width, height }}
+        />
+    );
+});
+
+// =============================================================================
+// Painting
+// =============================================================================
+
+// Clear and repaint `region` (canvas coordinates). Frames bring their
+// children along, clipped when the frame clips, like the SVG scene
+function paintScene(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    items: Map<string, PaintedElement>,
+    region: Bounds[],
+    transform: Transform,
+    pixelRatio: number,
+    width: number,
+    height: number,
+    onImageLoad: () => void
+) {
+    const rc = rough.canvas(canvas);
+    const inRegion = (item: PaintedElement) => region.some((rect) => boundsOverlap(item.bounds, rect));
+
+    ctx.save();
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    // Clip to whole screen pixels, so antialiased edges are repainted too
+    ctx.beginPath();
+    region.forEach((rect) => {
+        const left = Math.floor(rect.x * transform.scale + transform.x) - 1;
+        const top = Math.floor(rect.y * transform.scale + transform.y) - 1;
+        const right = Math.ceil((rect.x + rect.width) * transform.scale + transform.x) + 1;
+        const bottom = Math.ceil((rect.y + rect.height) * transform.scale + transform.y) + 1;
+        ctx.rect(left, top, right - left, bottom - top);
+    });
+    ctx.clip();
+    ctx.clearRect(0, 0, width, height);
+
+    ctx.translate(transform.x, transform.y);
+    ctx.scale(transform.scale, transform.scale);
+
+    // Items are kept in paint order
+    const children = new Map<string, PaintedElement[]>();
+    items.forEach((item) => {
+        if (!item.frameId) return;
+        if (!children.has(item.frameId)) children.set(item.frameId, []);
+        children.get(item.frameId)!.push(item);
+    });
+
+    items.forEach((item) => {
+        if (item.frameId) return;
+        if (item.element.type !== 'frame') {
+            if (inRegion(item)) paintElement(ctx, rc, item, onImageLoad);
+            return;
+        }
+
+        const frame = item.element;
+        if (inRegion(item)) paintFrame(ctx, frame, item.alpha, transform.scale);
+
+        const frameChildren = (children.get(frame.id) ?? []).filter(inRegion);
+        if (frameChildren.length === 0) return;
+
+        ctx.save();
+        if (frame.clip) {
+            ctx.beginPath();
+            ctx.rect(frame.x, frame.y, frame.width, frame.height);
+            ctx.clip();
+        }
+        frameChildren.forEach((child) => paintElement(ctx, rc, child, onImageLoad));
+        ctx.restore();
+    });
+
+    ctx.restore();
+}
+
+function paintFrame(ctx: CanvasRenderingContext2D, frame: FrameElement, alpha: number, scale: number) {
+    const { x, y, width, height, name, stroke, fill, opacity } = frame;
+    const label = getFrameLabelBounds(frame, scale);
+
+    ctx.save();
+    ctx.globalAlpha = alpha * opacity;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, 4 / scale);
+    if (fill.type !== 'none') {
+        ctx.fillStyle = fill.color;
+        ctx.fill();
+    }
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width / scale;
+    ctx.stroke();
+
+    ctx.globalAlpha = alpha;
+    ctx.font = `${LABEL_FONT_SIZE / scale}px ${LABEL_FONT_FAMILY}`;
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.fillText(name, label.x, label.y + label.height * 0.8);
+    ctx.restore();
+}
+
+function paintElement(
+    ctx: CanvasRenderingContext2D,
+    rc: RoughCanvas,
+    { element, route, alpha }: PaintedElement,
+    onImageLoad: () => void
+) {
+    ctx.save();
+    ctx.globalAlpha = alpha * element.opacity;
+
+    const rotation = getRotation(element);
+    if (rotation) {
+        const center = getRotationCenter(element);
+        ctx.translate(center.x, center.y);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.translate(-center.x, -center.y);
+    }
+
+    const drawRough = () => getElementDrawables(element, route).forEach((drawable) => rc.draw(drawable));
+
+    switch (element.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle':
+            withDropShadow(ctx, SHAPE_SHADOW, drawRough);
+            break;
+        case 'line':
+        case 'arrow':
+        case 'connector':
+            drawRough();
+            break;
+        case 'freedraw': {
+            const { x, y, points, stroke } = element;
+            if (points.length === 1) {
+                ctx.beginPath();
+                ctx.arc(x + points[0].x, y + points[0].y, stroke.width / 2, 0, Math.PI * 2);
+                ctx.fillStyle = stroke.color;
+                ctx.fill();
+            } else if (points.length > 1) {
+                ctx.strokeStyle = stroke.color;
+                ctx.lineWidth = stroke.width;
+                ctx.setLineDash(getFreedrawDash(stroke) ?? []);
+                ctx.lineCap = 'round';
+                ctx.lineJoin = 'round';
+                ctx.stroke(new Path2D(getFreedrawPath(element)));
+            }
+            break;
+        }
+        case 'text': {
+            const { textStyle } = element;
+            const layout = getTextLayout(element);
+            ctx.font = `${textStyle.fontStyle} ${textStyle.fontWeight} ${textStyle.fontSize}px ${textStyle.fontFamily}`;
+            ctx.fillStyle = textStyle.color;
+            ctx.textAlign = layout.anchor === 'start' ? 'left' : layout.anchor === 'end' ? 'right' : 'center';
+            layout.lines.forEach((line, i) => ctx.fillText(line, layout.x, layout.y + i * layout.lineHeight));
+            break;
+        }
+        case 'sticky': {
+            const { x, y, width, height, text, textStyle } = element;
+            withDropShadow(ctx, STICKY_SHADOW, () => {
+                drawRough();
+
+                // Wrapped like the SVG renderer's HTML text box
+                const box = {
+                    x: x + STICKY_PADDING,
+                    y: y + STICKY_PADDING,
+                    width: width - STICKY_PADDING * 2,
+                    height: height - STICKY_PADDING * 2,
+                };
+                const lineHeight = textStyle.fontSize * textStyle.lineHeight;
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(box.x, box.y, box.width, box.height);
+                ctx.clip();
+                ctx.font = `${textStyle.fontSize}px ${STICKY_FONT_FAMILY}`;
+                ctx.fillStyle = STICKY_TEXT_COLOR;
+                ctx.textBaseline = 'middle';
+                wrapText(ctx, text || STICKY_PLACEHOLDER, box.width).forEach((line, i) => {
+                    ctx.fillText(line, box.x, box.y + lineHeight * (i + 0.5));
+                });
+                ctx.restore();
+            });
+            break;
+        }
+        case 'image': {
+            const { x, y, width, height, naturalWidth, naturalHeight, crop } = element;
+            const src = getImageSource(element);
+            if (!src) {
+                // File not available - keep the space visible
+                ctx.strokeStyle = '#9ca3af';
+                ctx.lineWidth = 1;
+                ctx.setLineDash([6, 4]);
+                ctx.strokeRect(x, y, width, height);
+                break;
+            }
+            const image = getLoadedImage(src, onImageLoad);
+            if (image) {
+                const view = crop ?? { x: 0, y: 0, width: naturalWidth, height: naturalHeight };
+                ctx.drawImage(image, view.x, view.y, view.width, view.height, x, y, width, height);
+            }
+            break;
+        }
+    }
+
+    ctx.restore();
+}
+
+// Drop shadow under everything `draw` paints, as one shape like the SVG
+// filter: the shadow is cast by a copy drawn far out of view, then the
+// element is drawn on top. The offset turns with the element, as the
+// filter's does
+function withDropShadow(ctx: CanvasRenderingContext2D, shadow: DropShadow, draw: () => void) {
+    const m = ctx.getTransform();
+    ctx.save();
+    ctx.shadowColor = shadow.color;
+    ctx.shadowBlur = shadow.blur * Math.hypot(m.a, m.b);
+    ctx.shadowOffsetX = m.a * (shadow.x - SHADOW_CASTER_OFFSET) + m.c * shadow.y;
+    ctx.shadowOffsetY = m.b * (shadow.x - SHADOW_CASTER_OFFSET) + m.d * shadow.y;
+    ctx.translate(SHADOW_CASTER_OFFSET, 0);
+    draw();
+    ctx.restore();
+    draw();
+}
+
+// Break text into lines that fit `maxWidth`. Whitespace collapses, as in
+// HTML, and words longer than a line are split
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= maxWidth || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+        while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+            let fit = line.length - 1;
+            while (fit > 1 && ctx.measureText(line.slice(0, fit)).width > maxWidth) fit--;
+            lines.push(line.slice(0, fit));
+            line = line.slice(fit);
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const images = new Map<string, HTMLImageElement>(); // src -> decoded image
+
+// The decoded image, or null while it loads
+function getLoadedImage(src: string, onLoad: () => void): HTMLImageElement | null {
+    let image = images.get(src);
+    if (!image) {
+        image = new Image();
+        image.onload = onLoad;
+        image.src = src;
+        images.set(src, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+}
+
+function getPaintBounds(element: CanvasElement, route: Point[] | undefined, scale: number): Bounds {
+    let bounds = element.type === 'connector' && route ? boundsOfPoints(route) : getElementBounds(element);
+    if (element.type === 'frame') bounds = unionOf([bounds, getFrameLabelBounds(element, scale)]);
+
+    const padding = PAINT_PADDING + ('stroke' in element ? element.stroke.width : 0);
+    return {
+        x: bounds.x - padding,
+        y: bounds.y - padding,
+        width: bounds.width + padding * 2,
+        height: bounds.height + padding * 2,
+    };
+}
+
+function boundsOfPoints(points: Point[]): Bounds {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function unionOf(rects: Bounds[]): Bounds {
+    const x = Math.min(...rects.map((r) => r.x));
+    const y = Math.min(...rects.map((r) => r.y));
+    return {
+        x,
+        y,
+        width: Math.max(...rects.map((r) => r.x + r.width)) - x,
+        height: Math.max(...rects.map((r) => r.y + r.height)) - y,
+    };
+}
+
+function samePoints(a?: Point[], b?: Point[]): boolean {
+    if (a === b) return true;
+    if (!a || !b || a.length !== b.length) return false;
+    return a.every((p, i) => p.x === b[i].x && p.y === b[i].y);
+}
@@ -150,15 +150,14 @@ const LineRenderer = memo(function LineRenderer({ element }: LineRendererProps)
 
     return (
         <g className="element-line" opacity={opacity}>
-            <line
-                x1={x + points[0].x}
-                y1={y + points[0].y}
-                x2={x + points[1].x}
-                y2={y + points[1].y}
+            <polyline
+                points={points.map((p) => `${x + p.x},${y + p.y}`).join(' ')}
+                fill="none"
                 stroke={stroke.color}
                 strokeWidth={stroke.width}
                 strokeDasharray={strokeDasharray}
                 strokeLinecap="round"
+                strokeLinejoin="round"
             />
         </g>
     );
@@ -180,13 +179,13 @@ const ArrowRenderer = memo(function ArrowRenderer({ element }: ArrowRendererProp
 
     const strokeDasharray = stroke.style === 'dashed' ? '8 4' : stroke.style === 'dotted' ? '2 2' : undefined;
 
-    const x1 = x + points[0].x;
-    const y1 = y + points[0].y;
-    const x2 = x + points[1].x;
-    const y2 = y + points[1].y;
+    const path = points.map((p) => ({ x: x + p.x, y: y + p.y }));
+    const first = path[0];
+    const last = path[path.length - 1];
 
-    // Calculate arrow head - size proportional to stroke width
-    const angle = Math.atan2(y2 - y1, x2 - x1);
+    // Heads point along the first and last segments
+    const startAngle = Math.atan2(first.y - path[1].y, first.x - path[1].x);
+    const endAngle = Math.atan2(last.y - path[path.length - 2].y, last.x - path[path.length - 2].x);
     const arrowLength = Math.max(16, stroke.width * 6);
     const arrowAngle = Math.PI / 7; // ~25 degrees for sharper arrow
 
@@ -209,18 +208,17 @@ const ArrowRenderer = memo(function ArrowRenderer({ element }: ArrowRendererProp
 
     return (
         <g className="element-arrow" opacity={opacity}>
-            <line
-                x1={x1}
-                y1={y1}
-                x2={x2}
-                y2={y2}
+            <polyline
+                points={path.map((p) => `${p.x},${p.y}`).join(' ')}
+                fill="none"
                 stroke={stroke.color}
                 strokeWidth={stroke.width}
                 strokeDasharray={strokeDasharray}
                 strokeLinecap="round"
+                strokeLinejoin="round"
             />
-            {startArrow === 'arrow' && renderArrowHead(x1, y1, angle + Math.PI)}
-            {endArrow === 'arrow' && renderArrowHead(x2, y2, angle)}
+            {startArrow === 'arrow' && renderArrowHead(first.x, first.y, startAngle)}
+            {endArrow === 'arrow' && renderArrowHead(last.x, last.y, endAngle)}
         </g>
     );
 });
@@ -0,0 +1,79 @@
+/**
+ * WB Canvas - Frame Renderer
+ *
+ * Draws a frame with its name label and renders its children inside,
+ * clipped to the frame when `clip` is set
+ */
+
+import { memo, ReactNode } from 'react';
+import { Bounds, FrameElement } from '../../types/canvas';
+
+// Label size in screen pixels; it stays readable at any zoom
+export const LABEL_FONT_SIZE = 13;
+export const LABEL_FONT_FAMILY = 'Inter, system-ui, sans-serif';
+export const LABEL_COLOR = '#6b7280';
+const LABEL_GAP = 6;
+
+// Where the name label sits, in canvas coordinates
+export function getFrameLabelBounds(frame: FrameElement, scale: number): Bounds {
+    const fontSize = LABEL_FONT_SIZE / scale;
+    const height = fontSize * 1.4;
+    return {
+        x: frame.x,
+        y: frame.y - height - LABEL_GAP / scale,
+        width: Math.min(frame.width, Math.max(fontSize * 4, frame.name.length * fontSize * 0.6)),
+        height,
+    };
+}
+
+interface FrameRendererProps {
+    element: FrameElement;
+    scale: number;
+    children?: ReactNode;
+}
+
+export const FrameRenderer = memo(function FrameRenderer({ element, scale, children }: FrameRendererProps) {
+    const { id, x, y, width, height, name, stroke, fill, clip, opacity } = element;
+    const clipId = `frame-clip-${id}`;
+    const label = getFrameLabelBounds(element, scale);
+
+    return (
+        <g className="element-frame">
+            {clip && (
+                <defs>
+                    <clipPath id={clipId}>
+                        <rect x={x} y={y} width={width} height={height} />
+                    </clipPath>
+                </defs>
+            )}
+
+            <rect
+                x={x}
+                y={y}
+                width={width}
+                height={height}
+                rx={4 / scale}
+                fill={fill.type !== 'none' ? fill.color : 'none'}
+                stroke={stroke.color}
+                strokeWidth={stroke.width / scale}
+                opacity={opacity}
+            />
+
+            <text
+                data-frame-label
+                x={label.x}
+                y={label.y + label.height * 0.8}
+                fontSize={LABEL_FONT_SIZE / scale}
+                fontFamily={LABEL_FONT_FAMILY}
+                fill={LABEL_COLOR}
+                style={{ userSelect: 'none' }}
+            >
+                {name}
+            </text>
+
+            <g clipPath={clip ? `url(#${clipId})` : undefined}>
+                {children}
+            </g>
+        </g>
+    );
+});
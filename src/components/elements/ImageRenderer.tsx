@@ -0,0 +1,52 @@
+/**
+ * WB Canvas - Image Renderer
+ *
+ * Draws an image element, showing only its crop region scaled to the
+ * element's bounds
+ */
+
+import { memo } from 'react';
+import { ImageElement } from '../../types/canvas';
+import { getImageSource } from '../../utils/images';
+
+interface ImageRendererProps {
+    element: ImageElement;
+}
+
+export const ImageRenderer = memo(function ImageRenderer({ element }: ImageRendererProps) {
+    const { x, y, width, height, naturalWidth, naturalHeight, crop, opacity } = element;
+    const src = getImageSource(element);
+
+    // File not available (e.g. deleted browser data) - keep the space visible
+    if (!src) {
+        return (
+            <rect
+                x={x}
+                y={y}
+                width={width}
+                height={height}
+                fill="transparent"
+                stroke="#9ca3af"
+                strokeDasharray="6 4"
+                opacity={opacity}
+            />
+        );
+    }
+
+    const view = crop ?? { x: 0, y: 0, width: naturalWidth, height: naturalHeight };
+
+    return (
+        <svg
+            x={x}
+            y={y}
+            width={width}
+            height={height}
+            viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+            preserveAspectRatio="none"
+            overflow="hidden"
+            opacity={opacity}
+        >
+            <image href={src} width={naturalWidth} height={naturalHeight} preserveAspectRatio="none" />
+        </svg>
+    );
+});
@@ -6,54 +6,59 @@
 
 import { memo, useRef, useEffect, useMemo } from 'react';
 import rough from 'roughjs';
-import type { Options } from 'roughjs/bin/core';
 import {
     CanvasElement,
     ShapeElement,
     LineElement,
     ArrowElement,
+    ConnectorElement,
     TextElement,
     StickyElement,
     FreedrawElement,
-    StrokeStyle,
-    FillStyle,
-    STICKY_COLORS
+    Point,
 } from '../../types/canvas';
+import {
+    SHAPE_SHADOW,
+    STICKY_FONT_FAMILY,
+    STICKY_PADDING,
+    STICKY_PLACEHOLDER,
+    STICKY_SHADOW,
+    STICKY_TEXT_COLOR,
+    getElementDrawables,
+    getFreedrawDash,
+    getFreedrawPath,
+    getTextLayout,
+    toCssDropShadow,
+} from '../../utils/element-paint';
+import { ImageRenderer } from './ImageRenderer';
 
 interface RoughElementRendererProps {
     element: CanvasElement;
     isSelected: boolean;
+    route?: Point[]; // connector path, routed by the caller
 }
 
-// Get rough.js options from element styles
-function getRoughOptions(stroke: StrokeStyle, fill: FillStyle, seed: number): Options {
-    const options: Options = {
-        seed,
-        roughness: 1.5,
-        bowing: 1.2,
-        stroke: stroke.color,
-        strokeWidth: stroke.width,
-        fill: fill.type !== 'none' ? fill.color : undefined,
-        fillStyle: fill.type === 'hachure' ? 'hachure' : fill.type === 'solid' ? 'solid' : undefined,
-        hachureAngle: -41,
-        hachureGap: Math.max(4, stroke.width * 2),
-        fillWeight: stroke.width * 0.4,
-        curveFitting: 0.95,
-        curveStepCount: 9,
-    };
-
-    if (stroke.style === 'dashed') {
-        options.strokeLineDash = [12, 6];
-    } else if (stroke.style === 'dotted') {
-        options.strokeLineDash = [3, 6];
-    }
-
-    return options;
+// Replace the group's content with the element's rough drawables, keeping
+// any children that are not rough.js output (e.g. sticky note text)
+function drawRough(g: SVGGElement | null, element: CanvasElement, route?: Point[]) {
+    const svg = g?.ownerSVGElement;
+    if (!g || !svg) return;
+
+    Array.from(g.children).forEach((child) => {
+        if (child.tagName !== 'foreignObject') child.remove();
+    });
+
+    const rc = rough.svg(svg);
+    const anchor = g.firstChild;
+    getElementDrawables(element, route).forEach((drawable) => {
+        g.insertBefore(rc.draw(drawable), anchor);
+    });
 }
 
 export const RoughElementRenderer = memo(function RoughElementRenderer({
     element,
-    isSelected
+    isSelected,
+    route
 }: RoughElementRendererProps) {
     switch (element.type) {
         case 'rectangle':
@@ -65,12 +70,16 @@ export const RoughElementRenderer = memo(function RoughElementRenderer({
             return <RoughLineRenderer element={element as LineElement} isSelected={isSelected} />;
         case 'arrow':
             return <RoughArrowRenderer element={element as ArrowElement} isSelected={isSelected} />;
+        case 'connector':
+            return route ? <RoughConnectorRenderer element={element} route={route} /> : null;
         case 'freedraw':
             return <RoughFreedrawRenderer element={element as FreedrawElement} isSelected={isSelected} />;
         case 'text':
             return <TextRenderer element={element as TextElement} isSelected={isSelected} />;
         case 'sticky':
             return <RoughStickyRenderer element={element as StickyElement} isSelected={isSelected} />;
+        case 'image':
+            return <ImageRenderer element={element} />;
         default:
             return null;
     }
@@ -86,68 +95,16 @@ interface RoughShapeRendererProps {
 }
 
 const RoughShapeRenderer = memo(function RoughShapeRenderer({ element }: RoughShapeRendererProps) {
-    const { x, y, width, height, stroke, fill, opacity, id } = element;
     const gRef = useRef<SVGGElement>(null);
 
-    // Stable seed based on element id
-    const seed = useMemo(() => {
-        let hash = 0;
-        for (let i = 0; i < id.length; i++) {
-            hash = ((hash << 5) - hash) + id.charCodeAt(i);
-            hash |= 0;
-        }
-        return Math.abs(hash);
-    }, [id]);
-
-    useEffect(() => {
-        if (!gRef.current || width < 1 || height < 1) return;
-
-        // Clear previous content
-        gRef.current.innerHTML = '';
-
-        const svg = gRef.current.ownerSVGElement;
-        if (!svg) return;
-
-        const rc = rough.svg(svg);
-        const options = getRoughOptions(stroke, fill, seed);
-
-        let node: SVGGElement;
-
-        switch (element.type) {
-            case 'rectangle':
-                node = rc.rectangle(x, y, width, height, options);
-                break;
-            case 'ellipse':
-                node = rc.ellipse(x + width / 2, y + height / 2, width, height, options);
-                break;
-            case 'diamond':
-                node = rc.polygon([
-                    [x + width / 2, y],
-                    [x + width, y + height / 2],
-                    [x + width / 2, y + height],
-                    [x, y + height / 2],
-                ], options);
-                break;
-            case 'triangle':
-                node = rc.polygon([
-                    [x + width / 2, y],
-                    [x + width, y + height],
-                    [x, y + height],
-                ], options);
-                break;
-            default:
-                node = rc.rectangle(x, y, width, height, options);
-        }
-
-        gRef.current.appendChild(node);
-    }, [element.type, x, y, width, height, stroke, fill, seed]);
+    useEffect(() => drawRough(gRef.current, element), [element]);
 
     return (
         <g
             ref={gRef}
             className="element-shape"
-            opacity={opacity}
-            style={{ filter: 'drop-shadow(2px 4px 6px rgba(0,0,0,0.15))' }}
+            opacity={element.opacity}
+            style={{ filter: toCssDropShadow(SHAPE_SHADOW) }}
         />
     );
 });
@@ -162,41 +119,13 @@ interface RoughLineRendererProps {
 }
 
 const RoughLineRenderer = memo(function RoughLineRenderer({ element }: RoughLineRendererProps) {
-    const { x, y, points, stroke, opacity, id } = element;
     const gRef = useRef<SVGGElement>(null);
 
-    const seed = useMemo(() => {
-        let hash = 0;
-        for (let i = 0; i < id.length; i++) {
-            hash = ((hash << 5) - hash) + id.charCodeAt(i);
-            hash |= 0;
-        }
-        return Math.abs(hash);
-    }, [id]);
-
-    useEffect(() => {
-        if (!gRef.current || points.length < 2) return;
-
-        gRef.current.innerHTML = '';
-
-        const svg = gRef.current.ownerSVGElement;
-        if (!svg) return;
-
-        const rc = rough.svg(svg);
-        const options = getRoughOptions(stroke, { type: 'none', color: '' }, seed);
+    useEffect(() => drawRough(gRef.current, element), [element]);
 
-        const x1 = x + points[0].x;
-        const y1 = y + points[0].y;
-        const x2 = x + points[1].x;
-        const y2 = y + points[1].y;
+    if (element.points.length < 2) return null;
 
-        const line = rc.line(x1, y1, x2, y2, options);
-        gRef.current.appendChild(line);
-    }, [x, y, points, stroke, seed]);
-
-    if (points.length < 2) return null;
-
-    return <g ref={gRef} className="element-line" opacity={opacity} />;
+    return <g ref={gRef} className="element-line" opacity={element.opacity} />;
 });
 
 // =============================================================================
@@ -209,78 +138,32 @@ interface RoughArrowRendererProps {
 }
 
 const RoughArrowRenderer = memo(function RoughArrowRenderer({ element }: RoughArrowRendererProps) {
-    const { x, y, points, stroke, startArrow, endArrow, opacity, id } = element;
     const gRef = useRef<SVGGElement>(null);
 
-    const seed = useMemo(() => {
-        let hash = 0;
-        for (let i = 0; i < id.length; i++) {
-            hash = ((hash << 5) - hash) + id.charCodeAt(i);
-            hash |= 0;
-        }
-        return Math.abs(hash);
-    }, [id]);
-
-    useEffect(() => {
-        if (!gRef.current || points.length < 2) return;
-
-        gRef.current.innerHTML = '';
-
-        const svg = gRef.current.ownerSVGElement;
-        if (!svg) return;
+    useEffect(() => drawRough(gRef.current, element), [element]);
 
-        const rc = rough.svg(svg);
-        const options = getRoughOptions(stroke, { type: 'none', color: '' }, seed);
+    if (element.points.length < 2) return null;
 
-        const x1 = x + points[0].x;
-        const y1 = y + points[0].y;
-        const x2 = x + points[1].x;
-        const y2 = y + points[1].y;
-
-        // Draw line
-        const line = rc.line(x1, y1, x2, y2, options);
-        gRef.current.appendChild(line);
-
-        // Arrow heads
-        const angle = Math.atan2(y2 - y1, x2 - x1);
-        const arrowLength = Math.max(18, stroke.width * 7);
-        const arrowAngle = Math.PI / 6;
+    return <g ref={gRef} className="element-arrow" opacity={element.opacity} />;
+});
 
-        const arrowOptions = { ...options, fill: stroke.color, fillStyle: 'solid' as const };
+// =============================================================================
+// Rough Connector Renderer
+// =============================================================================
 
-        if (endArrow === 'arrow') {
-            const ax1 = x2 - arrowLength * Math.cos(angle - arrowAngle);
-            const ay1 = y2 - arrowLength * Math.sin(angle - arrowAngle);
-            const ax2 = x2 - arrowLength * Math.cos(angle + arrowAngle);
-            const ay2 = y2 - arrowLength * Math.sin(angle + arrowAngle);
+interface RoughConnectorRendererProps {
+    element: ConnectorElement;
+    route: Point[];
+}
 
-            const arrowHead = rc.polygon([
-                [x2, y2],
-                [ax1, ay1],
-                [ax2, ay2],
-            ], arrowOptions);
-            gRef.current.appendChild(arrowHead);
-        }
+const RoughConnectorRenderer = memo(function RoughConnectorRenderer({ element, route }: RoughConnectorRendererProps) {
+    const gRef = useRef<SVGGElement>(null);
 
-        if (startArrow === 'arrow') {
-            const reverseAngle = angle + Math.PI;
-            const ax1 = x1 - arrowLength * Math.cos(reverseAngle - arrowAngle);
-            const ay1 = y1 - arrowLength * Math.sin(reverseAngle - arrowAngle);
-            const ax2 = x1 - arrowLength * Math.cos(reverseAngle + arrowAngle);
-            const ay2 = y1 - arrowLength * Math.sin(reverseAngle + arrowAngle);
-
-            const arrowHead = rc.polygon([
-                [x1, y1],
-                [ax1, ay1],
-                [ax2, ay2],
-            ], arrowOptions);
-            gRef.current.appendChild(arrowHead);
-        }
-    }, [x, y, points, stroke, startArrow, endArrow, seed]);
+    useEffect(() => drawRough(gRef.current, element, route), [element, route]);
 
-    if (points.length < 2) return null;
+    if (route.length < 2) return null;
 
-    return <g ref={gRef} className="element-arrow" opacity={opacity} />;
+    return <g ref={gRef} className="element-connector" opacity={element.opacity} />;
 });
 
 // =============================================================================
@@ -310,30 +193,7 @@ const RoughFreedrawRenderer = memo(function RoughFreedrawRenderer({ element }: R
         return null;
     }
 
-    // Smooth the path using quadratic bezier curves
-    const pathData = useMemo(() => {
-        if (points.length < 2) return '';
-
-        let d = `M ${x + points[0].x} ${y + points[0].y}`;
-
-        for (let i = 1; i < points.length - 1; i++) {
-            const p1 = points[i];
-            const p2 = points[i + 1];
-
-            const midX = (x + p1.x + x + p2.x) / 2;
-            const midY = (y + p1.y + y + p2.y) / 2;
-
-            d += ` Q ${x + p1.x} ${y + p1.y} ${midX} ${midY}`;
-        }
-
-        // Last point
-        const last = points[points.length - 1];
-        d += ` L ${x + last.x} ${y + last.y}`;
-
-        return d;
-    }, [x, y, points]);
-
-    const strokeDasharray = stroke.style === 'dashed' ? '8 4' : stroke.style === 'dotted' ? '2 2' : undefined;
+    const pathData = useMemo(() => getFreedrawPath(element), [element]);
 
     return (
         <g className="element-freedraw" opacity={opacity}>
@@ -342,7 +202,7 @@ const RoughFreedrawRenderer = memo(function RoughFreedrawRenderer({ element }: R
                 fill="none"
                 stroke={stroke.color}
                 strokeWidth={stroke.width}
-                strokeDasharray={strokeDasharray}
+                strokeDasharray={getFreedrawDash(stroke)?.join(' ')}
                 strokeLinecap="round"
                 strokeLinejoin="round"
             />
@@ -360,44 +220,17 @@ interface TextRendererProps {
 }
 
 const TextRenderer = memo(function TextRenderer({ element }: TextRendererProps) {
-    const { x, y, width, height, text, textStyle, opacity } = element;
-
-    const lines = text.split('\n');
-    const lineHeight = textStyle.fontSize * textStyle.lineHeight;
-
-    const getTextAnchor = () => {
-        switch (textStyle.textAlign) {
-            case 'left': return 'start';
-            case 'right': return 'end';
-            default: return 'middle';
-        }
-    };
-
-    const getTextX = () => {
-        switch (textStyle.textAlign) {
-            case 'left': return x + 4;
-            case 'right': return x + width - 4;
-            default: return x + width / 2;
-        }
-    };
-
-    const getStartY = () => {
-        const totalHeight = lines.length * lineHeight;
-        switch (textStyle.verticalAlign) {
-            case 'top': return y + textStyle.fontSize;
-            case 'bottom': return y + height - totalHeight + textStyle.fontSize;
-            default: return y + (height - totalHeight) / 2 + textStyle.fontSize;
-        }
-    };
+    const { textStyle, opacity } = element;
+    const layout = getTextLayout(element);
 
     return (
         <g className="element-text" opacity={opacity}>
-            {lines.map((line, i) => (
+            {layout.lines.map((line, i) => (
                 <text
                     key={i}
-                    x={getTextX()}
-                    y={getStartY() + i * lineHeight}
-                    textAnchor={getTextAnchor()}
+                    x={layout.x}
+                    y={layout.y + i * layout.lineHeight}
+                    textAnchor={layout.anchor}
                     fill={textStyle.color}
                     fontSize={textStyle.fontSize}
                     fontFamily={textStyle.fontFamily}
@@ -422,81 +255,37 @@ interface RoughStickyRendererProps {
 }
 
 const RoughStickyRenderer = memo(function RoughStickyRenderer({ element }: RoughStickyRendererProps) {
-    const { x, y, width, height, text, textStyle, color, opacity, id } = element;
+    const { x, y, width, height, text, textStyle, opacity } = element;
     const gRef = useRef<SVGGElement>(null);
 
-    const bgColor = STICKY_COLORS[color];
-
-    const seed = useMemo(() => {
-        let hash = 0;
-        for (let i = 0; i < id.length; i++) {
-            hash = ((hash << 5) - hash) + id.charCodeAt(i);
-            hash |= 0;
-        }
-        return Math.abs(hash);
-    }, [id]);
-
-    useEffect(() => {
-        if (!gRef.current) return;
-
-        // Clear previous shapes (keep text foreignObject)
-        const children = Array.from(gRef.current.children);
-        children.forEach(child => {
-            if (child.tagName !== 'foreignObject') {
-                child.remove();
-            }
-        });
-
-        const svg = gRef.current.ownerSVGElement;
-        if (!svg) return;
-
-        const rc = rough.svg(svg);
-
-        // Shadow rectangle
-        const shadow = rc.rectangle(x + 4, y + 4, width, height, {
-            seed,
-            fill: 'rgba(0,0,0,0.1)',
-            fillStyle: 'solid',
-            stroke: 'none',
-            roughness: 0.8,
-        });
-        gRef.current.insertBefore(shadow, gRef.current.firstChild);
-
-        // Main sticky note
-        const sticky = rc.rectangle(x, y, width, height, {
-            seed,
-            fill: bgColor,
-            fillStyle: 'solid',
-            stroke: 'rgba(0,0,0,0.15)',
-            strokeWidth: 1,
-            roughness: 0.8,
-            bowing: 0.5,
-        });
-        gRef.current.insertBefore(sticky, gRef.current.children[1] || null);
-
-    }, [x, y, width, height, bgColor, seed]);
+    useEffect(() => drawRough(gRef.current, element), [element]);
 
     return (
         <g
             ref={gRef}
             className="element-sticky"
             opacity={opacity}
-            style={{ filter: 'drop-shadow(3px 5px 8px rgba(0,0,0,0.2))' }}
+            style={{ filter: toCssDropShadow(STICKY_SHADOW) }}
         >
-            <foreignObject x={x + 16} y={y + 16} width={width - 32} height={height - 32}>
+            <foreignObject
+                x={x + STICKY_PADDING}
+                y={y + STICKY_PADDING}
+                width={width - STICKY_PADDING * 2}
+                height={height - STICKY_PADDING * 2}
+            >
                 <div
                     style={{
                         width: '100%',
                         height: '100%',
                         fontSize: textStyle.fontSize,
-                        fontFamily: "'Caveat', 'Comic Sans MS', cursive",
-                        color: '#333',
+                        fontFamily: STICKY_FONT_FAMILY,
+                        color: STICKY_TEXT_COLOR,
                         lineHeight: textStyle.lineHeight,
                         overflow: 'hidden',
                         wordWrap: 'break-word',
                     }}
                 >
-                    {text || 'Click to edit...'}
+                    {text || STICKY_PLACEHOLDER}
                 </div>
             </foreignObject>
         </g>
@@ -0,0 +1,209 @@
+/**
+ * WB Canvas - Autosave Hook
+ *
+ * Opens the last active board on load and saves it back after edits.
+ * Edits waiting for the save are journaled to localStorage, which is
+ * written at once, so a crash or a killed tab does not lose them
+ */
+
+import { useEffect } from 'react';
+import { useCanvasStore, selectRenderer } from '../store/canvas-store';
+import { CanvasElement } from '../types/canvas';
+import { getImageFileIds, loadImageFiles } from '../utils/images';
+import { findCanvasScene, findSceneCanvas } from '../utils/scene-svg';
+import { renderCanvasThumbnail, renderThumbnail } from '../utils/png-export';
+
+const AUTOSAVE_DELAY = 1000;
+const ACTIVE_BOARD_KEY = 'wb-canvas-active-board';
+
+// Holds a Journal while element edits are waiting to be written. Finding
+// it on load means the previous session ended before a save
+const UNSAVED_CHANGES_KEY = 'wb-canvas-unsaved-changes';
+
+// Elements changed since the last save (null when deleted) and the order
+// they are painted in
+interface Journal {
+    boardId: string;
+    changes: Record<string, CanvasElement | null>;
+    elementOrder: string[];
+}
+
+export function useAutosave() {
+    const loadBoards = useCanvasStore((s) => s.loadBoards);
+    const openBoard = useCanvasStore((s) => s.openBoard);
+    const createBoard = useCanvasStore((s) => s.createBoard);
+    const saveCurrentBoard = useCanvasStore((s) => s.saveCurrentBoard);
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: number | undefined;
+        let frame: number | undefined; // a journal write is scheduled
+        let unsubscribe: (() => void) | undefined;
+        let unsaved: Record<string, CanvasElement | null> = {};
+        let saving: Record<string, CanvasElement | null> = {}; // until the save is done
+
+        const journal = () => {
+            if (frame !== undefined) cancelAnimationFrame(frame);
+            frame = undefined;
+            const { boardId, elementOrder } = useCanvasStore.getState();
+            const changes = { ...saving, ...unsaved };
+            if (!boardId || Object.keys(changes).length === 0) {
+                localStorage.removeItem(UNSAVED_CHANGES_KEY);
+                return;
+            }
+            try {
+                localStorage.setItem(UNSAVED_CHANGES_KEY, JSON.stringify({ boardId, changes, elementOrder } satisfies Journal));
+            } catch (e) {
+                // Over quota; the regular save still runs
+                console.warn('Failed to journal unsaved changes:', e);
+            }
+        };
+
+        const save = async () => {
+            timer = undefined;
+            saving = { ...saving, ...unsaved };
+            unsaved = {};
+            try {
+                await saveCurrentBoard(await getThumbnail());
+                saving = {};
+                // Newer edits may have come in meanwhile
+                journal();
+            } catch (e) {
+                console.error('Autosave failed:', e);
+            }
+        };
+
+        const flush = () => {
+            if (frame !== undefined) journal();
+            if (timer !== undefined) {
+                clearTimeout(timer);
+                save();
+            }
+        };
+
+        const restore = async () => {
+            await loadBoards();
+            if (cancelled) return;
+
+            const { boards } = useCanvasStore.getState();
+            const lost = readJournal();
+            // The journaled board may have been deleted since
+            const board = boards.find((b) => b.id === lost?.boardId)
+                ?? boards.find((b) => b.id === localStorage.getItem(ACTIVE_BOARD_KEY))
+                ?? boards[0];
+
+            if (!board) {
+                await createBoard();
+            } else {
+                await openBoard(board.id);
+            }
+            if (cancelled || !lost) return;
+            if (lost.boardId !== board?.id) {
+                localStorage.removeItem(UNSAVED_CHANGES_KEY);
+                return;
+            }
+
+            const count = Object.keys(lost.changes).length;
+            if (count > 0 && confirm(
+                'Your last session ended before all changes were saved.\n\n' +
+                `Recover ${count} unsaved ${count === 1 ? 'change' : 'changes'} to "${board.name}"? ` +
+                `Cancel keeps the board as saved on ${new Date(board.updatedAt).toLocaleString()}.`
+            )) {
+                await loadImageFiles(getImageFileIds(Object.values(lost.changes).filter((el): el is CanvasElement => el !== null)));
+                useCanvasStore.getState().recoverChanges(lost.changes, lost.elementOrder);
+                await save();
+            }
+            localStorage.removeItem(UNSAVED_CHANGES_KEY);
+        };
+
+        // Only start watching once a board is open, otherwise the empty
+        // initial state would overwrite the saved one
+        restore()
+            .catch((e) => console.error('Failed to restore board:', e))
+            .finally(() => {
+                if (cancelled) return;
+                unsubscribe = useCanvasStore.subscribe((state, prev) => {
+                    if (state.boardId !== prev.boardId) {
+                        // Opening a board saves the one being left
+                        unsaved = {};
+                        saving = {};
+                        localStorage.removeItem(UNSAVED_CHANGES_KEY);
+                        if (state.boardId) localStorage.setItem(ACTIVE_BOARD_KEY, state.boardId);
+                        return;
+                    }
+
+                    const edited = state.elements !== prev.elements
+                        || state.elementOrder !== prev.elementOrder
+                        || state.checkpoints !== prev.checkpoints;
+                    if (!edited && state.transform === prev.transform) return;
+
+                    if (edited) {
+                        collectChanges(unsaved, state.elements, prev.elements);
+                        frame ??= requestAnimationFrame(journal);
+                    }
+                    clearTimeout(timer);
+                    timer = window.setTimeout(save, AUTOSAVE_DELAY);
+                });
+
+                const { boardId } = useCanvasStore.getState();
+                if (boardId) localStorage.setItem(ACTIVE_BOARD_KEY, boardId);
+            });
+
+        window.addEventListener('pagehide', flush);
+
+        return () => {
+            cancelled = true;
+            unsubscribe?.();
+            window.removeEventListener('pagehide', flush);
+            flush();
+        };
+    }, [loadBoards, openBoard, createBoard, saveCurrentBoard]);
+}
+
+function readJournal(): Journal | null {
+    try {
+        const journal = JSON.parse(localStorage.getItem(UNSAVED_CHANGES_KEY) ?? 'null');
+        return journal?.boardId && journal.changes && Array.isArray(journal.elementOrder) ? journal : null;
+    } catch {
+        return null;
+    }
+}
+
+// Record in `changes` the elements that differ between the two maps
+function collectChanges(
+    changes: Record<string, CanvasElement | null>,
+    elements: Record<string, CanvasElement>,
+    prev: Record<string, CanvasElement>
+) {
+    if (elements === prev) return;
+    for (const id in elements) {
+        if (elements[id] !== prev[id]) changes[id] = elements[id];
+    }
+    for (const id in prev) {
+        if (!elements[id]) changes[id] = null;
+    }
+}
+
+// Preview of the board as currently rendered, which leaves out culled
+// off-screen elements; null for an empty board
+async function getThumbnail(): Promise<string | null | undefined> {
+    const state = useCanvasStore.getState();
+    if (state.elementOrder.length === 0) return null;
+
+    // The canvas backend has no element nodes to copy; take its view instead
+    if (selectRenderer(state) === 'canvas') {
+        const canvas = findSceneCanvas();
+        return canvas ? renderCanvasThumbnail(canvas) : undefined;
+    }
+
+    const scene = findCanvasScene();
+    if (!scene) return undefined;
+
+    try {
+        return await renderThumbnail(scene, state.elementOrder);
+    } catch (e) {
+        // Some browsers taint canvases that drew <foreignObject> content
+        console.warn('Failed to render board thumbnail:', e);
+        return undefined;
+    }
+}
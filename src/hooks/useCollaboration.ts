@@ -0,0 +1,60 @@
+/**
+ * WB Canvas - Collaboration Hook
+ *
+ * Runs the session of a shared board and keeps its room in the URL, so
+ * the address is the link to share. Opening such a link joins the room,
+ * on a new local board if this browser has not seen it yet
+ */
+
+import { useEffect, useRef } from 'react';
+import { useCanvasStore } from '../store/canvas-store';
+import { startCollaborationSession } from '../utils/collab-session';
+import { createTransport } from '../utils/sync-transport';
+
+const ROOM_PARAM = 'room';
+
+export function useCollaboration() {
+    const boardId = useCanvasStore((s) => s.boardId);
+    const room = useCanvasStore((s) => s.collaboration?.room ?? null);
+    const joinedLink = useRef(false);
+
+    // Once the last board is restored, switch to the linked one
+    useEffect(() => {
+        if (!boardId || joinedLink.current) return;
+        joinedLink.current = true;
+
+        const linked = new URLSearchParams(location.search).get(ROOM_PARAM);
+        if (!linked) return;
+
+        const { boards, openBoard, createBoard, startCollaboration } = useCanvasStore.getState();
+        const open = boards.some((b) => b.id === linked) ? openBoard(linked) : createBoard('Shared board', linked);
+        open
+            .then(() => startCollaboration())
+            .catch((e) => console.error('Failed to join the shared board:', e));
+    }, [boardId]);
+
+    useEffect(() => {
+        if (!room) return;
+        setRoomParam(room);
+        const stop = startCollaborationSession(room, createTransport(room));
+        return () => {
+            stop();
+            setRoomParam(null);
+        };
+    }, [room]);
+}
+
+// Other parameters (?sync=) are kept
+function setRoomParam(room: string | null) {
+    const url = new URL(location.href);
+    if (room) url.searchParams.set(ROOM_PARAM, room);
+    else url.searchParams.delete(ROOM_PARAM);
+    history.replaceState(history.state, '', url);
+}
+
+// Link that opens the shared board in another browser
+export function getRoomLink(room: string): string {
+    const url = new URL(location.href);
+    url.searchParams.set(ROOM_PARAM, room);
+    return url.toString();
+}
@@ -14,7 +14,6 @@ export function useKeyboard() {
     const redo = useCanvasStore((s) => s.redo);
     const copy = useCanvasStore((s) => s.copy);
     const cut = useCanvasStore((s) => s.cut);
-    const paste = useCanvasStore((s) => s.paste);
     const deleteElements = useCanvasStore((s) => s.deleteElements);
     const selectAll = useCanvasStore((s) => s.selectAll);
     const clearSelection = useCanvasStore((s) => s.clearSelection);
@@ -54,6 +53,7 @@ export function useKeyboard() {
                 'f': 'frame',
                 'c': 'connector',
                 'e': 'eraser',
+                'k': 'laser',
             };
 
             if (toolMap[key]) {
@@ -90,10 +90,8 @@ export function useKeyboard() {
                     cut();
                     break;
 
-                case 'v':
-                    e.preventDefault();
-                    paste();
-                    break;
+                // Ctrl+V is handled by the canvas' paste listener, which
+                // also sees images on the system clipboard
 
                 case 'a':
                     e.preventDefault();
@@ -171,7 +169,7 @@ export function useKeyboard() {
                 break;
         }
     }, [
-        setTool, undo, redo, copy, cut, paste, deleteElements, selectAll,
+        setTool, undo, redo, copy, cut, deleteElements, selectAll,
         clearSelection, duplicateElements, zoomIn, zoomOut, zoomToFit,
         resetZoom, toggleGrid, bringToFront, sendToBack, selectedIds
     ]);
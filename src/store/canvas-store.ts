@@ -18,11 +18,35 @@ import {
     ResizeHandle,
     Point,
     Bounds,
+    BoardInfo,
+    RendererBackend,
+    CollabStatus,
+    Presence,
+    Binding,
+    FrameElement,
+    ImageElement,
     createId,
+    createSeed,
+    createBaseElement,
     DEFAULT_STROKE,
     DEFAULT_FILL,
     DEFAULT_TEXT_STYLE,
 } from '../types/canvas';
+import { ExportResult, SkippedElement } from '../utils/diagram-ir';
+import { exportToMermaid } from '../utils/mermaid-export';
+import { exportToPlantUML } from '../utils/plantuml-export';
+import { extractSceneFromSVG } from '../utils/svg-export';
+import { ImportReport, parseSceneFile, serializeScene } from '../utils/scene-file';
+import { getElementBounds, pointInBounds } from '../utils/geometry';
+import { MAX_ROUTE_DETOUR, resolveConnectorEnds } from '../utils/connector-routing';
+import { getLinearGeometry, resolveArrowPoints } from '../utils/binding';
+import * as boardStorage from '../utils/storage';
+import { ImageFileInfo, getImageFileIds, inlineImages, internImages, loadImageFiles } from '../utils/images';
+import { exportToDrawio, importFromDrawio } from '../utils/drawio';
+import { exportToExcalidraw, importFromExcalidraw } from '../utils/excalidraw';
+import { SpatialIndex } from '../utils/spatial-index';
+import { getBranchEnd, getDescendantIds, getHistoryPath } from '../utils/history-tree';
+import { mergeTextEdits } from '../utils/crdt-document';
 
 // =============================================================================
 // Store Actions Interface
@@ -35,6 +59,7 @@ interface CanvasActions {
     updateElementSilent: (id: string, updates: Partial<CanvasElement>) => void; // No history
     deleteElements: (ids: string[]) => void;
     duplicateElements: (ids: string[]) => CanvasElement[];
+    insertImages: (images: ImageFileInfo[], center: Point) => void; // centered on a canvas point
 
     // Selection
     setSelection: (ids: string[]) => void;
@@ -69,12 +94,24 @@ interface CanvasActions {
     // History
     undo: () => void;
     redo: () => void;
-    pushHistory: (entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => void;
+    jumpToHistory: (entryId: string | null) => void; // null is the state before any entry
+    pushHistory: (entry: Omit<HistoryEntry, 'id' | 'parentId' | 'timestamp'>) => void;
+    createCheckpoint: (name: string) => void;
+    restoreCheckpoint: (id: string) => void; // as a new history entry
+    deleteCheckpoint: (id: string) => void;
+    recoverChanges: (changes: Record<string, CanvasElement | null>, elementOrder: string[]) => void; // unsaved edits of a lost session, as a new history entry
+    // Everything changed between begin and commit becomes one history
+    // entry. Transactions nest: inner ones join the outermost
+    beginTransaction: (label?: string) => void;
+    commitTransaction: () => void;
+    abortTransaction: () => void; // rolls back to the outermost begin
+    transact: <T>(label: string, run: () => T) => T; // aborts if `run` throws
 
     // UI State
     setDrawing: (isDrawing: boolean) => void;
     setPanning: (isPanning: boolean) => void;
     setResizing: (isResizing: boolean, handle?: ResizeHandle | null) => void;
+    setRenderOffscreen: (renderOffscreen: boolean) => void;
 
     // Clipboard
     copy: () => void;
@@ -91,14 +128,46 @@ interface CanvasActions {
     group: (ids: string[]) => string;
     ungroup: (groupId: string) => void;
 
+    // Frames
+    assignToFrames: (ids: string[]) => void; // re-parent by position
+
     // Alignment
     alignElements: (ids: string[], alignment: AlignmentType) => void;
     distributeElements: (ids: string[], direction: 'horizontal' | 'vertical') => void;
 
     // Import/Export
     exportToJSON: () => string;
-    importFromJSON: (json: string) => void;
+    importFromJSON: (json: string) => ImportReport; // throws on unreadable files
+    importFromSVG: (svg: string) => ImportReport;
+    exportToMermaid: () => ExportResult;
+    exportToPlantUML: () => ExportResult;
+    exportToDrawio: () => ExportResult;
+    importFromDrawio: (xml: string) => Promise<SkippedElement[]>;
+    exportToExcalidraw: () => ExportResult;
+    importFromExcalidraw: (json: string) => void;
     clear: () => void;
+
+    // Boards
+    loadBoards: () => Promise<void>;
+    openBoard: (id: string) => Promise<void>;
+    saveCurrentBoard: (thumbnail?: string | null) => Promise<void>; // undefined keeps, null clears
+    createBoard: (name?: string, id?: string) => Promise<void>; // id for a shared board joined by link
+    renameBoard: (id: string, name: string) => Promise<void>;
+    setRenderer: (renderer: RendererBackend) => Promise<void>; // for the open board
+    duplicateBoard: (id: string) => Promise<void>;
+    deleteBoard: (id: string) => Promise<void>;
+
+    // Collaboration
+    startCollaboration: () => void; // shares the open board
+    stopCollaboration: () => void;
+    setCollaborationStatus: (status: CollabStatus) => void;
+    setPendingChanges: (count: number) => void;
+    // Edits made elsewhere. They are not undo steps here
+    applyRemoteChanges: (elements: Map<string, CanvasElement | null>, elementOrder: string[] | null) => void;
+    loadSharedDocument: (elements: Record<string, CanvasElement>, elementOrder: string[]) => void; // from the op log
+    setCollaboratorPresence: (presence: Presence) => void;
+    removeCollaborator: (clientId: string) => void;
+    followCollaborator: (clientId: string | null) => void; // null stops following
 }
 
 type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
@@ -107,7 +176,16 @@ type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
 // Initial State
 // =============================================================================
 
+// Entries kept before the oldest are trimmed. Checkpoints are not counted
+const MAX_HISTORY = 100;
+// Longest side, in screen pixels, of a newly inserted image
+const MAX_INSERTED_IMAGE_SIZE = 600;
+// Slack around indexed bounds for arrowheads and rough strokes
+const INDEX_PADDING = 16;
+
 const initialState: CanvasState = {
+    boardId: null,
+    boards: [],
     elements: {},
     elementOrder: [],
     transform: { x: 0, y: 0, scale: 1 },
@@ -123,11 +201,17 @@ const initialState: CanvasState = {
     roughStyle: false, // Clean style by default for tech interviews
     darkMode: false,
     history: [],
-    historyIndex: -1,
+    historyHead: null,
+    historyTip: null,
+    checkpoints: [],
+    collaboration: null,
+    collaborators: {},
+    followingId: null,
     isDrawing: false,
     isPanning: false,
     isResizing: false,
     resizeHandle: null,
+    renderOffscreen: false,
     clipboard: [],
 };
 
@@ -143,30 +227,19 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
         // Elements
         // =====================================================================
 
-        addElement: (element) => {
-            const before: Record<string, CanvasElement | null> = { [element.id]: null };
-            const after: Record<string, CanvasElement | null> = { [element.id]: element };
-
-            set((draft) => {
-                draft.elements[element.id] = element;
-                draft.elementOrder.push(element.id);
-            });
-
-            get().pushHistory({ type: 'add', elementIds: [element.id], before, after });
-        },
+        addElement: (element) => get().transact(`Add ${element.type}`, () => set((draft) => {
+            draft.elements[element.id] = element;
+            draft.elementOrder.push(element.id);
+        })),
 
         updateElement: (id, updates) => {
             const element = get().elements[id];
             if (!element) return;
 
-            const before: Record<string, CanvasElement | null> = { [id]: { ...element } };
-
-            set((draft) => {
+            get().transact(`Edit ${element.type}`, () => set((draft) => {
                 Object.assign(draft.elements[id], updates, { updatedAt: Date.now() });
-            });
-
-            const after: Record<string, CanvasElement | null> = { [id]: get().elements[id] };
-            get().pushHistory({ type: 'update', elementIds: [id], before, after });
+                syncBindings(draft, [id]);
+            }));
         },
 
         // Update without recording history (for drag operations)
@@ -176,29 +249,33 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
 
             set((draft) => {
                 Object.assign(draft.elements[id], updates, { updatedAt: Date.now() });
+                syncBindings(draft, [id]);
             });
         },
 
         deleteElements: (ids) => {
-            const state = get();
-            const before: Record<string, CanvasElement | null> = {};
-            const after: Record<string, CanvasElement | null> = {};
-
-            ids.forEach((id) => {
-                before[id] = state.elements[id] || null;
-                after[id] = null;
+            if (ids.length === 0) return;
+
+            // Frames that lose children and arrows that lose their shapes
+            // are part of the same entry
+            const removed = new Set(ids);
+            const detached: CanvasElement[] = [];
+            Object.values(get().elements).forEach((el) => {
+                const updated = !removed.has(el.id) && detachFromRemoved(el, removed);
+                if (updated) detached.push(updated);
             });
 
-            set((draft) => {
+            get().transact(describe('Delete', ids.length), () => set((draft) => {
                 ids.forEach((id) => {
                     delete draft.elements[id];
                     const idx = draft.elementOrder.indexOf(id);
                     if (idx !== -1) draft.elementOrder.splice(idx, 1);
                 });
+                detached.forEach((el) => {
+                    draft.elements[el.id] = el;
+                });
                 draft.selectedIds = draft.selectedIds.filter((id) => !ids.includes(id));
-            });
-
-            get().pushHistory({ type: 'delete', elementIds: ids, before, after });
+            }));
         },
 
         duplicateElements: (ids) => {
@@ -206,32 +283,71 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
             const newElements: CanvasElement[] = [];
             const offset = 20;
 
+            const idMap = new Map<string, string>();
+
             ids.forEach((id) => {
                 const element = state.elements[id];
                 if (element) {
                     const newElement = {
                         ...JSON.parse(JSON.stringify(element)),
                         id: createId(),
+                        seed: createSeed(), // copies get their own wobble
                         x: element.x + offset,
                         y: element.y + offset,
                         createdAt: Date.now(),
                         updatedAt: Date.now(),
                     };
+                    idMap.set(id, newElement.id);
                     newElements.push(newElement);
                 }
             });
+            remapCopiedReferences(newElements, idMap);
 
-            set((draft) => {
+            get().transact(describe('Duplicate', newElements.length), () => set((draft) => {
                 newElements.forEach((el) => {
                     draft.elements[el.id] = el;
                     draft.elementOrder.push(el.id);
                 });
                 draft.selectedIds = newElements.map((el) => el.id);
-            });
+            }));
 
             return newElements;
         },
 
+        insertImages: (images, center) => {
+            if (images.length === 0) return;
+
+            // Large images come in at a size that fits the screen
+            const maxSize = MAX_INSERTED_IMAGE_SIZE / get().transform.scale;
+            const newElements = images.map((image, i): ImageElement => {
+                const fit = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+                const width = image.naturalWidth * fit;
+                const height = image.naturalHeight * fit;
+                const offset = i * 20;
+                return {
+                    ...createBaseElement('image', center.x - width / 2 + offset, center.y - height / 2 + offset),
+                    type: 'image',
+                    width,
+                    height,
+                    fileId: image.fileId,
+                    naturalWidth: image.naturalWidth,
+                    naturalHeight: image.naturalHeight,
+                };
+            });
+
+            const ids = newElements.map((el) => el.id);
+            get().transact(describe('Insert', ids.length, 'image'), () => {
+                set((draft) => {
+                    newElements.forEach((el) => {
+                        draft.elements[el.id] = el;
+                        draft.elementOrder.push(el.id);
+                    });
+                    draft.selectedIds = ids;
+                });
+                get().assignToFrames(ids);
+            });
+        },
+
         // =====================================================================
         // Selection
         // =====================================================================
@@ -346,78 +462,157 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
         // History
         // =====================================================================
 
+        // New entries go on top of the current one. Entries that were
+        // undone stay in the tree as another branch
         pushHistory: (entry) => set((draft) => {
-            // Remove any redo entries
-            draft.history = draft.history.slice(0, draft.historyIndex + 1);
-
-            // Add new entry
+            const id = createId();
             draft.history.push({
                 ...entry,
-                id: createId(),
+                id,
+                parentId: draft.historyHead,
                 timestamp: Date.now(),
             });
-
-            draft.historyIndex = draft.history.length - 1;
-
-            // Limit history size
-            if (draft.history.length > 100) {
-                draft.history.shift();
-                draft.historyIndex--;
-            }
+            draft.historyHead = id;
+            draft.historyTip = id;
+            trimHistory(draft);
         }),
 
+        // Undo and redo wait for an open transaction to finish
         undo: () => {
-            const state = get();
-            if (state.historyIndex < 0) return;
-
-            const entry = state.history[state.historyIndex];
+            const { history, historyHead } = get();
+            const entry = history.find((e) => e.id === historyHead);
+            if (!entry || transaction) return;
 
             set((draft) => {
-                // Restore previous state
-                entry.elementIds.forEach((id) => {
-                    const before = entry.before[id];
-                    if (before === null) {
-                        delete draft.elements[id];
-                        const idx = draft.elementOrder.indexOf(id);
-                        if (idx !== -1) draft.elementOrder.splice(idx, 1);
-                    } else {
-                        draft.elements[id] = before;
-                        if (!draft.elementOrder.includes(id)) {
-                            draft.elementOrder.push(id);
-                        }
-                    }
-                });
-
-                draft.historyIndex--;
+                applyHistoryEntry(draft, entry, 'before');
+                draft.historyHead = entry.parentId;
             });
         },
 
         redo: () => {
-            const state = get();
-            if (state.historyIndex >= state.history.length - 1) return;
+            const entry = findRedoEntry(get());
+            if (!entry || transaction) return;
+
+            set((draft) => {
+                applyHistoryEntry(draft, entry, 'after');
+                draft.historyHead = entry.id;
+            });
+        },
 
-            const entry = state.history[state.historyIndex + 1];
+        // Undo back to where the branches part, then redo down the other one
+        jumpToHistory: (entryId) => {
+            const { history, historyHead, historyTip } = get();
+            if (entryId === historyHead || transaction) return;
+
+            const from = getHistoryPath(history, historyHead);
+            const to = getHistoryPath(history, entryId);
+            let shared = 0;
+            while (shared < from.length && shared < to.length && from[shared] === to[shared]) shared++;
+            const onBranch = entryId === null || getHistoryPath(history, historyTip).some((e) => e.id === entryId);
 
             set((draft) => {
-                // Apply next state
-                entry.elementIds.forEach((id) => {
-                    const after = entry.after[id];
-                    if (after === null) {
-                        delete draft.elements[id];
-                        const idx = draft.elementOrder.indexOf(id);
-                        if (idx !== -1) draft.elementOrder.splice(idx, 1);
-                    } else {
-                        draft.elements[id] = after;
-                        if (!draft.elementOrder.includes(id)) {
-                            draft.elementOrder.push(id);
-                        }
-                    }
+                from.slice(shared).reverse().forEach((entry) => applyHistoryEntry(draft, entry, 'before'));
+                to.slice(shared).forEach((entry) => applyHistoryEntry(draft, entry, 'after'));
+                draft.historyHead = entryId;
+                // Jumping along the current branch keeps its redo entries
+                if (!onBranch) draft.historyTip = getBranchEnd(history, entryId!);
+            });
+        },
+
+        createCheckpoint: (name) => {
+            const { elements, elementOrder } = get();
+            set((draft) => {
+                draft.checkpoints.push({ id: createId(), name, timestamp: Date.now(), elements, elementOrder });
+            });
+        },
+
+        restoreCheckpoint: (id) => {
+            const checkpoint = get().checkpoints.find((c) => c.id === id);
+            if (!checkpoint) return;
+
+            get().transact(`Restore "${checkpoint.name}"`, () => set((draft) => {
+                draft.elements = checkpoint.elements;
+                draft.elementOrder = checkpoint.elementOrder;
+                draft.selectedIds = draft.selectedIds.filter((selected) => checkpoint.elements[selected]);
+            }));
+        },
+
+        deleteCheckpoint: (id) => set((draft) => {
+            draft.checkpoints = draft.checkpoints.filter((c) => c.id !== id);
+        }),
+
+        recoverChanges: (changes, elementOrder) => {
+            get().transact('Recover unsaved changes', () => set((draft) => {
+                Object.entries(changes).forEach(([id, element]) => {
+                    if (element) draft.elements[id] = element;
+                    else delete draft.elements[id];
                 });
+                draft.elementOrder = elementOrder.filter((id) => draft.elements[id]);
+            }));
+        },
+
+        beginTransaction: (label) => {
+            if (transaction) {
+                transaction.depth++;
+                return;
+            }
+            const { elements, elementOrder } = get();
+            transaction = { label, depth: 1, elements, elementOrder };
+        },
+
+        commitTransaction: () => {
+            if (!transaction || --transaction.depth > 0) return;
+            const { label, elements: startElements, elementOrder: startOrder } = transaction;
+            transaction = null;
+
+            // Store updates replace every element they touch, so changed
+            // elements are the ones whose object differs from the start
+            const { elements, elementOrder } = get();
+            const elementIds: string[] = [];
+            const before: Record<string, CanvasElement | null> = {};
+            const after: Record<string, CanvasElement | null> = {};
+            new Set([...Object.keys(startElements), ...Object.keys(elements)]).forEach((id) => {
+                if (startElements[id] === elements[id]) return;
+                elementIds.push(id);
+                before[id] = startElements[id] ?? null;
+                after[id] = elements[id] ?? null;
+            });
+            const orderChanged = !isSameOrder(startOrder, elementOrder);
+            if (elementIds.length === 0 && !orderChanged) return;
+
+            get().pushHistory({
+                type: 'batch',
+                label,
+                elementIds,
+                before,
+                after,
+                ...(orderChanged && { orderBefore: startOrder, orderAfter: elementOrder }),
+            });
+        },
 
-                draft.historyIndex++;
+        abortTransaction: () => {
+            if (!transaction) return;
+            const { elements, elementOrder } = transaction;
+            transaction = null;
+            set((draft) => {
+                draft.elements = elements;
+                draft.elementOrder = elementOrder;
+                draft.selectedIds = draft.selectedIds.filter((id) => elements[id]);
             });
         },
 
+        transact: (label, run) => {
+            get().beginTransaction(label);
+            try {
+                const result = run();
+                get().commitTransaction();
+                return result;
+            } catch (error) {
+                get().abortTransaction();
+                throw error;
+            }
+        },
+
         // =====================================================================
         // UI State
         // =====================================================================
@@ -429,6 +624,10 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
             draft.resizeHandle = handle;
         }),
 
+        setRenderOffscreen: (renderOffscreen) => set((draft) => {
+            draft.renderOffscreen = renderOffscreen;
+        }),
+
         // =====================================================================
         // Clipboard
         // =====================================================================
@@ -447,46 +646,53 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
         cut: () => {
             const state = get();
             state.copy();
-            state.deleteElements(state.selectedIds);
+            state.transact(describe('Cut', state.selectedIds.length), () => state.deleteElements(state.selectedIds));
         },
 
         paste: (offset = { x: 20, y: 20 }) => {
             const state = get();
             if (state.clipboard.length === 0) return;
 
-            const newElements: CanvasElement[] = state.clipboard.map((el) => ({
-                ...JSON.parse(JSON.stringify(el)),
-                id: createId(),
-                x: el.x + offset.x,
-                y: el.y + offset.y,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-            }));
+            const idMap = new Map<string, string>();
+            const newElements: CanvasElement[] = state.clipboard.map((el) => {
+                const id = createId();
+                idMap.set(el.id, id);
+                return {
+                    ...JSON.parse(JSON.stringify(el)),
+                    id,
+                    seed: createSeed(), // copies get their own wobble
+                    x: el.x + offset.x,
+                    y: el.y + offset.y,
+                    createdAt: Date.now(),
+                    updatedAt: Date.now(),
+                };
+            });
+            remapCopiedReferences(newElements, idMap);
 
-            set((draft) => {
+            state.transact(describe('Paste', newElements.length), () => set((draft) => {
                 newElements.forEach((el) => {
                     draft.elements[el.id] = el;
                     draft.elementOrder.push(el.id);
                 });
                 draft.selectedIds = newElements.map((el) => el.id);
-            });
+            }));
         },
 
         // =====================================================================
         // Z-Order
         // =====================================================================
 
-        bringToFront: (ids) => set((draft) => {
+        bringToFront: (ids) => get().transact('Bring to front', () => set((draft) => {
             const remaining = draft.elementOrder.filter((id) => !ids.includes(id));
             draft.elementOrder = [...remaining, ...ids];
-        }),
+        })),
 
-        sendToBack: (ids) => set((draft) => {
+        sendToBack: (ids) => get().transact('Send to back', () => set((draft) => {
             const remaining = draft.elementOrder.filter((id) => !ids.includes(id));
             draft.elementOrder = [...ids, ...remaining];
-        }),
+        })),
 
-        bringForward: (ids) => set((draft) => {
+        bringForward: (ids) => get().transact('Bring forward', () => set((draft) => {
             ids.forEach((id) => {
                 const idx = draft.elementOrder.indexOf(id);
                 if (idx < draft.elementOrder.length - 1) {
@@ -494,9 +700,9 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
                         [draft.elementOrder[idx + 1], draft.elementOrder[idx]];
                 }
             });
-        }),
+        })),
 
-        sendBackward: (ids) => set((draft) => {
+        sendBackward: (ids) => get().transact('Send backward', () => set((draft) => {
             ids.forEach((id) => {
                 const idx = draft.elementOrder.indexOf(id);
                 if (idx > 0) {
@@ -504,7 +710,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
                         [draft.elementOrder[idx - 1], draft.elementOrder[idx]];
                 }
             });
-        }),
+        })),
 
         // =====================================================================
         // Grouping
@@ -512,23 +718,59 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
 
         group: (ids) => {
             const groupId = createId();
-            set((draft) => {
+            get().transact('Group', () => set((draft) => {
                 ids.forEach((id) => {
                     if (draft.elements[id]) {
                         draft.elements[id].groupId = groupId;
                     }
                 });
-            });
+            }));
             return groupId;
         },
 
-        ungroup: (groupId) => set((draft) => {
+        ungroup: (groupId) => get().transact('Ungroup', () => set((draft) => {
             Object.values(draft.elements).forEach((el) => {
                 if (el.groupId === groupId) {
                     el.groupId = undefined;
                 }
             });
-        }),
+        })),
+
+        // =====================================================================
+        // Frames
+        // =====================================================================
+
+        assignToFrames: (ids) => {
+            const state = get();
+            const frames = state.elementOrder
+                .map((id) => state.elements[id])
+                .filter((el): el is FrameElement => el?.type === 'frame');
+            if (frames.length === 0) return;
+
+            // Frame id -> updated childIds
+            const changed = new Map<string, string[]>();
+            const childIdsOf = (frame: FrameElement) => changed.get(frame.id) ?? frame.childIds;
+
+            ids.forEach((id) => {
+                // Connectors follow their bindings and are never clipped
+                const el = state.elements[id];
+                if (!el || el.type === 'frame' || el.type === 'connector') return;
+
+                const current = frames.find((f) => childIdsOf(f).includes(id));
+                const target = findContainingFrame(frames, el);
+                if (current?.id === target?.id) return;
+
+                if (current) changed.set(current.id, childIdsOf(current).filter((c) => c !== id));
+                if (target) changed.set(target.id, [...childIdsOf(target), id]);
+            });
+            if (changed.size === 0) return;
+
+            get().transact('Update frames', () => set((draft) => {
+                changed.forEach((childIds, frameId) => {
+                    (draft.elements[frameId] as FrameElement).childIds = childIds;
+                });
+            }));
+        },
 
         // =====================================================================
         // Alignment
@@ -542,7 +784,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
             const bounds = getElementsBounds(elements);
             if (!bounds) return;
 
-            set((draft) => {
+            get().transact(`Align ${alignment}`, () => set((draft) => {
                 elements.forEach((el) => {
                     switch (alignment) {
                         case 'left':
@@ -565,7 +807,8 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
                             break;
                     }
                 });
-            });
+                syncBindings(draft, ids);
+            }));
         },
 
         distributeElements: (ids, direction) => {
@@ -590,7 +833,7 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
 
             const gap = totalSpace / (sorted.length - 1);
 
-            set((draft) => {
+            get().transact(`Distribute ${direction}ly`, () => set((draft) => {
                 let pos = direction === 'horizontal' ? first.x : first.y;
                 sorted.forEach((el) => {
                     if (direction === 'horizontal') {
@@ -601,51 +844,566 @@ export const useCanvasStore = create<CanvasState & CanvasActions>()(
                         pos += el.height + gap;
                     }
                 });
-            });
+                syncBindings(draft, ids);
+            }));
         },
 
         // =====================================================================
         // Import/Export
         // =====================================================================
 
-        exportToJSON: () => {
-            const state = get();
-            return JSON.stringify({
-                version: 1,
-                elements: state.elements,
-                elementOrder: state.elementOrder,
-            }, null, 2);
-        },
+        // Image data is inlined so the file opens in other browsers
+        exportToJSON: () => serializeScene(
+            toElementMap(inlineImages(Object.values(get().elements))),
+            get().elementOrder
+        ),
 
         importFromJSON: (json) => {
-            try {
-                const data = JSON.parse(json);
-                set((draft) => {
-                    draft.elements = data.elements || {};
-                    draft.elementOrder = data.elementOrder || Object.keys(data.elements);
-                    draft.selectedIds = [];
-                    draft.history = [];
-                    draft.historyIndex = -1;
-                });
-            } catch (e) {
-                console.error('Failed to import JSON:', e);
-            }
+            const { scene, report } = parseSceneFile(json);
+            set((draft) => {
+                draft.elements = toElementMap(internImages(Object.values(scene.elements)));
+                draft.elementOrder = scene.elementOrder;
+                draft.selectedIds = [];
+                resetHistory(draft);
+            });
+            return report;
+        },
+
+        // Editable SVGs carry the exportToJSON payload in their metadata
+        importFromSVG: (svg) => get().importFromJSON(extractSceneFromSVG(svg)),
+
+        exportToMermaid: () => exportToMermaid(selectOrderedElements(get())),
+
+        exportToPlantUML: () => exportToPlantUML(selectOrderedElements(get())),
+
+        exportToDrawio: () => exportToDrawio(selectOrderedElements(get())),
+
+        importFromDrawio: async (xml) => {
+            const { elements, skipped } = await importFromDrawio(xml);
+            set((draft) => {
+                loadScene(draft, elements);
+                // draw.io leaves attached ends to the renderer, so the
+                // importer points them at centers; move them onto outlines
+                syncBindings(draft, draft.elementOrder);
+            });
+            return skipped;
+        },
+
+        exportToExcalidraw: () => exportToExcalidraw(selectOrderedElements(get())),
+
+        importFromExcalidraw: (json) => {
+            const elements = importFromExcalidraw(json);
+            set((draft) => {
+                loadScene(draft, elements);
+            });
         },
 
         clear: () => set((draft) => {
             draft.elements = {};
             draft.elementOrder = [];
             draft.selectedIds = [];
-            draft.history = [];
-            draft.historyIndex = -1;
+            resetHistory(draft);
+        }),
+
+        // Boards
+        loadBoards: async () => {
+            const boards = await boardStorage.listBoards();
+            set((draft) => { draft.boards = boards; });
+        },
+
+        openBoard: async (id) => {
+            if (get().boardId === id) return;
+
+            await get().saveCurrentBoard();
+            const snapshot = await boardStorage.loadBoard(id);
+            if (snapshot) {
+                const checkpointElements = (snapshot.checkpoints ?? []).flatMap((c) => Object.values(c.elements));
+                await loadImageFiles(getImageFileIds([...Object.values(snapshot.elements), ...checkpointElements]));
+            }
+            set((draft) => loadBoardDocument(draft, id, snapshot));
+        },
+
+        saveCurrentBoard: async (thumbnail) => {
+            const { boardId, boards, elements, elementOrder, transform, checkpoints } = get();
+            const info = boards.find((b) => b.id === boardId);
+            if (!info) return;
+
+            const now = Date.now();
+            const updated: BoardInfo = {
+                ...info,
+                updatedAt: now,
+                thumbnail: thumbnail === undefined ? info.thumbnail : thumbnail ?? undefined,
+            };
+            await boardStorage.saveBoard(updated, { elements, elementOrder, transform, checkpoints, savedAt: now });
+
+            set((draft) => {
+                draft.boards = [updated, ...draft.boards.filter((b) => b.id !== updated.id)];
+            });
+        },
+
+        createBoard: async (name = boardStorage.DEFAULT_BOARD_NAME, id = createId()) => {
+            await get().saveCurrentBoard();
+
+            const now = Date.now();
+            const info: BoardInfo = { id, name, createdAt: now, updatedAt: now };
+            await boardStorage.saveBoard(info, {
+                elements: {},
+                elementOrder: [],
+                transform: initialState.transform,
+                checkpoints: [],
+                savedAt: now,
+            });
+
+            set((draft) => {
+                draft.boards.unshift(info);
+                loadBoardDocument(draft, info.id);
+            });
+        },
+
+        renameBoard: async (id, name) => {
+            const info = get().boards.find((b) => b.id === id);
+            if (!info) return;
+
+            await boardStorage.saveBoard({ ...info, name });
+            set((draft) => {
+                const board = draft.boards.find((b) => b.id === id);
+                if (board) board.name = name;
+            });
+        },
+
+        setRenderer: async (renderer) => {
+            const { boardId, boards } = get();
+            const info = boards.find((b) => b.id === boardId);
+            if (!info) return;
+
+            await boardStorage.saveBoard({ ...info, renderer });
+            set((draft) => {
+                const board = draft.boards.find((b) => b.id === boardId);
+                if (board) board.renderer = renderer;
+            });
+        },
+
+        duplicateBoard: async (id) => {
+            if (id === get().boardId) await get().saveCurrentBoard();
+
+            const source = get().boards.find((b) => b.id === id);
+            if (!source) return;
+
+            const snapshot = await boardStorage.loadBoard(id);
+            const now = Date.now();
+            const copy: BoardInfo = {
+                ...source,
+                id: createId(),
+                name: `${source.name} (copy)`,
+                createdAt: now,
+                updatedAt: now,
+            };
+            await boardStorage.saveBoard(copy, snapshot && { ...snapshot, savedAt: now });
+
+            set((draft) => { draft.boards.unshift(copy); });
+        },
+
+        deleteBoard: async (id) => {
+            await boardStorage.deleteBoard(id);
+            set((draft) => { draft.boards = draft.boards.filter((b) => b.id !== id); });
+
+            // Never leave the workspace without an open board
+            if (get().boardId === id) {
+                const next = get().boards[0];
+                if (next) await get().openBoard(next.id);
+                else await get().createBoard();
+            }
+        },
+
+        // =====================================================================
+        // Collaboration
+        // =====================================================================
+
+        // The session itself lives outside the store (see collab-session.ts)
+        startCollaboration: () => set((draft) => {
+            if (draft.boardId && !draft.collaboration) {
+                draft.collaboration = { room: draft.boardId, status: 'connecting', pending: 0 };
+            }
+        }),
+
+        stopCollaboration: () => set((draft) => {
+            draft.collaboration = null;
+            clearCollaborators(draft);
+        }),
+
+        setCollaborationStatus: (status) => set((draft) => {
+            if (draft.collaboration) draft.collaboration.status = status;
+        }),
+
+        setPendingChanges: (count) => set((draft) => {
+            if (draft.collaboration) draft.collaboration.pending = count;
+        }),
+
+        applyRemoteChanges: (changes, elementOrder) => {
+            if (transaction) rebaseTransaction(transaction, get(), changes, elementOrder);
+            set((draft) => {
+                changes.forEach((element, id) => {
+                    if (element) draft.elements[id] = element;
+                    else delete draft.elements[id];
+                });
+                if (elementOrder) draft.elementOrder = elementOrder;
+                draft.selectedIds = draft.selectedIds.filter((id) => draft.elements[id]);
+                if (draft.hoveredId && !draft.elements[draft.hoveredId]) draft.hoveredId = null;
+            });
+        },
+
+        // The room's board replaces the local copy, whose history no
+        // longer applies to it
+        loadSharedDocument: (elements, elementOrder) => set((draft) => {
+            draft.elements = elements;
+            draft.elementOrder = elementOrder;
+            draft.selectedIds = [];
+            draft.hoveredId = null;
+            resetHistory(draft);
+        }),
+
+        setCollaboratorPresence: (presence) => set((draft) => {
+            draft.collaborators[presence.clientId] = presence;
+        }),
+
+        removeCollaborator: (clientId) => set((draft) => {
+            delete draft.collaborators[clientId];
+            if (draft.followingId === clientId) draft.followingId = null;
+        }),
+
+        followCollaborator: (clientId) => set((draft) => {
+            draft.followingId = clientId && draft.collaborators[clientId] ? clientId : null;
         }),
     }))
 );
 
+// =============================================================================
+// Transactions
+// =============================================================================
+
+interface Transaction {
+    label?: string;
+    depth: number; // open begins, counting nested ones
+    // The document at the outermost begin. Immer never mutates it, so
+    // holding the references is a snapshot
+    elements: Record<string, CanvasElement>;
+    elementOrder: string[];
+}
+
+let transaction: Transaction | null = null;
+
+// 'Delete 3 elements', 'Insert image'... for history labels
+function describe(action: string, count: number, noun = 'element'): string {
+    return count === 1 ? `${action} ${noun}` : `${action} ${count} ${noun}s`;
+}
+
+function isSameOrder(a: string[], b: string[]): boolean {
+    return a === b || (a.length === b.length && a.every((id, i) => id === b[i]));
+}
+
+// Fold remote changes into the transaction's starting point, so its
+// history entry holds only what was done here. Elements it has not
+// touched take the remote version, touched ones the fields that changed
+// remotely. Elements it added stay added
+function rebaseTransaction(
+    tx: Transaction,
+    { elements, elementOrder }: CanvasState,
+    changes: Map<string, CanvasElement | null>,
+    remoteOrder: string[] | null
+) {
+    const start = { ...tx.elements };
+    changes.forEach((remote, id) => {
+        const current = elements[id];
+        if (!remote) {
+            delete start[id];
+        } else if (current === start[id]) {
+            start[id] = remote;
+        } else if (current && start[id]) {
+            const changed = Object.keys({ ...current, ...remote }).filter((key) => fieldOf(remote, key) !== fieldOf(current, key));
+            start[id] = { ...start[id], ...pickFields(remote, changed) } as CanvasElement;
+        }
+    });
+    tx.elements = start;
+    if (remoteOrder && isSameOrder(tx.elementOrder, elementOrder)) tx.elementOrder = remoteOrder;
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+// Put back one side of an entry. Entries hold frozen snapshots, which are
+// inserted as they are while the element is as the entry left it. Edits
+// from collaborators since then are kept: only the fields the entry
+// changed are put back, and elements others deleted stay deleted
+function applyHistoryEntry(draft: CanvasState, entry: HistoryEntry, side: 'before' | 'after') {
+    const from = side === 'before' ? entry.after : entry.before;
+    entry.elementIds.forEach((id) => {
+        const element = entry[side][id];
+        const current = draft.elements[id];
+        if (element === null) {
+            delete draft.elements[id];
+            const idx = draft.elementOrder.indexOf(id);
+            if (idx !== -1) draft.elementOrder.splice(idx, 1);
+        } else if (from[id] && !current) {
+            return;
+        } else {
+            draft.elements[id] = !current || current === from[id] ? element : revertFields(current, from[id]!, element);
+            if (!draft.elementOrder.includes(id)) {
+                draft.elementOrder.push(id);
+            }
+        }
+    });
+    const order = side === 'before' ? entry.orderBefore : entry.orderAfter;
+    if (order) {
+        // Elements added or removed by others since are left where they are
+        const kept = order.filter((id) => draft.elements[id]);
+        const keptIds = new Set(kept);
+        draft.elementOrder = [...kept, ...draft.elementOrder.filter((id) => !keptIds.has(id))];
+    }
+    syncBindings(draft, entry.elementIds);
+}
+
+// `current` with the fields that differ between `from` and `to` set as in
+// `to`. Text merges, keeping what others typed around the change
+function revertFields(current: CanvasElement, from: CanvasElement, to: CanvasElement): CanvasElement {
+    const changed = Object.keys({ ...from, ...to }).filter((key) => fieldOf(from, key) !== fieldOf(to, key));
+    const reverted = { ...current, ...pickFields(to, changed) } as Record<string, unknown>;
+    changed.forEach((key) => {
+        if (fieldOf(to, key) === undefined) delete reverted[key];
+    });
+    if (changed.includes('text') && typeof fieldOf(current, 'text') === 'string') {
+        reverted.text = mergeTextEdits(
+            String(fieldOf(from, 'text') ?? ''),
+            String(fieldOf(to, 'text') ?? ''),
+            String(fieldOf(current, 'text'))
+        );
+    }
+    return reverted as unknown as CanvasElement;
+}
+
+// Next entry towards the tip of the current branch
+function findRedoEntry({ history, historyHead, historyTip }: CanvasState): HistoryEntry | undefined {
+    const branch = getHistoryPath(history, historyTip);
+    const headIndex = historyHead === null ? -1 : branch.findIndex((e) => e.id === historyHead);
+    return branch[headIndex + 1];
+}
+
+// Past MAX_HISTORY, drop the oldest entries the document can do without:
+// the ends of other branches, or the first entry on the way to the current
+// state, which leaves its state as the earliest undo reaches
+function trimHistory(draft: CanvasState) {
+    while (draft.history.length > MAX_HISTORY) {
+        const branch = getHistoryPath(draft.history, draft.historyTip);
+        const onBranch = new Set(branch.map((e) => e.id));
+        const parentIds = new Set(draft.history.map((e) => e.parentId));
+        // Fully undone, the first entry still holds the state to redo into
+        const first = draft.historyHead !== null ? branch[0] : undefined;
+        const oldest = draft.history.find((e) =>
+            e === first || (!onBranch.has(e.id) && !parentIds.has(e.id))
+        );
+        if (!oldest) return;
+
+        if (oldest === first) {
+            // Only what was built on the first entry stays reachable
+            const kept = getDescendantIds(draft.history, oldest.id);
+            draft.history = draft.history.filter((e) => kept.has(e.id));
+            draft.history.forEach((e) => {
+                if (e.parentId === oldest.id) e.parentId = null;
+            });
+        } else {
+            draft.history = draft.history.filter((e) => e !== oldest);
+        }
+    }
+}
+
+function resetHistory(draft: CanvasState) {
+    draft.history = [];
+    draft.historyHead = null;
+    draft.historyTip = null;
+}
+
+// =============================================================================
+// Spatial Index
+// =============================================================================
+
+// Element bounds, kept in step with the document by diffing every change
+// to `elements`, so edits, undo and loading a board are all covered.
+// Unchanged elements keep their identity, so only changed ones are re-indexed
+const spatialIndex = new SpatialIndex();
+
+useCanvasStore.subscribe((state, prev) => {
+    if (state.elements === prev.elements) return;
+    for (const id in prev.elements) {
+        if (!(id in state.elements)) spatialIndex.remove(id);
+    }
+    for (const id in state.elements) {
+        const el = state.elements[id];
+        if (el !== prev.elements[id]) spatialIndex.insert(id, getIndexBounds(el));
+    }
+});
+
+// Ids of elements that may be drawn within `area`, in no particular order.
+// Bounds are generous; callers test the actual geometry
+export function queryElementIds(area: Bounds): string[] {
+    return spatialIndex.search(area);
+}
+
+// Off-screen elements are culled from the DOM, which exports copy from.
+// Draw everything while `task` runs
+export async function withOffscreenRendered<T>(task: () => Promise<T>): Promise<T> {
+    const { setRenderOffscreen } = useCanvasStore.getState();
+    setRenderOffscreen(true);
+    try {
+        // One frame to commit, one more for renderers that draw in effects
+        await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+        return await task();
+    } finally {
+        setRenderOffscreen(false);
+    }
+}
+
+// Everything an element may paint: its outline with the stroke around
+// it, and for connectors the room their routes take to steer around shapes
+function getIndexBounds(el: CanvasElement): Bounds {
+    const bounds = getElementBounds(el);
+    const padding = el.type === 'connector'
+        ? MAX_ROUTE_DETOUR
+        : INDEX_PADDING + ('stroke' in el ? el.stroke.width : 0);
+    return {
+        x: bounds.x - padding,
+        y: bounds.y - padding,
+        width: bounds.width + padding * 2,
+        height: bounds.height + padding * 2,
+    };
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
+// Swap in another board's document, with the checkpoints saved along
+// with it. Undo history belongs to the board being left, so it is dropped
+// along with the selection, and sharing ends unless the board is the
+// shared one
+function loadBoardDocument(draft: CanvasState, boardId: string, snapshot?: boardStorage.BoardSnapshot) {
+    if (draft.collaboration?.room !== boardId) {
+        draft.collaboration = null;
+        clearCollaborators(draft);
+    }
+    draft.boardId = boardId;
+    // Boards saved before the file store keep image data inline
+    draft.elements = snapshot ? toElementMap(internImages(Object.values(snapshot.elements))) : {};
+    draft.elementOrder = snapshot?.elementOrder ?? [];
+    draft.transform = snapshot?.transform ?? initialState.transform;
+    draft.selectedIds = [];
+    draft.hoveredId = null;
+    resetHistory(draft);
+    draft.checkpoints = snapshot?.checkpoints ?? [];
+}
+
+function clearCollaborators(draft: CanvasState) {
+    draft.collaborators = {};
+    draft.followingId = null;
+}
+
+// Topmost frame containing the element's center
+function findContainingFrame(frames: FrameElement[], el: CanvasElement): FrameElement | undefined {
+    const bounds = getElementBounds(el);
+    const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    for (let i = frames.length - 1; i >= 0; i--) {
+        if (pointInBounds(center, frames[i])) return frames[i];
+    }
+    return undefined;
+}
+
+// Point copied frames and connectors at the copies of the elements they
+// reference, dropping references to elements that were not copied along
+// with them (a lone copied connector stays where it was pasted)
+function remapCopiedReferences(elements: CanvasElement[], idMap: Map<string, string>) {
+    const remap = (binding: Binding | undefined) =>
+        binding && idMap.has(binding.elementId) ? { ...binding, elementId: idMap.get(binding.elementId)! } : undefined;
+
+    elements.forEach((el) => {
+        if (el.type === 'frame') {
+            el.childIds = el.childIds.filter((id) => idMap.has(id)).map((id) => idMap.get(id)!);
+        }
+        if (el.type === 'connector') {
+            el.startBinding = remap(el.startBinding);
+            el.endBinding = remap(el.endBinding);
+        }
+    });
+}
+
+// Copy of an element without its references to removed elements, or
+// null if it has none. Arrows unbound this way stay where they are
+function detachFromRemoved(el: CanvasElement, removed: Set<string>): CanvasElement | null {
+    if (el.type === 'frame' && el.childIds.some((id) => removed.has(id))) {
+        return { ...el, childIds: el.childIds.filter((id) => !removed.has(id)) };
+    }
+    if (el.type === 'arrow' || el.type === 'connector') {
+        const startRemoved = !!el.startBinding && removed.has(el.startBinding.elementId);
+        const endRemoved = !!el.endBinding && removed.has(el.endBinding.elementId);
+        if (!startRemoved && !endRemoved) return null;
+
+        const updated = { ...el };
+        if (startRemoved) delete updated.startBinding;
+        if (endRemoved) delete updated.endBinding;
+        return updated;
+    }
+    return null;
+}
+
+// Move bound ends onto the shapes they are bound to. Connectors are also
+// re-resolved when they change themselves (route type, waypoints); arrows
+// only follow their shapes, so dragging an arrow is not undone here
+// Elements are replaced rather than mutated: undo and redo put frozen
+// history snapshots into the draft
+function syncBindings(draft: CanvasState, changedIds: string[]) {
+    const changed = new Set(changedIds);
+    Object.values(draft.elements).forEach((el) => {
+        if (el.type !== 'connector' && el.type !== 'arrow') return;
+        const targetChanged = (el.startBinding && changed.has(el.startBinding.elementId)) ||
+            (el.endBinding && changed.has(el.endBinding.elementId));
+
+        if (el.type === 'arrow') {
+            if (targetChanged) {
+                draft.elements[el.id] = { ...el, ...getLinearGeometry(resolveArrowPoints(el, draft.elements)) };
+            }
+            return;
+        }
+        if (!targetChanged && !changed.has(el.id)) return;
+
+        const { start, end } = resolveConnectorEnds(el, draft.elements);
+        draft.elements[el.id] = {
+            ...el,
+            x: start.point.x,
+            y: start.point.y,
+            width: end.point.x - start.point.x,
+            height: end.point.y - start.point.y,
+        };
+    });
+}
+
+function fieldOf(el: CanvasElement, key: string): unknown {
+    return (el as unknown as Record<string, unknown>)[key];
+}
+
+function pickFields(el: CanvasElement, keys: string[]): Partial<CanvasElement> {
+    return Object.fromEntries(keys.map((key) => [key, fieldOf(el, key)])) as Partial<CanvasElement>;
+}
+
+function toElementMap(elements: CanvasElement[]): Record<string, CanvasElement> {
+    return Object.fromEntries(elements.map((el) => [el.id, el]));
+}
+
+// Replace the document with imported elements, keeping their order
+function loadScene(draft: CanvasState, elements: CanvasElement[]) {
+    draft.elements = toElementMap(internImages(elements));
+    draft.elementOrder = elements.map((el) => el.id);
+    draft.selectedIds = [];
+    resetHistory(draft);
+}
+
 function getElementsBounds(elements: CanvasElement[]): Bounds | null {
     if (elements.length === 0) return null;
 
@@ -676,8 +1434,10 @@ export const selectElementOrder = (state: CanvasState) => state.elementOrder;
 export const selectSelectedIds = (state: CanvasState) => state.selectedIds;
 export const selectTransform = (state: CanvasState) => state.transform;
 export const selectActiveTool = (state: CanvasState) => state.activeTool;
-export const selectCanUndo = (state: CanvasState) => state.historyIndex >= 0;
-export const selectCanRedo = (state: CanvasState) => state.historyIndex < state.history.length - 1;
+export const selectCanUndo = (state: CanvasState) => state.historyHead !== null;
+export const selectCanRedo = (state: CanvasState) => findRedoEntry(state) !== undefined;
+export const selectRenderer = (state: CanvasState): RendererBackend =>
+    state.boards.find((b) => b.id === state.boardId)?.renderer ?? 'svg';
 
 export const selectSelectedElements = (state: CanvasState) =>
     state.selectedIds.map((id) => state.elements[id]).filter(Boolean);
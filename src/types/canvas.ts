@@ -62,6 +62,9 @@ export interface BaseElement {
     opacity: number;
     locked: boolean;
     groupId?: string;
+    seed?: number; // rough.js seed; absent on elements saved before seeds were stored
+    roughness?: number; // rough.js roughness override
+    bowing?: number; // rough.js bowing override
     zIndex: number;
     createdAt: number;
     updatedAt: number;
@@ -147,10 +150,11 @@ export interface TextElement extends BaseElement {
 // Image element
 export interface ImageElement extends BaseElement {
     type: 'image';
-    src: string; // base64 or URL
+    fileId?: string; // key into the local image file store
+    src?: string; // data URL or URL, for images kept outside the file store
     naturalWidth: number;
     naturalHeight: number;
-    crop?: { x: number; y: number; width: number; height: number };
+    crop?: { x: number; y: number; width: number; height: number }; // in natural pixels
 }
 
 // Frame element (container)
@@ -241,11 +245,65 @@ export type ResizeHandle =
 
 export interface HistoryEntry {
     id: string;
+    parentId: string | null; // entry this one was made on top of; null for the first
     timestamp: number;
     type: 'add' | 'update' | 'delete' | 'batch';
+    label?: string; // what the user did, e.g. 'Align left'
     elementIds: string[];
     before: Record<string, CanvasElement | null>;
     after: Record<string, CanvasElement | null>;
+    // Paint order around the change, when it moved
+    orderBefore?: string[];
+    orderAfter?: string[];
+}
+
+// A named copy of the document, kept however long the history grows
+export interface HistoryCheckpoint {
+    id: string;
+    name: string;
+    timestamp: number;
+    elements: Record<string, CanvasElement>;
+    elementOrder: string[];
+}
+
+// =============================================================================
+// Board Types
+// =============================================================================
+
+// How a board draws its elements: an SVG subtree per element, or one
+// <canvas> for boards too large for the DOM to keep up
+export type RendererBackend = 'svg' | 'canvas';
+
+export interface BoardInfo {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail?: string; // PNG data URL
+    renderer?: RendererBackend; // 'svg' when absent
+}
+
+// =============================================================================
+// Collaboration Types
+// =============================================================================
+
+export type CollabStatus = 'connecting' | 'connected' | 'offline';
+
+// A board shared with others, who edit it at the same time
+export interface Collaboration {
+    room: string; // the board id, which every replica shares
+    status: CollabStatus;
+    pending: number; // local changes the server has not acknowledged
+}
+
+// What collaborators see of each other
+export interface Presence {
+    clientId: string;
+    name: string;
+    color: string;
+    cursor: Point | null; // canvas coordinates; null while off the canvas
+    selectedIds: string[];
+    viewport: Bounds; // the canvas area on their screen
 }
 
 // =============================================================================
@@ -253,6 +311,10 @@ export interface HistoryEntry {
 // =============================================================================
 
 export interface CanvasState {
+    // Board
+    boardId: string | null;
+    boards: BoardInfo[]; // most recently updated first
+
     // Elements
     elements: Record<string, CanvasElement>;
     elementOrder: string[]; // z-order
@@ -280,14 +342,22 @@ export interface CanvasState {
     darkMode: boolean;
 
     // History
-    history: HistoryEntry[];
-    historyIndex: number;
+    history: HistoryEntry[]; // every entry, redo branches included, oldest first
+    historyHead: string | null; // entry the document is at; null before the first
+    historyTip: string | null; // end of the branch redo follows
+    checkpoints: HistoryCheckpoint[];
+
+    // Collaboration
+    collaboration: Collaboration | null; // null when editing alone
+    collaborators: Record<string, Presence>; // by client id, not including this one
+    followingId: string | null; // collaborator whose view this one mirrors
 
     // UI State
     isDrawing: boolean;
     isPanning: boolean;
     isResizing: boolean;
     resizeHandle: ResizeHandle | null;
+    renderOffscreen: boolean; // draw elements outside the viewport too, for exports
 
     // Clipboard
     clipboard: CanvasElement[];
@@ -301,6 +371,12 @@ export function createId(): string {
     return nanoid(10);
 }
 
+// Fixes an element's hand-drawn wobble for good, so it looks the same
+// after reloads and in exports
+export function createSeed(): number {
+    return Math.floor(Math.random() * 2 ** 31);
+}
+
 export function createBaseElement(type: ElementType, x: number, y: number): BaseElement {
     const now = Date.now();
     return {
@@ -313,6 +389,7 @@ export function createBaseElement(type: ElementType, x: number, y: number): Base
         rotation: 0,
         opacity: 1,
         locked: false,
+        seed: createSeed(),
         zIndex: now,
         createdAt: now,
         updatedAt: now,
@@ -0,0 +1,195 @@
+/**
+ * Bindings
+ *
+ * Where arrow ends attach to the shapes they are bound to. Attachment
+ * points follow the shape's outline, so ellipses, diamonds and triangles
+ * are met on their edge rather than on their bounding box
+ */
+
+import { ArrowElement, Binding, CanvasElement, Point } from '../types/canvas';
+import { distanceToSegment, getElementBounds, getElementOutline, intersectSegments, pointInPolygon } from './geometry';
+
+// Space left between an arrow tip and the outline it is bound to
+export const BINDING_GAP = 4;
+
+type ElementMap = Record<string, CanvasElement>;
+
+// Shapes arrows and connectors can attach to
+export function isBindable(el: CanvasElement): boolean {
+    switch (el.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle':
+        case 'text':
+        case 'sticky':
+        case 'image':
+            return true;
+        default:
+            return false;
+    }
+}
+
+export function getCenter(el: CanvasElement): Point {
+    const b = getElementBounds(el);
+    return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+// Topmost bindable element that contains p or whose outline is within
+// `distance` of it
+export function findBindingTarget(
+    elements: CanvasElement[],
+    p: Point,
+    distance: number,
+    excludeId?: string
+): CanvasElement | null {
+    for (let i = elements.length - 1; i >= 0; i--) {
+        const el = elements[i];
+        if (el.id === excludeId || !isBindable(el)) continue;
+
+        const outline = getElementOutline(el);
+        if (pointInPolygon(p, outline)) return el;
+        for (let j = 0; j < outline.length - 1; j++) {
+            if (distanceToSegment(p, outline[j], outline[j + 1]) <= distance) return el;
+        }
+    }
+    return null;
+}
+
+// =============================================================================
+// Focus
+// =============================================================================
+
+// An end approaching from `toward` aims at the shape's center, shifted
+// sideways by focus (-1 to 1) times the shape's half extent across the
+// approach direction
+function getAim(target: CanvasElement, focus: number, toward: Point) {
+    const b = getElementBounds(target);
+    const center = getCenter(target);
+    const dx = center.x - toward.x;
+    const dy = center.y - toward.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const perp = { x: -dy / length, y: dx / length };
+    const halfExtent = (Math.abs(perp.x) * b.width + Math.abs(perp.y) * b.height) / 2;
+    return { center, perp, halfExtent, point: { x: center.x + perp.x * focus * halfExtent, y: center.y + perp.y * focus * halfExtent } };
+}
+
+// Binding that keeps an end released at `point`, approached from
+// `toward`, pointing where it was released
+export function createBinding(target: CanvasElement, toward: Point, point: Point): Binding {
+    const { center, perp, halfExtent } = getAim(target, 0, toward);
+    const dx = point.x - toward.x;
+    const dy = point.y - toward.y;
+
+    // Where the release line crosses the focus axis (center + s * perp)
+    const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+    const denom = cross(perp, { x: dx, y: dy });
+    if (Math.abs(denom) < 1e-9 || halfExtent === 0) return { elementId: target.id, focus: 0, gap: BINDING_GAP };
+    const s = cross({ x: toward.x - center.x, y: toward.y - center.y }, { x: dx, y: dy }) / denom;
+
+    return {
+        elementId: target.id,
+        focus: Math.max(-1, Math.min(1, s / halfExtent)),
+        gap: BINDING_GAP,
+    };
+}
+
+// Point where an end approaching from `toward` meets the target's outline,
+// backed off by the binding's gap
+export function getBindingPoint(target: CanvasElement, binding: Binding, toward: Point): Point {
+    const b = getElementBounds(target);
+    const aim = getAim(target, binding.focus, toward).point;
+    const dx = aim.x - toward.x;
+    const dy = aim.y - toward.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return aim;
+
+    const dir = { x: dx / length, y: dy / length };
+    const reach = { x: aim.x + dir.x * (b.width + b.height), y: aim.y + dir.y * (b.width + b.height) };
+
+    // First crossing of the outline along toward -> aim -> beyond
+    const outline = getElementOutline(target);
+    let nearest: number | null = null;
+    for (let i = 0; i < outline.length - 1; i++) {
+        const hit = intersectSegments(toward, reach, outline[i], outline[i + 1]);
+        if (hit === null) continue;
+        const distance = hit * Math.hypot(reach.x - toward.x, reach.y - toward.y);
+        if (nearest === null || distance < nearest) nearest = distance;
+    }
+    if (nearest === null) return aim;
+
+    const distance = Math.max(0, nearest - binding.gap);
+    return { x: toward.x + dir.x * distance, y: toward.y + dir.y * distance };
+}
+
+// =============================================================================
+// Arrows
+// =============================================================================
+
+// The shape a bound end is attached to, if it still exists and takes bindings
+export function getBindingTarget(binding: Binding | undefined, elements: ElementMap): CanvasElement | undefined {
+    const target = binding && elements[binding.elementId];
+    return target && isBindable(target) ? target : undefined;
+}
+
+// Absolute arrow points with bound ends moved onto their shapes
+export function resolveArrowPoints(el: ArrowElement, elements: ElementMap): Point[] {
+    const points = el.points.map((p) => ({ x: el.x + p.x, y: el.y + p.y }));
+    if (points.length < 2) return points;
+
+    const last = points.length - 1;
+    const startTarget = getBindingTarget(el.startBinding, elements);
+    const endTarget = getBindingTarget(el.endBinding, elements);
+
+    if (startTarget) {
+        const toward = last > 1 ? points[1] : endTarget ? getCenter(endTarget) : points[last];
+        points[0] = getBindingPoint(startTarget, el.startBinding!, toward);
+    }
+    if (endTarget) {
+        points[last] = getBindingPoint(endTarget, el.endBinding!, points[last - 1]);
+    }
+    return points;
+}
+
+// Position, size and relative points of a linear element through the
+// given absolute points
+export function getLinearGeometry(points: Point[]) {
+    const minX = Math.min(...points.map((p) => p.x));
+    const minY = Math.min(...points.map((p) => p.y));
+    const maxX = Math.max(...points.map((p) => p.x));
+    const maxY = Math.max(...points.map((p) => p.y));
+
+    return {
+        x: minX,
+        y: minY,
+        width: Math.max(maxX - minX, 1),
+        height: Math.max(maxY - minY, 1),
+        points: points.map((p) => ({ x: p.x - minX, y: p.y - minY })),
+    };
+}
+
+// Bind (or unbind) one end of an arrow to whatever shape it was released
+// on, and move it onto that shape's outline
+export function bindArrowEnd(
+    arrow: ArrowElement,
+    end: 'start' | 'end',
+    elements: CanvasElement[],
+    distance: number
+): ArrowElement {
+    const points = arrow.points.map((p) => ({ x: arrow.x + p.x, y: arrow.y + p.y }));
+    if (points.length < 2) return arrow;
+
+    const index = end === 'start' ? 0 : points.length - 1;
+    const toward = points[end === 'start' ? 1 : points.length - 2];
+    const otherBinding = end === 'start' ? arrow.endBinding : arrow.startBinding;
+
+    // Both ends on the same shape would collapse the arrow
+    const target = findBindingTarget(elements, points[index], distance, otherBinding?.elementId);
+    const binding = target ? createBinding(target, toward, points[index]) : undefined;
+
+    const bound: ArrowElement = end === 'start'
+        ? { ...arrow, startBinding: binding }
+        : { ...arrow, endBinding: binding };
+    const byId = Object.fromEntries(elements.map((el) => [el.id, el]));
+    return { ...bound, ...getLinearGeometry(resolveArrowPoints(bound, byId)) };
+}
@@ -0,0 +1,276 @@
+/**
+ * Collaboration session
+ *
+ * Keeps the open board in step with a room. Local edits go out as ops as
+ * soon as the store changes, remote ops come back in through the CRDT
+ * document and land in the store without becoming undo steps, so undo
+ * only ever reverts this user's own edits. Presence (presence.ts) shares
+ * the transport.
+ *
+ * Every op, made here or received, is appended to the room's op log in
+ * IndexedDB first, so editing goes on offline: the log rebuilds the
+ * document on reload, and whatever the server has not acknowledged is
+ * sent again once it is back.
+ *
+ * Image data is not part of the document: elements only carry a file id.
+ * A file goes out the first time ops using it do, and files missing here
+ * are looked up in this browser's file store, then asked of the room
+ */
+
+import { useCanvasStore } from '../store/canvas-store';
+import { CanvasElement, createId } from '../types/canvas';
+import { CrdtDocument, DocOp } from './crdt-document';
+import { OpLogEntry, loadOpLog, putOpLogEntry, replaceOpLog } from './storage';
+import { addImageFile, getImageFile, getImageFileIds, loadImageFiles } from './images';
+import { SyncTransport } from './sync-transport';
+import { startPresence } from './presence';
+
+const COMPACT_AT = 500; // log entries; more are folded into a snapshot
+
+// Joins `room` over `transport`. Returns a function that leaves it
+export function startCollaborationSession(room: string, transport: SyncTransport): () => void {
+    const doc = new CrdtDocument(createId());
+    let nextSeq = 0;
+    let stopped = false;
+    let frame: number | undefined; // a publish is scheduled
+    let logSize = 0; // entries of the room in the log
+    let lastTime = 0; // of the newest entry
+    let compacting = false;
+    let loaded = false; // the log is replayed
+    // Sent seq -> local entry the server has not acknowledged. Entries of
+    // earlier sessions are sent under seqs of this one
+    const unacked = new Map<number, OpLogEntry>();
+    const sentFiles = new Set<string>();
+    const requestedFiles = new Set<string>();
+
+    const updatePending = () => useCanvasStore.getState().setPendingChanges(unacked.size);
+
+    const append = (ops: DocOp[], local: boolean): OpLogEntry => {
+        const entry: OpLogEntry = { room, clientId: doc.clientId, seq: nextSeq++, ops, local, acked: !local, time: Date.now() };
+        putOpLogEntry(entry).catch((e) => console.error('Failed to save ops:', e));
+        logSize++;
+        lastTime = entry.time;
+        scheduleCompaction();
+        return entry;
+    };
+
+    const sendFiles = (ops: DocOp[]) => {
+        getOpFileIds(ops).forEach((id) => {
+            const dataUrl = getImageFile(id);
+            if (!dataUrl || sentFiles.has(id)) return;
+            sentFiles.add(id);
+            transport.send({ type: 'file', id, dataUrl });
+        });
+    };
+
+    const send = (seq: number, entry: OpLogEntry) => {
+        sendFiles(entry.ops);
+        transport.send({ type: 'ops', ops: entry.ops, seq });
+    };
+
+    // Elements drawn from a file that just arrived are replaced by copies,
+    // which renderers see as changed
+    const refreshFile = (id: string) => {
+        const { elements, applyRemoteChanges } = useCanvasStore.getState();
+        const changes = new Map<string, CanvasElement | null>();
+        Object.values(elements).forEach((element) => {
+            if (element.type === 'image' && element.fileId === id) changes.set(element.id, { ...element });
+        });
+        if (changes.size > 0) applyRemoteChanges(changes, null);
+    };
+
+    const ensureFiles = (elements: (CanvasElement | null)[]) => {
+        const missing = getImageFileIds(elements.filter((el): el is CanvasElement => el !== null))
+            .filter((id) => !getImageFile(id) && !requestedFiles.has(id));
+        if (missing.length === 0) return;
+        missing.forEach((id) => requestedFiles.add(id));
+        loadImageFiles(missing)
+            .catch((e) => console.error('Failed to load images:', e))
+            .then(() => missing.forEach((id) => {
+                if (stopped) return;
+                if (getImageFile(id)) refreshFile(id);
+                else transport.send({ type: 'fileRequest', id });
+            }));
+    };
+
+    const receiveFile = (dataUrl: string) => {
+        const id = addImageFile(dataUrl);
+        requestedFiles.delete(id);
+        refreshFile(id);
+    };
+
+    const publish = () => {
+        const { elements, elementOrder } = useCanvasStore.getState();
+        const ops = doc.update(elements, elementOrder);
+        if (ops.length === 0) return;
+        const entry = append(ops, true);
+        unacked.set(entry.seq, entry);
+        send(entry.seq, entry);
+        updatePending();
+    };
+
+    const receive = (ops: DocOp[]) => {
+        const { elements, elementOrder, applied } = doc.apply(ops);
+        if (applied.length > 0) append(applied, false);
+        if (elements.size > 0 || elementOrder) {
+            useCanvasStore.getState().applyRemoteChanges(elements, elementOrder);
+        }
+        ensureFiles([...elements.values()]);
+    };
+
+    // The log holds edits the saved board may not have, if the page was
+    // closed before it was saved, and the other way round for edits made
+    // before the board was shared. Whichever is newer wins
+    const replay = async () => {
+        const entries = await loadOpLog(room).catch((e) => {
+            console.error('Failed to load the op log:', e);
+            return [] as OpLogEntry[];
+        });
+        if (stopped) return;
+        entries.forEach((entry) => doc.apply(entry.ops));
+        entries.forEach((entry) => {
+            if (!entry.acked) unacked.set(nextSeq++, entry);
+        });
+        logSize = entries.length;
+        lastTime = entries[entries.length - 1]?.time ?? 0;
+        loaded = true;
+
+        const { boardId, boards, loadSharedDocument } = useCanvasStore.getState();
+        const savedAt = boards.find((b) => b.id === boardId)?.updatedAt ?? 0;
+        if (entries.length > 0 && lastTime > savedAt) {
+            loadSharedDocument(doc.getElements(), doc.elementOrder);
+            ensureFiles(Object.values(doc.getElements()));
+        } else {
+            publish();
+        }
+        updatePending();
+        scheduleCompaction();
+    };
+
+    // The log becomes one snapshot of the document plus one entry with
+    // the local changes the server has not acknowledged, sent again under
+    // a new seq if several were folded into it. Only the latest value of each field is kept,
+    // so a long drag ends up as a single move
+    const compact = async () => {
+        const entries: OpLogEntry[] = [{
+            room, clientId: doc.clientId, seq: nextSeq++, ops: doc.getStateOps(), local: false, acked: true, time: lastTime,
+        }];
+        if (unacked.size === 1) {
+            entries.push(...unacked.values());
+        } else if (unacked.size > 1) {
+            const folded = new CrdtDocument(doc.clientId);
+            folded.apply([...unacked.values()].flatMap((entry) => entry.ops));
+            const pending: OpLogEntry = {
+                room, clientId: doc.clientId, seq: nextSeq++, ops: folded.getStateOps(), local: true, acked: false, time: lastTime,
+            };
+            unacked.clear();
+            unacked.set(pending.seq, pending);
+            entries.push(pending);
+            send(pending.seq, pending);
+            updatePending();
+        }
+        logSize = entries.length;
+        await replaceOpLog(room, entries);
+    };
+
+    const scheduleCompaction = () => {
+        if (logSize <= COMPACT_AT || compacting) return;
+        compacting = true;
+        queueMicrotask(() => compact()
+            .catch((e) => console.error('Failed to compact the op log:', e))
+            .finally(() => compacting = false));
+    };
+
+    // Whatever the room may be missing goes back; duplicates are harmless.
+    // An empty room lost its board (a server restart), so it gets all of it
+    const reconcile = (roomOps: DocOp[]) => {
+        if (roomOps.length === 0 && doc.elementOrder.length > 0) {
+            const ops = doc.getStateOps();
+            sentFiles.clear();
+            sendFiles(ops);
+            transport.send({ type: 'ops', ops });
+        }
+        unacked.forEach((entry, seq) => send(seq, entry));
+        // Asked again, someone who has them may have joined since
+        requestedFiles.clear();
+        ensureFiles(Object.values(useCanvasStore.getState().elements));
+    };
+
+    const acknowledge = (seq: number) => {
+        const entry = unacked.get(seq);
+        if (!entry) return;
+        unacked.delete(seq);
+        putOpLogEntry({ ...entry, acked: true }).catch((e) => console.error('Failed to save ops:', e));
+        updatePending();
+    };
+
+    // Nothing is handled before the log is replayed, in arrival order
+    const ready = replay().catch((e) => console.error('Failed to replay the op log:', e));
+
+    transport.onStatus((status) => {
+        useCanvasStore.getState().setCollaborationStatus(status);
+        if (status !== 'connected') return;
+        ready.then(() => {
+            if (!stopped) transport.send({ type: 'join', room, clientId: doc.clientId });
+        });
+    });
+
+    const stopPresence = startPresence(transport, doc.clientId);
+
+    transport.onMessage((message) => ready.then(() => {
+        if (stopped) return;
+        switch (message.type) {
+            case 'join':
+                // Without a server, whoever is already in answers
+                transport.send({ type: 'sync', ops: doc.getStateOps() });
+                break;
+            case 'sync':
+                receive(message.ops);
+                reconcile(message.ops);
+                break;
+            case 'ops':
+                receive(message.ops);
+                break;
+            case 'ack':
+                acknowledge(message.seq);
+                break;
+            case 'file':
+                receiveFile(message.dataUrl);
+                break;
+            case 'fileRequest': {
+                const dataUrl = getImageFile(message.id);
+                if (dataUrl) transport.send({ type: 'file', id: message.id, dataUrl });
+                break;
+            }
+        }
+    }));
+
+    // At most once a frame, so a drag is not a message per pointer move.
+    // Remote changes land as the document's own objects, so publishing
+    // after them finds nothing to send
+    const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+        if (state.elements === prev.elements && state.elementOrder === prev.elementOrder) return;
+        frame ??= requestAnimationFrame(() => ready.then(() => {
+            frame = undefined;
+            if (!stopped) publish();
+        }));
+    });
+
+    return () => {
+        // Whatever changed since the last frame still makes it into the log
+        if (frame !== undefined) {
+            cancelAnimationFrame(frame);
+            if (loaded) publish();
+        }
+        stopped = true;
+        unsubscribe();
+        stopPresence();
+        transport.close();
+    };
+}
+
+// Files that elements set by `ops` are drawn from
+function getOpFileIds(ops: DocOp[]): string[] {
+    const ids = ops.flatMap((op) => (op.type === 'set' && typeof op.values.fileId === 'string' ? [op.values.fileId] : []));
+    return [...new Set(ids)];
+}
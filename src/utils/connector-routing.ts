@@ -0,0 +1,503 @@
+/**
+ * Connector routing
+ *
+ * Resolves connector ends against the shapes they are bound to and
+ * computes their routes. A connector runs from (x, y) to
+ * (x + width, y + height) through absolute waypoints; elbow routes are
+ * orthogonal and steer around other shapes
+ */
+
+import { Binding, Bounds, CanvasElement, ConnectorElement, Point } from '../types/canvas';
+import { boundsOverlap, getElementBounds, getElementOutline, intersectSegments } from './geometry';
+import { getBindingTarget, getCenter, isBindable } from './binding';
+
+// Clearance kept around shapes by elbow routes
+const ROUTE_MARGIN = 20;
+// Extra length charged per bend, so routes prefer fewer corners
+const BEND_PENALTY = 40;
+// Obstacles further than this from a leg's endpoints are ignored
+const SEARCH_PADDING = 300;
+// Roughly how far a route may stray from the connector's own points
+export const MAX_ROUTE_DETOUR = SEARCH_PADDING + ROUTE_MARGIN;
+
+export type Side = 'top' | 'right' | 'bottom' | 'left';
+
+export interface ConnectorEnd {
+    point: Point;
+    side?: Side; // set when bound with an elbow route
+}
+
+type ElementMap = Record<string, CanvasElement>;
+
+// Ids of elements that may lie within an area, e.g. from the store's
+// spatial index. Without one, routes look at every element
+export type ElementQuery = (area: Bounds) => string[];
+
+// =============================================================================
+// Ends
+// =============================================================================
+
+// Where the connector meets its bound shapes (or its stored endpoints,
+// for ends that are not bound to an existing element)
+export function resolveConnectorEnds(el: ConnectorElement, elements: ElementMap) {
+    const startTarget = getBindingTarget(el.startBinding, elements);
+    const endTarget = getBindingTarget(el.endBinding, elements);
+
+    const storedStart = { x: el.x, y: el.y };
+    const storedEnd = { x: el.x + el.width, y: el.y + el.height };
+
+    const startToward = el.waypoints[0] ?? (endTarget ? getCenter(endTarget) : storedEnd);
+    const endToward = el.waypoints[el.waypoints.length - 1] ?? (startTarget ? getCenter(startTarget) : storedStart);
+
+    const start: ConnectorEnd = startTarget
+        ? getBoundEnd(startTarget, el.startBinding!, startToward, el.routeType)
+        : { point: storedStart };
+    const end: ConnectorEnd = endTarget
+        ? getBoundEnd(endTarget, el.endBinding!, endToward, el.routeType)
+        : { point: storedEnd };
+
+    return { start, end };
+}
+
+// Point on the target's edge facing `toward`. Elbow ends leave from the
+// middle of a side, shifted along it by the binding's focus; other
+// routes aim straight out of the shape's center
+export function getBoundEnd(
+    target: CanvasElement,
+    binding: Binding,
+    toward: Point,
+    routeType: ConnectorElement['routeType']
+): ConnectorEnd {
+    const b = getElementBounds(target);
+    const center = getCenter(target);
+
+    if (routeType === 'elbow') {
+        const side = getFacingSide(b, toward);
+        const focus = Math.max(-1, Math.min(1, binding.focus));
+        switch (side) {
+            case 'top':
+                return { side, point: { x: center.x + focus * b.width / 2, y: b.y - binding.gap } };
+            case 'bottom':
+                return { side, point: { x: center.x + focus * b.width / 2, y: b.y + b.height + binding.gap } };
+            case 'left':
+                return { side, point: { x: b.x - binding.gap, y: center.y + focus * b.height / 2 } };
+            case 'right':
+                return { side, point: { x: b.x + b.width + binding.gap, y: center.y + focus * b.height / 2 } };
+        }
+    }
+
+    const dx = toward.x - center.x;
+    const dy = toward.y - center.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return { point: center };
+
+    // Walk the outline for the farthest crossing of the center ray
+    const reach = { x: center.x + (dx / length) * (b.width + b.height), y: center.y + (dy / length) * (b.width + b.height) };
+    const outline = getElementOutline(target);
+    let distance = Math.min(b.width, b.height) / 2;
+    for (let i = 0; i < outline.length - 1; i++) {
+        const hit = intersectSegments(center, reach, outline[i], outline[i + 1]);
+        if (hit !== null) distance = Math.max(distance, hit * (b.width + b.height));
+    }
+    distance += binding.gap;
+    return { point: { x: center.x + (dx / length) * distance, y: center.y + (dy / length) * distance } };
+}
+
+// Side whose outward direction points most toward p, relative to the
+// shape's proportions
+function getFacingSide(b: Bounds, p: Point): Side {
+    const nx = (p.x - (b.x + b.width / 2)) / Math.max(b.width / 2, 1);
+    const ny = (p.y - (b.y + b.height / 2)) / Math.max(b.height / 2, 1);
+    if (Math.abs(nx) > Math.abs(ny)) return nx > 0 ? 'right' : 'left';
+    return ny > 0 ? 'bottom' : 'top';
+}
+
+// =============================================================================
+// Routes
+// =============================================================================
+
+// The connector's drawn polyline, split into one leg per pair of
+// consecutive control points (ends and waypoints)
+export function routeConnectorLegs(el: ConnectorElement, elements: ElementMap, query?: ElementQuery): Point[][] {
+    const { start, end } = resolveConnectorEnds(el, elements);
+    const controls = [start.point, ...el.waypoints, end.point];
+
+    if (el.routeType !== 'elbow') {
+        return controls.slice(1).map((p, i) => [controls[i], p]);
+    }
+
+    // Elbow routes steer around anything a connector could attach to
+    const getObstacles = (area: Bounds) => (query ? query(inflate(area, ROUTE_MARGIN)) : Object.keys(elements))
+        .map((id) => elements[id])
+        .filter((other) => other && other.id !== el.id && isBindable(other))
+        .map((other) => inflate(getElementBounds(other), ROUTE_MARGIN));
+
+    return controls.slice(1).map((to, i) => {
+        const from = controls[i];
+        const fromSide = i === 0 ? start.side : undefined;
+        const toSide = i === controls.length - 2 ? end.side : undefined;
+        return routeOrthogonal(from, fromSide, to, toSide, getObstacles);
+    });
+}
+
+export function routeConnector(el: ConnectorElement, elements: ElementMap, query?: ElementQuery): Point[] {
+    const legs = routeConnectorLegs(el, elements, query);
+    return simplify(legs.flatMap((leg, i) => (i === 0 ? leg : leg.slice(1))));
+}
+
+// Routes of all connectors, kept from one call to the next. A connector
+// is routed again only when it changed, a shape it is bound to changed,
+// or an element changed within the area its route searches
+export class ConnectorRouter {
+    private elements: ElementMap = {};
+    private routes = new Map<string, { route: Point[]; area: Bounds }>();
+
+    constructor(private readonly query?: ElementQuery) { }
+
+    update(elements: ElementMap): Map<string, Point[]> {
+        const prev = this.elements;
+        const changedIds = new Set<string>();
+        const changed: Bounds[] = []; // before and after
+        for (const id in elements) {
+            if (elements[id] === prev[id]) continue;
+            changedIds.add(id);
+            changed.push(getElementBounds(elements[id]));
+            if (prev[id]) changed.push(getElementBounds(prev[id]));
+        }
+        for (const id in prev) {
+            if (elements[id]) continue;
+            changedIds.add(id);
+            changed.push(getElementBounds(prev[id]));
+        }
+
+        const next = new Map<string, { route: Point[]; area: Bounds }>();
+        for (const id in elements) {
+            const el = elements[id];
+            if (el.type !== 'connector') continue;
+            const cached = this.routes.get(id);
+            const stale = !cached || changedIds.has(id) ||
+                changedIds.has(el.startBinding?.elementId ?? '') || changedIds.has(el.endBinding?.elementId ?? '') ||
+                changed.some((b) => boundsOverlap(b, cached.area));
+            next.set(id, stale ? this.route(el, elements) : cached);
+        }
+
+        this.elements = elements;
+        this.routes = next;
+        return new Map([...next].map(([id, { route }]) => [id, route]));
+    }
+
+    private route(el: ConnectorElement, elements: ElementMap) {
+        const { start, end } = resolveConnectorEnds(el, elements);
+        // Every leg searches within this much of its ends
+        const area = inflate(boundsOf([start.point, ...el.waypoints, end.point]), MAX_ROUTE_DETOUR + ROUTE_MARGIN);
+        return { route: routeConnector(el, elements, this.query), area };
+    }
+}
+
+// SVG path for a route. Curved routes pass through every point on a
+// Catmull-Rom spline
+export function getRoutePath(route: Point[], routeType: ConnectorElement['routeType']): string {
+    if (route.length === 0) return '';
+    let d = `M ${route[0].x} ${route[0].y}`;
+
+    if (routeType !== 'curved' || route.length < 3) {
+        route.slice(1).forEach((p) => { d += ` L ${p.x} ${p.y}`; });
+        return d;
+    }
+
+    for (let i = 0; i < route.length - 1; i++) {
+        const p0 = route[Math.max(0, i - 1)];
+        const p1 = route[i];
+        const p2 = route[i + 1];
+        const p3 = route[Math.min(route.length - 1, i + 2)];
+        const c1 = { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 };
+        const c2 = { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 };
+        d += ` C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${p2.x} ${p2.y}`;
+    }
+    return d;
+}
+
+// Point halfway along a polyline, by length
+export function getPolylineMidpoint(points: Point[]): Point {
+    let total = 0;
+    for (let i = 0; i < points.length - 1; i++) {
+        total += Math.hypot(points[i + 1].x - points[i].x, points[i + 1].y - points[i].y);
+    }
+
+    let remaining = total / 2;
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (length >= remaining && length > 0) {
+            const t = remaining / length;
+            return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+        }
+        remaining -= length;
+    }
+    return points[0];
+}
+
+// =============================================================================
+// Orthogonal Router
+// =============================================================================
+
+// A* over a sparse grid built from obstacle edges and the leg's
+// endpoints. Bound ends first step out of their shape by the margin, so
+// the route leaves and enters perpendicular to the side
+const DIRECTIONS = [
+    { dx: 1, dy: 0 },
+    { dx: -1, dy: 0 },
+    { dx: 0, dy: 1 },
+    { dx: 0, dy: -1 },
+];
+
+const SIDE_VECTORS: Record<Side, Point> = {
+    top: { x: 0, y: -1 },
+    right: { x: 1, y: 0 },
+    bottom: { x: 0, y: 1 },
+    left: { x: -1, y: 0 },
+};
+
+function routeOrthogonal(
+    from: Point,
+    fromSide: Side | undefined,
+    to: Point,
+    toSide: Side | undefined,
+    getObstacles: (area: Bounds) => Bounds[]
+): Point[] {
+    const source = fromSide ? offset(from, fromSide, ROUTE_MARGIN) : from;
+    const target = toSide ? offset(to, toSide, ROUTE_MARGIN) : to;
+
+    // Obstacles near the leg that do not swallow its own endpoints
+    const area = inflate(boundsOf([source, target]), SEARCH_PADDING);
+    const obstacles = getObstacles(area).filter((o) =>
+        boundsOverlap(o, area) && !strictlyInside(source, o) && !strictlyInside(target, o)
+    );
+
+    const path = findPath(source, fromSide, target, toSide, obstacles) ?? fallbackElbow(source, fromSide, target);
+    return simplify([from, ...path, to]);
+}
+
+function findPath(
+    source: Point,
+    fromSide: Side | undefined,
+    target: Point,
+    toSide: Side | undefined,
+    obstacles: Bounds[]
+): Point[] | null {
+    const xs = uniqueSorted([
+        source.x, target.x, (source.x + target.x) / 2,
+        ...obstacles.flatMap((o) => [o.x, o.x + o.width]),
+    ]);
+    const ys = uniqueSorted([
+        source.y, target.y, (source.y + target.y) / 2,
+        ...obstacles.flatMap((o) => [o.y, o.y + o.height]),
+    ]);
+
+    const { nodes, rightSegments, downSegments } = markBlocked(xs, ys, obstacles);
+    const cellOf = (ix: number, iy: number) => iy * xs.length + ix;
+    const isBlocked = (ix: number, iy: number, nx: number, ny: number) => {
+        if (nodes[cellOf(nx, ny)]) return true;
+        if (ny === iy) return rightSegments[cellOf(Math.min(ix, nx), iy)] === 1;
+        return downSegments[cellOf(ix, Math.min(iy, ny))] === 1;
+    };
+
+    const sx = xs.indexOf(source.x), sy = ys.indexOf(source.y);
+    const tx = xs.indexOf(target.x), ty = ys.indexOf(target.y);
+
+    // State: grid cell plus the direction it was entered in (-1 = none)
+    const key = (ix: number, iy: number, dir: number) => cellOf(ix, iy) * 5 + dir + 1;
+    const startDir = fromSide ? directionOf(SIDE_VECTORS[fromSide]) : -1;
+    const endDir = toSide ? directionOf({ x: -SIDE_VECTORS[toSide].x, y: -SIDE_VECTORS[toSide].y }) : -1;
+
+    const heuristic = (ix: number, iy: number) => Math.abs(xs[ix] - target.x) + Math.abs(ys[iy] - target.y);
+    const cost = new Map<number, number>();
+    const parent = new Map<number, number>();
+    const closed = new Set<number>();
+    const open = new MinHeap();
+
+    const startKey = key(sx, sy, startDir);
+    cost.set(startKey, 0);
+    open.push(startKey, heuristic(sx, sy));
+
+    while (open.size > 0) {
+        const current = open.pop();
+        const dir = (current % 5) - 1;
+        const cell = (current - dir - 1) / 5;
+        const ix = cell % xs.length;
+        const iy = Math.floor(cell / xs.length);
+        const g = cost.get(current)!;
+        if (closed.has(current)) continue;
+        closed.add(current);
+
+        if (ix === tx && iy === ty) {
+            // Arriving against the end side would need one more bend
+            if (endDir === -1 || dir === endDir || dir === -1) return unwind(current, parent, xs, ys);
+        }
+
+        DIRECTIONS.forEach(({ dx, dy }, nextDir) => {
+            const nx = ix + dx;
+            const ny = iy + dy;
+            if (nx < 0 || ny < 0 || nx >= xs.length || ny >= ys.length) return;
+
+            if (isBlocked(ix, iy, nx, ny)) return;
+
+            let step = Math.abs(xs[nx] - xs[ix]) + Math.abs(ys[ny] - ys[iy]);
+            if (dir !== -1 && dir !== nextDir) step += BEND_PENALTY;
+            if (nx === tx && ny === ty && endDir !== -1 && nextDir !== endDir) step += BEND_PENALTY;
+
+            const next = key(nx, ny, nextDir);
+            const nextCost = g + step;
+            if (nextCost < (cost.get(next) ?? Infinity)) {
+                cost.set(next, nextCost);
+                parent.set(next, current);
+                open.push(next, nextCost + heuristic(nx, ny));
+            }
+        });
+    }
+
+    return null;
+}
+
+// Grid nodes strictly inside an obstacle, and grid segments (to the next
+// node right or down) that pass through one. Obstacle edges are grid
+// lines, so a segment is either wholly inside an obstacle or outside it
+function markBlocked(xs: number[], ys: number[], obstacles: Bounds[]) {
+    const size = xs.length * ys.length;
+    const nodes = new Uint8Array(size);
+    const rightSegments = new Uint8Array(size);
+    const downSegments = new Uint8Array(size);
+    const xIndex = new Map(xs.map((x, i) => [x, i]));
+    const yIndex = new Map(ys.map((y, i) => [y, i]));
+
+    obstacles.forEach((o) => {
+        const i0 = xIndex.get(o.x)!, i1 = xIndex.get(o.x + o.width)!;
+        const j0 = yIndex.get(o.y)!, j1 = yIndex.get(o.y + o.height)!;
+        for (let iy = j0; iy <= j1; iy++) {
+            for (let ix = i0; ix <= i1; ix++) {
+                const cell = iy * xs.length + ix;
+                const insideX = ix > i0 && ix < i1;
+                const insideY = iy > j0 && iy < j1;
+                if (insideX && insideY) nodes[cell] = 1;
+                if (insideY && ix < i1) rightSegments[cell] = 1;
+                if (insideX && iy < j1) downSegments[cell] = 1;
+            }
+        }
+    });
+
+    return { nodes, rightSegments, downSegments };
+}
+
+function unwind(state: number, parent: Map<number, number>, xs: number[], ys: number[]): Point[] {
+    const points: Point[] = [];
+    let current: number | undefined = state;
+    while (current !== undefined) {
+        const dir = (current % 5) - 1;
+        const cell = (current - dir - 1) / 5;
+        points.unshift({ x: xs[cell % xs.length], y: ys[Math.floor(cell / xs.length)] });
+        current = parent.get(current);
+    }
+    return points;
+}
+
+// Used when the grid has no way through: a plain two-bend elbow
+function fallbackElbow(source: Point, fromSide: Side | undefined, target: Point): Point[] {
+    if (fromSide === 'top' || fromSide === 'bottom') {
+        const midY = (source.y + target.y) / 2;
+        return [source, { x: source.x, y: midY }, { x: target.x, y: midY }, target];
+    }
+    const midX = (source.x + target.x) / 2;
+    return [source, { x: midX, y: source.y }, { x: midX, y: target.y }, target];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function directionOf(v: Point): number {
+    return DIRECTIONS.findIndex((d) => d.dx === v.x && d.dy === v.y);
+}
+
+function offset(p: Point, side: Side, distance: number): Point {
+    const v = SIDE_VECTORS[side];
+    return { x: p.x + v.x * distance, y: p.y + v.y * distance };
+}
+
+function inflate(b: Bounds, margin: number): Bounds {
+    return { x: b.x - margin, y: b.y - margin, width: b.width + margin * 2, height: b.height + margin * 2 };
+}
+
+function boundsOf(points: Point[]): Bounds {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function strictlyInside(p: Point, b: Bounds): boolean {
+    return p.x > b.x && p.x < b.x + b.width && p.y > b.y && p.y < b.y + b.height;
+}
+
+function uniqueSorted(values: number[]): number[] {
+    return [...new Set(values)].sort((a, b) => a - b);
+}
+
+// Drop repeated points and the middle of collinear runs
+function simplify(points: Point[]): Point[] {
+    const result: Point[] = [];
+    points.forEach((p) => {
+        const last = result[result.length - 1];
+        if (last && last.x === p.x && last.y === p.y) return;
+        const prev = result[result.length - 2];
+        if (prev && last && (prev.x - last.x) * (last.y - p.y) === (prev.y - last.y) * (last.x - p.x)) {
+            result[result.length - 1] = p;
+            return;
+        }
+        result.push(p);
+    });
+    return result;
+}
+
+// Binary heap of numeric keys ordered by priority
+class MinHeap {
+    private items: { key: number; priority: number }[] = [];
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(key: number, priority: number) {
+        const items = this.items;
+        items.push({ key, priority });
+        let i = items.length - 1;
+        while (i > 0) {
+            const up = (i - 1) >> 1;
+            if (items[up].priority <= items[i].priority) break;
+            [items[up], items[i]] = [items[i], items[up]];
+            i = up;
+        }
+    }
+
+    pop(): number {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = i * 2 + 1;
+                const r = l + 1;
+                let min = i;
+                if (l < items.length && items[l].priority < items[min].priority) min = l;
+                if (r < items.length && items[r].priority < items[min].priority) min = r;
+                if (min === i) break;
+                [items[min], items[i]] = [items[i], items[min]];
+                i = min;
+            }
+        }
+        return top.key;
+    }
+}
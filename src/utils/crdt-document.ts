@@ -0,0 +1,444 @@
+/**
+ * CRDT document
+ *
+ * A board's elements and paint order as a replicated document. Every
+ * element field is a last-writer-wins register ordered by Lamport stamps,
+ * so concurrent moves of one element settle on the same position
+ * everywhere. Text is a character sequence (RGA), so people editing the
+ * same label keep each other's characters. Paint order is a fractional
+ * key per element. Ops can be applied in any order and any number of
+ * times, and every replica ends up with the same board
+ */
+
+import { CanvasElement } from '../types/canvas';
+
+// Lamport clock value, with the client id breaking ties
+export interface Stamp {
+    clock: number;
+    client: string;
+}
+
+type InsertOp = { type: 'insert'; id: string; char: Stamp; after: Stamp | null; value: string };
+
+export type DocOp =
+    | { type: 'set'; id: string; stamp: Stamp; values: Record<string, unknown> }
+    | InsertOp
+    | { type: 'remove'; id: string; chars: Stamp[] };
+
+// Registers besides the element's own fields
+const DELETED = '$deleted';
+const ORDER = '$order';
+// The one field kept as a character sequence
+const TEXT = 'text';
+
+interface Register {
+    value: unknown;
+    stamp: Stamp;
+}
+
+interface Char {
+    id: Stamp;
+    after: Stamp | null; // the character it was typed after
+    value: string;
+    removed: boolean;
+}
+
+interface ElementRecord {
+    fields: Map<string, Register>;
+    text: Char[] | null; // null until the element has text
+    removedChars: Set<string>; // removals that arrived before their insert
+    waiting: Map<string, InsertOp[]>; // inserts that arrived before the character they follow
+}
+
+export interface DocChanges {
+    elements: Map<string, CanvasElement | null>; // null when removed
+    elementOrder: string[] | null; // null when unchanged
+    applied: DocOp[]; // the ops that were new here
+}
+
+// What an op did: nothing (already applied), changed the document, or
+// was held until an op it depends on arrives
+type OpEffect = 'none' | 'changed' | 'held';
+
+export class CrdtDocument {
+    private clock = 0;
+    private records = new Map<string, ElementRecord>();
+    // Element id -> its materialized element, the same object the store
+    // holds, so unchanged elements are skipped by identity
+    private views = new Map<string, CanvasElement | null>();
+    private order: string[] = [];
+    private orderDirty = false; // an element's key, or whether it exists, changed
+
+    constructor(readonly clientId: string) { }
+
+    get elementOrder(): string[] {
+        return this.order;
+    }
+
+    getElements(): Record<string, CanvasElement> {
+        const elements: Record<string, CanvasElement> = {};
+        this.order.forEach((id) => {
+            const element = this.views.get(id);
+            if (element) elements[id] = element;
+        });
+        return elements;
+    }
+
+    // Ops from other replicas. Returns what changed, to apply to the store
+    apply(ops: DocOp[]): DocChanges {
+        const dirty = new Set<string>();
+        const applied: DocOp[] = [];
+        ops.forEach((op) => {
+            const effect = this.applyOp(op);
+            if (effect !== 'none') applied.push(op);
+            if (effect === 'changed') dirty.add(op.id);
+        });
+
+        const elements = new Map<string, CanvasElement | null>();
+        dirty.forEach((id) => {
+            const element = this.materialize(id);
+            this.views.set(id, element);
+            elements.set(id, element);
+        });
+
+        const orderChanged = this.orderDirty;
+        this.orderDirty = false;
+        return { elements, elementOrder: orderChanged ? this.updateOrder() : null, applied };
+    }
+
+    // Ops that bring the document up to the local store. Only elements
+    // whose object changed since the last update or apply are compared
+    update(elements: Record<string, CanvasElement>, elementOrder: string[]): DocOp[] {
+        const orderKeys = elementOrder === this.order ? new Map<string, string>() : this.assignOrderKeys(elementOrder);
+        const ops: DocOp[] = [];
+
+        const ids = new Set([...orderKeys.keys()]);
+        for (const id in elements) {
+            if (elements[id] !== this.views.get(id)) ids.add(id);
+        }
+        this.views.forEach((view, id) => {
+            if (view && !elements[id]) ids.add(id);
+        });
+
+        ids.forEach((id) => {
+            const element = elements[id] ?? null;
+            const record = this.records.get(id);
+            const values: Record<string, unknown> = {};
+
+            if (!element) {
+                values[DELETED] = true;
+            } else {
+                if (record?.fields.get(DELETED)?.value === true) values[DELETED] = false;
+                const keys = new Set([...Object.keys(element), ...(record?.fields.keys() ?? [])]);
+                keys.forEach((key) => {
+                    if (key === TEXT || key.startsWith('$')) return;
+                    const value = (element as unknown as Record<string, unknown>)[key] ?? null;
+                    if (!isEqual(record?.fields.get(key)?.value ?? null, value)) values[key] = value;
+                });
+            }
+            const key = orderKeys.get(id);
+            if (key !== undefined) values[ORDER] = key;
+
+            if (Object.keys(values).length > 0) {
+                ops.push({ type: 'set', id, stamp: this.tick(), values });
+            }
+            if (element && 'text' in element && typeof element.text === 'string') {
+                ops.push(...this.diffText(id, element.text));
+            }
+        });
+
+        ops.forEach((op) => this.applyOp(op));
+        ids.forEach((id) => this.views.set(id, elements[id] ?? null));
+        this.order = elementOrder;
+        this.orderDirty = false;
+        return ops;
+    }
+
+    // The whole document as ops, for a replica that may have missed some
+    getStateOps(): DocOp[] {
+        const ops: DocOp[] = [];
+        this.records.forEach((record, id) => {
+            record.fields.forEach(({ value, stamp }, key) => {
+                ops.push({ type: 'set', id, stamp, values: { [key]: value } });
+            });
+            // Held back here, but another replica may have what they wait for
+            record.waiting.forEach((waiting) => ops.push(...waiting));
+            if (record.removedChars.size > 0) {
+                ops.push({ type: 'remove', id, chars: [...record.removedChars].map(parseStampKey) });
+            }
+            if (!record.text) return;
+            record.text.forEach((char) => {
+                ops.push({ type: 'insert', id, char: char.id, after: char.after, value: char.value });
+            });
+            const removed = record.text.filter((char) => char.removed).map((char) => char.id);
+            if (removed.length > 0) ops.push({ type: 'remove', id, chars: removed });
+        });
+        return ops;
+    }
+
+    // =========================================================================
+    // Ops
+    // =========================================================================
+
+    private tick(): Stamp {
+        return { clock: ++this.clock, client: this.clientId };
+    }
+
+    private witness(stamp: Stamp) {
+        this.clock = Math.max(this.clock, stamp.clock);
+    }
+
+    private getRecord(id: string): ElementRecord {
+        let record = this.records.get(id);
+        if (!record) {
+            record = { fields: new Map(), text: null, removedChars: new Set(), waiting: new Map() };
+            this.records.set(id, record);
+        }
+        return record;
+    }
+
+    private applyOp(op: DocOp): OpEffect {
+        const record = this.getRecord(op.id);
+        let effect: OpEffect = 'none';
+
+        switch (op.type) {
+            case 'set':
+                this.witness(op.stamp);
+                Object.entries(op.values).forEach(([key, value]) => {
+                    const current = record.fields.get(key);
+                    if (current && compareStamps(current.stamp, op.stamp) >= 0) return;
+                    record.fields.set(key, { value, stamp: op.stamp });
+                    effect = 'changed';
+                    if (key === ORDER || key === DELETED || key === 'type') this.orderDirty = true;
+                });
+                break;
+
+            case 'insert':
+                this.witness(op.char);
+                effect = this.insertChar(record, op);
+                break;
+
+            case 'remove':
+                op.chars.forEach((id) => {
+                    const char = record.text?.find((c) => isSameStamp(c.id, id));
+                    if (!char) {
+                        if (record.removedChars.has(stampKey(id))) return;
+                        record.removedChars.add(stampKey(id));
+                        if (effect === 'none') effect = 'held';
+                    } else if (!char.removed) {
+                        char.removed = true;
+                        effect = 'changed';
+                    }
+                });
+                break;
+        }
+
+        return effect;
+    }
+
+    // After the character it was typed after, past any typed there later,
+    // which lands concurrent inserts the same way on every replica. Inserts
+    // after a character not seen yet wait for it
+    private insertChar(record: ElementRecord, op: InsertOp): OpEffect {
+        const text = record.text ??= [];
+        if (text.some((char) => isSameStamp(char.id, op.char))) return 'none';
+
+        let index = 0;
+        if (op.after) {
+            index = text.findIndex((char) => isSameStamp(char.id, op.after!)) + 1;
+            if (index === 0) {
+                const key = stampKey(op.after);
+                const waiting = record.waiting.get(key) ?? [];
+                if (waiting.some((w) => isSameStamp(w.char, op.char))) return 'none';
+                waiting.push(op);
+                record.waiting.set(key, waiting);
+                return 'held';
+            }
+        }
+        while (index < text.length && compareStamps(text[index].id, op.char) > 0) index++;
+
+        const removed = record.removedChars.delete(stampKey(op.char));
+        text.splice(index, 0, { id: op.char, after: op.after, value: op.value, removed });
+
+        const waiting = record.waiting.get(stampKey(op.char));
+        record.waiting.delete(stampKey(op.char));
+        waiting?.forEach((next) => this.insertChar(record, next));
+        return 'changed';
+    }
+
+    // Insert and remove ops turning the element's text into `next`
+    private diffText(id: string, next: string): DocOp[] {
+        const text = this.records.get(id)?.text ?? [];
+        const visible = text.filter((char) => !char.removed);
+        const { start, removed, inserted } = diffStrings(visible.map((char) => char.value).join(''), next);
+
+        const ops: DocOp[] = [];
+        if (removed > 0) {
+            ops.push({ type: 'remove', id, chars: visible.slice(start, start + removed).map((char) => char.id) });
+        }
+        let after = start > 0 ? visible[start - 1].id : null;
+        for (const value of inserted) {
+            const char = this.tick();
+            ops.push({ type: 'insert', id, char, after, value });
+            after = char;
+        }
+        return ops;
+    }
+
+    // =========================================================================
+    // Views
+    // =========================================================================
+
+    private materialize(id: string): CanvasElement | null {
+        const record = this.records.get(id);
+        if (!record || !record.fields.has('type') || record.fields.get(DELETED)?.value === true) return null;
+
+        const element: Record<string, unknown> = { id };
+        record.fields.forEach(({ value }, key) => {
+            if (!key.startsWith('$') && value !== null) element[key] = value;
+        });
+        if (record.text) {
+            element[TEXT] = record.text.filter((char) => !char.removed).map((char) => char.value).join('');
+        }
+        return element as unknown as CanvasElement;
+    }
+
+    // Live elements sorted by key; ties, from concurrent reorders, by id
+    private updateOrder(): string[] {
+        const keyOf = (id: string) => (this.records.get(id)?.fields.get(ORDER)?.value as string | undefined) ?? '';
+        this.order = [...this.views.keys()]
+            .filter((id) => this.views.get(id))
+            .sort((a, b) => {
+                const ka = keyOf(a);
+                const kb = keyOf(b);
+                return ka < kb ? -1 : ka > kb ? 1 : a < b ? -1 : a > b ? 1 : 0;
+            });
+        return this.order;
+    }
+
+    // New order keys making the keys sort as `elementOrder`. Elements on
+    // the longest run already in key order keep theirs
+    private assignOrderKeys(elementOrder: string[]): Map<string, string> {
+        const keys = elementOrder.map((id) => this.records.get(id)?.fields.get(ORDER)?.value as string | undefined);
+        const kept = new Set(longestIncreasingRun(keys));
+
+        const changed = new Map<string, string>();
+        let previous: string | null = null;
+        elementOrder.forEach((id, i) => {
+            if (kept.has(i)) {
+                previous = keys[i]!;
+                return;
+            }
+            let next: string | null = null;
+            for (let j = i + 1; j < elementOrder.length; j++) {
+                if (kept.has(j)) {
+                    next = keys[j]!;
+                    break;
+                }
+            }
+            previous = keyBetween(previous, next);
+            changed.set(id, previous);
+        });
+        return changed;
+    }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+    return a.clock - b.clock || (a.client < b.client ? -1 : a.client > b.client ? 1 : 0);
+}
+
+function isSameStamp(a: Stamp, b: Stamp): boolean {
+    return a.clock === b.clock && a.client === b.client;
+}
+
+function stampKey({ clock, client }: Stamp): string {
+    return `${clock}@${client}`;
+}
+
+function parseStampKey(key: string): Stamp {
+    const at = key.indexOf('@');
+    return { clock: Number(key.slice(0, at)), client: key.slice(at + 1) };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The one changed range between two strings: `removed` characters of
+// `prev` at `start` replaced by `inserted`
+export function diffStrings(prev: string, next: string): { start: number; removed: number; inserted: string } {
+    let start = 0;
+    while (start < prev.length && start < next.length && prev[start] === next[start]) start++;
+    let end = 0;
+    while (
+        end < prev.length - start && end < next.length - start &&
+        prev[prev.length - 1 - end] === next[next.length - 1 - end]
+    ) end++;
+    return { start, removed: prev.length - start - end, inserted: next.slice(start, next.length - end) };
+}
+
+// `base` edited both into `mine` and `theirs`, with both edits in. Edits
+// to overlapping ranges conflict, and mine wins
+export function mergeTextEdits(base: string, mine: string, theirs: string): string {
+    if (theirs === base) return mine;
+    if (mine === base) return theirs;
+
+    const a = diffStrings(base, mine);
+    const b = diffStrings(base, theirs);
+    const aEnd = a.start + a.removed;
+    const bEnd = b.start + b.removed;
+    if (aEnd <= b.start) {
+        return base.slice(0, a.start) + a.inserted + base.slice(aEnd, b.start) + b.inserted + base.slice(bEnd);
+    }
+    if (bEnd <= a.start) {
+        return base.slice(0, b.start) + b.inserted + base.slice(bEnd, a.start) + a.inserted + base.slice(aEnd);
+    }
+    return mine;
+}
+
+// Indexes of the longest strictly increasing run of defined keys
+function longestIncreasingRun(keys: (string | undefined)[]): number[] {
+    const tails: number[] = []; // tails[k]: index ending the best run of length k + 1
+    const previous = new Map<number, number>();
+    keys.forEach((key, i) => {
+        if (key === undefined) return;
+        let lo = 0;
+        let hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (keys[tails[mid]]! < key) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0) previous.set(i, tails[lo - 1]);
+        tails[lo] = i;
+    });
+
+    const run: number[] = [];
+    for (let i: number | undefined = tails[tails.length - 1]; i !== undefined; i = previous.get(i)) run.push(i);
+    return run.reverse();
+}
+
+const KEY_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A key sorting between `a` and `b` (null for no bound). Keys never end
+// in the lowest digit, so there is always room below one
+export function keyBetween(a: string | null, b: string | null): string {
+    let key = '';
+    for (let i = 0; ; i++) {
+        const lo = a !== null && i < a.length ? KEY_DIGITS.indexOf(a[i]) : 0;
+        const hi = b !== null && i < b.length ? KEY_DIGITS.indexOf(b[i]) : KEY_DIGITS.length;
+        if (lo === hi) {
+            key += KEY_DIGITS[lo];
+            continue;
+        }
+        const mid = (lo + hi) >> 1;
+        if (mid > lo) return key + KEY_DIGITS[mid];
+        // Adjacent digits: keep the lower one, anything after it fits below `b`
+        key += KEY_DIGITS[lo];
+        b = null;
+    }
+}
@@ -0,0 +1,258 @@
+/**
+ * Diagram IR mapping
+ *
+ * Converts board elements into the @whitebite/diagram-converter
+ * intermediate representation used by the text-based exporters
+ */
+
+import {
+    createEmptyDiagram,
+    createNode,
+    createEdge,
+    createGroup,
+} from '@whitebite/diagram-converter';
+import type {
+    Diagram,
+    DiagramNode,
+    ArrowHeadType,
+    LineType,
+    NodeShape,
+    LayoutDirection,
+} from '@whitebite/diagram-converter';
+import {
+    CanvasElement,
+    ElementType,
+    ArrowElement,
+    ConnectorElement,
+    ArrowHead,
+    StrokeStyle,
+    STICKY_COLORS,
+} from '../types/canvas';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SkippedElement {
+    id: string;
+    type: ElementType;
+    reason: string;
+}
+
+export interface DiagramConversion {
+    diagram: Diagram;
+    skipped: SkippedElement[];
+}
+
+// Result of a text-based export, ready to be written to a file
+export interface ExportResult {
+    output: string;
+    skipped: SkippedElement[];
+}
+
+// Result of an import, with what could not be brought in
+export interface ImportResult {
+    elements: CanvasElement[];
+    skipped: SkippedElement[];
+}
+
+// =============================================================================
+// Canvas -> IR
+// =============================================================================
+
+export function canvasToDiagram(elements: CanvasElement[]): DiagramConversion {
+    const diagram = createEmptyDiagram('flowchart', 'wb-diagram-board');
+    const skipped: SkippedElement[] = [];
+
+    // Element id -> IR id. nanoid ids may contain '-', which breaks
+    // most text formats, so the IR gets short sequential ids instead
+    const irIds = new Map<string, string>();
+
+    elements.forEach((el) => {
+        const node = elementToNode(el, `n${irIds.size + 1}`);
+        if (node) {
+            irIds.set(el.id, node.id);
+            diagram.nodes.push(node);
+        } else if (el.type === 'frame') {
+            irIds.set(el.id, `g${irIds.size + 1}`);
+        }
+    });
+
+    elements.forEach((el) => {
+        if (el.type !== 'frame') return;
+
+        const children = el.childIds
+            .map((childId) => irIds.get(childId))
+            .filter((id): id is string => !!id && id.startsWith('n'));
+
+        diagram.groups.push(createGroup(irIds.get(el.id)!, children, {
+            label: el.name,
+            position: { x: el.x, y: el.y },
+            size: { width: el.width, height: el.height },
+            style: {
+                fill: el.fill.type !== 'none' ? el.fill.color : undefined,
+                stroke: el.stroke.color,
+                strokeWidth: el.stroke.width,
+            },
+            metadata: { elementId: el.id },
+        }));
+    });
+
+    elements.forEach((el) => {
+        switch (el.type) {
+            case 'arrow':
+            case 'connector': {
+                const source = el.startBinding && irIds.get(el.startBinding.elementId);
+                const target = el.endBinding && irIds.get(el.endBinding.elementId);
+                if (!source || !target) {
+                    skipped.push({
+                        id: el.id,
+                        type: el.type,
+                        reason: !source && !target
+                            ? 'not connected to any shape'
+                            : `${source ? 'end' : 'start'} is not connected to a shape`,
+                    });
+                    return;
+                }
+                diagram.edges.push(connectionToEdge(el, source, target));
+                break;
+            }
+            case 'line':
+                skipped.push({ id: el.id, type: el.type, reason: 'lines have no flowchart equivalent' });
+                break;
+            case 'freedraw':
+                skipped.push({ id: el.id, type: el.type, reason: 'freehand drawings cannot be exported' });
+                break;
+            case 'image':
+                skipped.push({ id: el.id, type: el.type, reason: 'images cannot be exported' });
+                break;
+        }
+    });
+
+    diagram.metadata = { ...diagram.metadata!, direction: inferDirection(diagram.nodes) };
+
+    return { diagram, skipped };
+}
+
+// Human-readable summary of elements dropped by an export or import
+export function formatSkippedSummary(format: string, skipped: SkippedElement[], action: 'export' | 'import' = 'export'): string {
+    const lines = skipped.map((s) => `• ${s.type} (${s.id}): ${s.reason}`);
+    return [
+        `${format} ${action} is lossy: ${skipped.length} element${skipped.length === 1 ? ' was' : 's were'} not ${action}ed.`,
+        '',
+        ...lines,
+    ].join('\n');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function elementToNode(el: CanvasElement, id: string): DiagramNode | null {
+    const common = {
+        position: { x: el.x, y: el.y },
+        size: { width: el.width, height: el.height },
+        metadata: { elementId: el.id },
+    };
+
+    switch (el.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle':
+            return createNode(id, el.text || '', {
+                ...common,
+                shape: getNodeShape(el.type, el.cornerRadius),
+                style: {
+                    fill: el.fill.type !== 'none' ? el.fill.color : undefined,
+                    stroke: el.stroke.color,
+                    strokeWidth: el.stroke.width,
+                    fontColor: el.textStyle?.color,
+                    fontSize: el.textStyle?.fontSize,
+                    rounded: el.cornerRadius || undefined,
+                    opacity: el.opacity,
+                },
+            });
+        case 'text':
+            return createNode(id, el.text, {
+                ...common,
+                shape: 'rectangle',
+                style: {
+                    fontColor: el.textStyle.color,
+                    fontSize: el.textStyle.fontSize,
+                    opacity: el.opacity,
+                },
+            });
+        case 'sticky':
+            return createNode(id, el.text, {
+                ...common,
+                shape: 'note',
+                style: { fill: STICKY_COLORS[el.color], opacity: el.opacity },
+            });
+        default:
+            return null;
+    }
+}
+
+function getNodeShape(type: 'rectangle' | 'ellipse' | 'diamond' | 'triangle', cornerRadius: number): NodeShape {
+    switch (type) {
+        case 'rectangle':
+            return cornerRadius > 0 ? 'rounded-rectangle' : 'rectangle';
+        case 'ellipse':
+            return 'ellipse';
+        case 'diamond':
+            return 'diamond';
+        case 'triangle':
+            return 'trapezoid';
+    }
+}
+
+function connectionToEdge(el: ArrowElement | ConnectorElement, source: string, target: string) {
+    return createEdge(source, target, {
+        label: el.label,
+        arrow: {
+            sourceType: getArrowHeadType(el.startArrow),
+            targetType: getArrowHeadType(el.endArrow),
+            lineType: getLineType(el.stroke),
+        },
+        style: {
+            stroke: el.stroke.color,
+            strokeWidth: el.stroke.width,
+            opacity: el.opacity,
+        },
+        metadata: { elementId: el.id },
+    });
+}
+
+function getArrowHeadType(head: ArrowHead): ArrowHeadType {
+    switch (head) {
+        case 'arrow':
+        case 'triangle':
+            return 'arrow';
+        case 'diamond':
+            return 'diamond-filled';
+        case 'circle':
+            return 'circle';
+        case 'bar':
+            return 'bar';
+        default:
+            return 'none';
+    }
+}
+
+function getLineType(stroke: StrokeStyle): LineType {
+    if (stroke.style !== 'solid') return stroke.style;
+    return stroke.width >= 4 ? 'thick' : 'solid';
+}
+
+// Wide boards read better left-to-right, tall ones top-to-bottom
+function inferDirection(nodes: DiagramNode[]): LayoutDirection {
+    if (nodes.length < 2) return 'TB';
+
+    const xs = nodes.map((n) => n.position!.x);
+    const ys = nodes.map((n) => n.position!.y);
+    const spanX = Math.max(...xs) - Math.min(...xs);
+    const spanY = Math.max(...ys) - Math.min(...ys);
+
+    return spanX > spanY ? 'LR' : 'TB';
+}
@@ -0,0 +1,734 @@
+/**
+ * Draw.io (mxGraph XML) export and import
+ *
+ * Shapes become mxCell vertices, arrows/lines/connectors become edges
+ * with source/target kept from their bindings. Frames are exported as
+ * swimlane containers so children keep their parent on the way back.
+ */
+
+import {
+    CanvasElement,
+    ShapeElement,
+    LineElement,
+    ArrowElement,
+    ConnectorElement,
+    TextElement,
+    StickyElement,
+    ImageElement,
+    FrameElement,
+    StrokeStyle,
+    FillStyle,
+    TextStyle,
+    ArrowHead,
+    Binding,
+    Point,
+    StickyColor,
+    createBaseElement,
+    createId,
+    DEFAULT_STROKE,
+    DEFAULT_TEXT_STYLE,
+    STICKY_COLORS,
+} from '../types/canvas';
+import { ExportResult, ImportResult, SkippedElement } from './diagram-ir';
+import { getImageSource } from './images';
+
+// Binding assigned to imported edges; draw.io only knows the attached cell
+const IMPORTED_BINDING: Omit<Binding, 'elementId'> = { focus: 0, gap: 4 };
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export function exportToDrawio(elements: CanvasElement[]): ExportResult {
+    const skipped: SkippedElement[] = [];
+    const cells: string[] = [];
+    const byId = new Map(elements.map((el) => [el.id, el]));
+
+    // Children of frames are stored relative to their frame
+    const parentOf = new Map<string, FrameElement>();
+    elements.forEach((el) => {
+        if (el.type === 'frame') {
+            el.childIds.forEach((childId) => parentOf.set(childId, el));
+        }
+    });
+
+    elements.forEach((el) => {
+        const parent = parentOf.get(el.id);
+        const parentId = parent ? parent.id : '1';
+        const offset = parent ? { x: parent.x, y: parent.y } : { x: 0, y: 0 };
+
+        switch (el.type) {
+            case 'rectangle':
+            case 'ellipse':
+            case 'diamond':
+            case 'triangle':
+                cells.push(vertexCell(el, el.text || '', getShapeStyle(el), parentId, offset));
+                break;
+            case 'text':
+                cells.push(vertexCell(el, el.text, [
+                    'text',
+                    'strokeColor=none',
+                    'fillColor=none',
+                    ...getTextStyle(el.textStyle),
+                ], parentId, offset));
+                break;
+            case 'sticky':
+                cells.push(vertexCell(el, el.text, [
+                    'shape=note',
+                    'size=20',
+                    'whiteSpace=wrap',
+                    `fillColor=${STICKY_COLORS[el.color]}`,
+                    'strokeColor=#00000020',
+                    ...getTextStyle(el.textStyle),
+                ], parentId, offset));
+                break;
+            case 'image': {
+                const src = getImageSource(el);
+                if (!src) break;
+                cells.push(vertexCell(el, '', [
+                    'shape=image',
+                    'imageAspect=0',
+                    'aspect=fixed',
+                    // ';' separates style entries, so data URIs drop ';base64'
+                    `image=${src.replace(';base64,', ',')}`,
+                ], parentId, offset));
+                break;
+            }
+            case 'frame':
+                cells.push(vertexCell(el, el.name, [
+                    'swimlane',
+                    'startSize=24',
+                    'container=1',
+                    'collapsible=0',
+                    ...getStrokeStyle(el.stroke),
+                    ...getFillStyle(el.fill),
+                ], parentId, offset));
+                break;
+            case 'line':
+            case 'arrow':
+            case 'connector':
+                cells.push(edgeCell(el, byId, parentId, offset));
+                break;
+            case 'freedraw':
+                skipped.push({ id: el.id, type: el.type, reason: 'freehand drawings have no draw.io equivalent' });
+                break;
+        }
+    });
+
+    const output = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<mxfile host="WB Canvas" modified="${new Date().toISOString()}" type="device">`,
+        `  <diagram id="${createId()}" name="Page-1">`,
+        '    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="0">',
+        '      <root>',
+        '        <mxCell id="0"/>',
+        '        <mxCell id="1" parent="0"/>',
+        ...cells.map((cell) => `        ${cell}`),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+        '',
+    ].join('\n');
+
+    return { output, skipped };
+}
+
+function vertexCell(el: CanvasElement, value: string, style: string[], parentId: string, offset: Point): string {
+    const fullStyle = [...style, ...getCommonStyle(el)].join(';') + ';';
+    return `<mxCell id="${escapeAttr(el.id)}" value="${escapeAttr(value)}" style="${escapeAttr(fullStyle)}" vertex="1" parent="${escapeAttr(parentId)}">` +
+        `<mxGeometry x="${el.x - offset.x}" y="${el.y - offset.y}" width="${el.width}" height="${el.height}" as="geometry"/>` +
+        '</mxCell>';
+}
+
+function edgeCell(
+    el: LineElement | ArrowElement | ConnectorElement,
+    byId: Map<string, CanvasElement>,
+    parentId: string,
+    offset: Point
+): string {
+    const isLine = el.type === 'line';
+    const startBinding = isLine ? undefined : el.startBinding;
+    const endBinding = isLine ? undefined : el.endBinding;
+    const source = startBinding && byId.has(startBinding.elementId) ? startBinding.elementId : undefined;
+    const target = endBinding && byId.has(endBinding.elementId) ? endBinding.elementId : undefined;
+    const label = isLine ? '' : el.label || '';
+
+    const style = [
+        el.type === 'connector' ? getRouteStyle(el.routeType) : 'edgeStyle=none',
+        'html=0',
+        `startArrow=${getDrawioArrow(el.startArrow)}`,
+        `endArrow=${getDrawioArrow(el.endArrow)}`,
+        ...(el.startArrow !== 'none' ? [`startFill=${el.startArrow === 'arrow' ? 0 : 1}`] : []),
+        ...(el.endArrow !== 'none' ? [`endFill=${el.endArrow === 'arrow' ? 0 : 1}`] : []),
+        ...getStrokeStyle(el.stroke),
+        ...getCommonStyle(el),
+    ].join(';') + ';';
+
+    const absolute = getEdgePoints(el);
+    const toLocal = (p: Point) => ({ x: p.x - offset.x, y: p.y - offset.y });
+    const start = toLocal(absolute[0]);
+    const end = toLocal(absolute[absolute.length - 1]);
+    const waypoints = absolute.slice(1, -1).map(toLocal);
+
+    const attrs = [
+        `id="${escapeAttr(el.id)}"`,
+        `value="${escapeAttr(label)}"`,
+        `style="${escapeAttr(style)}"`,
+        'edge="1"',
+        `parent="${escapeAttr(parentId)}"`,
+        ...(source ? [`source="${escapeAttr(source)}"`] : []),
+        ...(target ? [`target="${escapeAttr(target)}"`] : []),
+    ];
+
+    return `<mxCell ${attrs.join(' ')}>` +
+        '<mxGeometry relative="1" as="geometry">' +
+        `<mxPoint x="${start.x}" y="${start.y}" as="sourcePoint"/>` +
+        `<mxPoint x="${end.x}" y="${end.y}" as="targetPoint"/>` +
+        (waypoints.length > 0
+            ? `<Array as="points">${waypoints.map((p) => `<mxPoint x="${p.x}" y="${p.y}"/>`).join('')}</Array>`
+            : '') +
+        '</mxGeometry>' +
+        '</mxCell>';
+}
+
+// Absolute points of an edge-like element, endpoints included
+function getEdgePoints(el: LineElement | ArrowElement | ConnectorElement): Point[] {
+    if (el.type === 'connector') {
+        return [
+            { x: el.x, y: el.y },
+            ...el.waypoints,
+            { x: el.x + el.width, y: el.y + el.height },
+        ];
+    }
+    return el.points.map((p) => ({ x: el.x + p.x, y: el.y + p.y }));
+}
+
+function getShapeStyle(el: ShapeElement): string[] {
+    const style: string[] = [];
+    switch (el.type) {
+        case 'rectangle':
+            style.push(el.cornerRadius > 0
+                ? `rounded=1;absoluteArcSize=1;arcSize=${el.cornerRadius * 2}`
+                : 'rounded=0');
+            break;
+        case 'ellipse':
+            style.push('ellipse');
+            break;
+        case 'diamond':
+            style.push('rhombus');
+            break;
+        case 'triangle':
+            style.push('triangle', 'direction=north');
+            break;
+    }
+    style.push(
+        'whiteSpace=wrap',
+        ...getStrokeStyle(el.stroke),
+        ...getFillStyle(el.fill),
+        ...(el.textStyle ? getTextStyle(el.textStyle) : []),
+    );
+    return style;
+}
+
+function getCommonStyle(el: CanvasElement): string[] {
+    const style: string[] = [];
+    if (el.opacity < 1) style.push(`opacity=${Math.round(el.opacity * 100)}`);
+    if (el.rotation) style.push(`rotation=${el.rotation}`);
+    if (el.locked) style.push('locked=1');
+    return style;
+}
+
+function getStrokeStyle(stroke: StrokeStyle): string[] {
+    const style = [`strokeColor=${stroke.color}`, `strokeWidth=${stroke.width}`];
+    if (stroke.style === 'dashed') style.push('dashed=1', 'dashPattern=8 4');
+    if (stroke.style === 'dotted') style.push('dashed=1', 'dashPattern=1 4');
+    return style;
+}
+
+function getFillStyle(fill: FillStyle): string[] {
+    if (fill.type === 'none') return ['fillColor=none'];
+    const style = [`fillColor=${fill.color}`];
+    if (fill.type === 'hachure') style.push('fillStyle=hachure');
+    if (fill.type === 'cross-hatch') style.push('fillStyle=cross-hatch');
+    return style;
+}
+
+function getTextStyle(textStyle: TextStyle): string[] {
+    let fontStyle = 0;
+    if (textStyle.fontWeight === 'bold') fontStyle |= 1;
+    if (textStyle.fontStyle === 'italic') fontStyle |= 2;
+
+    return [
+        `fontColor=${textStyle.color}`,
+        `fontSize=${textStyle.fontSize}`,
+        `fontFamily=${textStyle.fontFamily.split(',')[0].trim()}`,
+        `fontStyle=${fontStyle}`,
+        `align=${textStyle.textAlign}`,
+        `verticalAlign=${textStyle.verticalAlign}`,
+    ];
+}
+
+function getRouteStyle(routeType: ConnectorElement['routeType']): string {
+    switch (routeType) {
+        case 'elbow':
+            return 'edgeStyle=orthogonalEdgeStyle';
+        case 'curved':
+            return 'edgeStyle=none;curved=1';
+        default:
+            return 'edgeStyle=none';
+    }
+}
+
+function getDrawioArrow(head: ArrowHead): string {
+    switch (head) {
+        case 'arrow':
+            return 'open';
+        case 'triangle':
+            return 'block';
+        case 'diamond':
+            return 'diamond';
+        case 'circle':
+            return 'oval';
+        case 'bar':
+            return 'dash';
+        default:
+            return 'none';
+    }
+}
+
+function escapeAttr(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#xa;');
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+interface ParsedCell {
+    node: Element;
+    id: string;
+    parent: string | null;
+    style: Record<string, string>;
+    shape: string;
+}
+
+export async function importFromDrawio(xml: string): Promise<ImportResult> {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.querySelector('parsererror')) {
+        throw new Error('File is not valid XML');
+    }
+
+    const model = await getGraphModel(doc);
+    if (!model) {
+        throw new Error('No mxGraphModel found in file');
+    }
+
+    const cells = new Map<string, ParsedCell>();
+    Array.from(model.getElementsByTagName('mxCell')).forEach((node) => {
+        const id = node.getAttribute('id');
+        if (!id) return;
+        const style = parseStyle(node.getAttribute('style') || '');
+        cells.set(id, {
+            node,
+            id,
+            parent: node.getAttribute('parent'),
+            style,
+            shape: style.shape || style[''] || '',
+        });
+    });
+
+    // draw.io ids are usually short integers; give every cell a fresh id
+    const ids = new Map<string, string>();
+    cells.forEach((cell) => ids.set(cell.id, createId()));
+
+    // Offset of a cell's coordinate space, following vertex parents
+    const getOffset = (parentId: string | null): Point => {
+        const parent = parentId ? cells.get(parentId) : undefined;
+        if (!parent || parent.node.getAttribute('vertex') !== '1') return { x: 0, y: 0 };
+        const geometry = getGeometry(parent.node);
+        const outer = getOffset(parent.parent);
+        return { x: outer.x + geometry.x, y: outer.y + geometry.y };
+    };
+
+    const elements: CanvasElement[] = [];
+    const skipped: SkippedElement[] = [];
+    const frames = new Map<string, FrameElement>();
+    const edgeLabels = new Map<string, string[]>();
+
+    cells.forEach((cell) => {
+        if (cell.node.getAttribute('vertex') !== '1') return;
+        // Labels placed along an edge are vertices inside it
+        const parent = cell.parent ? cells.get(cell.parent) : undefined;
+        if (parent?.node.getAttribute('edge') === '1') {
+            const text = getCellText(cell.node, cell.style);
+            if (text) edgeLabels.set(parent.id, [...(edgeLabels.get(parent.id) || []), text]);
+            return;
+        }
+        const el = vertexToElement(cell, ids.get(cell.id)!, getOffset(cell.parent));
+        if (!el) return;
+        elements.push(el);
+        if (el.type === 'frame') frames.set(cell.id, el);
+    });
+
+    const vertexById = new Map(elements.map((el) => [el.id, el]));
+
+    cells.forEach((cell) => {
+        if (cell.node.getAttribute('edge') !== '1') return;
+        const el = edgeToElement(cell, ids, vertexById, getOffset(cell.parent), edgeLabels.get(cell.id) || []);
+        if (el) elements.push(el);
+        else skipped.push({ id: cell.id, type: 'arrow', reason: 'the edge has no end points and is not attached to shapes' });
+    });
+
+    // Adopt children into their frames
+    const imported = new Set(elements.map((el) => el.id));
+    cells.forEach((cell) => {
+        const frame = cell.parent ? frames.get(cell.parent) : undefined;
+        const id = ids.get(cell.id)!;
+        if (frame && imported.has(id)) {
+            frame.childIds.push(id);
+        }
+    });
+
+    return { elements, skipped };
+}
+
+// Locate the first page's model, inflating compressed diagrams if needed
+async function getGraphModel(doc: Document): Promise<Element | null> {
+    const model = doc.getElementsByTagName('mxGraphModel')[0];
+    if (model) return model;
+
+    const diagram = doc.getElementsByTagName('diagram')[0];
+    const compressed = diagram?.textContent?.trim();
+    if (!compressed) return null;
+
+    const bytes = Uint8Array.from(atob(compressed), (c) => c.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const inflated = decodeURIComponent(await new Response(stream).text());
+    const inner = new DOMParser().parseFromString(inflated, 'application/xml');
+    return inner.getElementsByTagName('mxGraphModel')[0] || null;
+}
+
+function vertexToElement(cell: ParsedCell, id: string, offset: Point): CanvasElement | null {
+    const { node, style, shape } = cell;
+    const geometry = getGeometry(node);
+    const value = getCellText(node, style);
+
+    const base = {
+        ...createBaseElement('rectangle', offset.x + geometry.x, offset.y + geometry.y),
+        id,
+        width: geometry.width,
+        height: geometry.height,
+        rotation: Number(style.rotation) || 0,
+        opacity: style.opacity !== undefined ? Number(style.opacity) / 100 : 1,
+        locked: style.locked === '1',
+    };
+
+    if (shape === 'text') {
+        const el: TextElement = {
+            ...base,
+            type: 'text',
+            text: value,
+            textStyle: readTextStyle(style),
+        };
+        return el;
+    }
+
+    if (shape === 'note') {
+        const el: StickyElement = {
+            ...base,
+            type: 'sticky',
+            text: value,
+            textStyle: { ...readTextStyle(style), fontSize: Number(style.fontSize) || 14 },
+            color: findStickyColor(style.fillColor),
+        };
+        return el;
+    }
+
+    if (shape === 'image' && style.image) {
+        const el: ImageElement = {
+            ...base,
+            type: 'image',
+            src: style.image.replace(/^data:([^,;]+),/, 'data:$1;base64,'),
+            naturalWidth: geometry.width,
+            naturalHeight: geometry.height,
+        };
+        return el;
+    }
+
+    if (shape === 'swimlane' || style.container === '1') {
+        const el: FrameElement = {
+            ...base,
+            type: 'frame',
+            name: value,
+            stroke: readStroke(style),
+            fill: readFill(style),
+            childIds: [],
+            clip: false,
+        };
+        return el;
+    }
+
+    // Invisible grouping cells carry no drawing of their own
+    if (shape === 'group') return null;
+
+    const el: ShapeElement = {
+        ...base,
+        type: getShapeType(shape),
+        stroke: readStroke(style),
+        fill: readFill(style),
+        cornerRadius: readCornerRadius(style, geometry),
+        ...(value ? { text: value, textStyle: readTextStyle(style) } : {}),
+    };
+    return el;
+}
+
+function edgeToElement(
+    cell: ParsedCell,
+    ids: Map<string, string>,
+    vertexById: Map<string, CanvasElement>,
+    offset: Point,
+    childLabels: string[]
+): CanvasElement | null {
+    const { node, style } = cell;
+    const geometry = node.getElementsByTagName('mxGeometry')[0];
+
+    const sourceId = node.getAttribute('source');
+    const targetId = node.getAttribute('target');
+    const source = sourceId ? vertexById.get(ids.get(sourceId) || '') : undefined;
+    const target = targetId ? vertexById.get(ids.get(targetId) || '') : undefined;
+
+    const readPoint = (as: string): Point | null => {
+        const point = Array.from(geometry?.getElementsByTagName('mxPoint') || [])
+            .find((p) => p.getAttribute('as') === as);
+        if (!point) return null;
+        return {
+            x: offset.x + Number(point.getAttribute('x') || 0),
+            y: offset.y + Number(point.getAttribute('y') || 0),
+        };
+    };
+
+    // Bound ends are positioned by draw.io itself, so fall back to centers
+    const start = readPoint('sourcePoint') || (source && getCenter(source));
+    const end = readPoint('targetPoint') || (target && getCenter(target));
+    if (!start || !end) return null;
+
+    const waypoints = Array.from(geometry?.getElementsByTagName('Array') || [])
+        .filter((a) => a.getAttribute('as') === 'points')
+        .flatMap((a) => Array.from(a.getElementsByTagName('mxPoint')))
+        .map((p) => ({
+            x: offset.x + Number(p.getAttribute('x') || 0),
+            y: offset.y + Number(p.getAttribute('y') || 0),
+        }));
+
+    const startArrow = readArrowHead(style.startArrow, 'none');
+    const endArrow = readArrowHead(style.endArrow, 'arrow');
+    const startBinding = source ? { elementId: source.id, ...IMPORTED_BINDING } : undefined;
+    const endBinding = target ? { elementId: target.id, ...IMPORTED_BINDING } : undefined;
+    const label = [getCellText(node, style), ...childLabels].filter(Boolean).join('\n') || undefined;
+    const stroke = readStroke(style);
+
+    const common = {
+        ...createBaseElement('arrow', 0, 0),
+        id: ids.get(cell.id)!,
+        opacity: style.opacity !== undefined ? Number(style.opacity) / 100 : 1,
+        locked: style.locked === '1',
+    };
+
+    if (style.edgeStyle === 'orthogonalEdgeStyle' || style.curved === '1') {
+        const el: ConnectorElement = {
+            ...common,
+            type: 'connector',
+            x: start.x,
+            y: start.y,
+            width: end.x - start.x,
+            height: end.y - start.y,
+            stroke,
+            startArrow,
+            endArrow,
+            startBinding,
+            endBinding,
+            routeType: style.curved === '1' ? 'curved' : 'elbow',
+            waypoints,
+            label,
+        };
+        return el;
+    }
+
+    const all = [start, ...waypoints, end];
+    const minX = Math.min(...all.map((p) => p.x));
+    const minY = Math.min(...all.map((p) => p.y));
+    const maxX = Math.max(...all.map((p) => p.x));
+    const maxY = Math.max(...all.map((p) => p.y));
+    const geometryProps = {
+        x: minX,
+        y: minY,
+        width: Math.max(maxX - minX, 1),
+        height: Math.max(maxY - minY, 1),
+        points: all.map((p) => ({ x: p.x - minX, y: p.y - minY })),
+    };
+
+    if (!source && !target && !label && startArrow === 'none' && endArrow === 'none') {
+        const el: LineElement = {
+            ...common,
+            ...geometryProps,
+            type: 'line',
+            stroke,
+            startArrow,
+            endArrow,
+        };
+        return el;
+    }
+
+    const el: ArrowElement = {
+        ...common,
+        ...geometryProps,
+        type: 'arrow',
+        stroke,
+        startArrow,
+        endArrow,
+        startBinding,
+        endBinding,
+        label,
+    };
+    return el;
+}
+
+// Parse "shape;key=value;..." into a map; the bare leading token lands under ''
+function parseStyle(style: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    style.split(';').forEach((entry) => {
+        if (!entry) return;
+        const eq = entry.indexOf('=');
+        if (eq === -1) {
+            if (!('' in result)) result[''] = entry;
+        } else {
+            result[entry.slice(0, eq)] = entry.slice(eq + 1);
+        }
+    });
+    return result;
+}
+
+function getGeometry(node: Element) {
+    const geometry = Array.from(node.children).find((c) => c.tagName === 'mxGeometry');
+    return {
+        x: Number(geometry?.getAttribute('x') || 0),
+        y: Number(geometry?.getAttribute('y') || 0),
+        width: Number(geometry?.getAttribute('width') || 0),
+        height: Number(geometry?.getAttribute('height') || 0),
+    };
+}
+
+// Labels are plain text unless the cell sets html=1
+function getCellText(node: Element, style: Record<string, string>): string {
+    const value = node.getAttribute('value') || '';
+    if (style.html !== '1' || !value.includes('<')) return value;
+
+    const withBreaks = value.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(div|p)>/gi, '\n');
+    const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+    return (doc.body.textContent || '').replace(/\n+$/, '');
+}
+
+function getShapeType(shape: string): ShapeElement['type'] {
+    switch (shape) {
+        case 'ellipse':
+        case 'doubleEllipse':
+            return 'ellipse';
+        case 'rhombus':
+            return 'diamond';
+        case 'triangle':
+            return 'triangle';
+        default:
+            return 'rectangle';
+    }
+}
+
+function readStroke(style: Record<string, string>): StrokeStyle {
+    const color = style.strokeColor && style.strokeColor !== 'none' && style.strokeColor !== 'default'
+        ? style.strokeColor
+        : DEFAULT_STROKE.color;
+    const dashed = style.dashed === '1';
+    const dotted = dashed && /^[01](\s|$)/.test(style.dashPattern || '');
+
+    return {
+        color,
+        width: Number(style.strokeWidth) || 1,
+        style: dotted ? 'dotted' : dashed ? 'dashed' : 'solid',
+    };
+}
+
+function readFill(style: Record<string, string>): FillStyle {
+    const color = style.fillColor;
+    if (color === 'none') return { type: 'none', color: '#ffffff' };
+    if (!color || color === 'default') return { type: 'solid', color: '#ffffff' };
+    if (style.fillStyle === 'hachure') return { type: 'hachure', color };
+    if (style.fillStyle === 'cross-hatch') return { type: 'cross-hatch', color };
+    return { type: 'solid', color };
+}
+
+function readTextStyle(style: Record<string, string>): TextStyle {
+    const fontStyle = Number(style.fontStyle) || 0;
+    const align = style.align as TextStyle['textAlign'] | undefined;
+    const verticalAlign = style.verticalAlign as TextStyle['verticalAlign'] | undefined;
+
+    return {
+        ...DEFAULT_TEXT_STYLE,
+        fontSize: Number(style.fontSize) || DEFAULT_TEXT_STYLE.fontSize,
+        fontFamily: style.fontFamily && !DEFAULT_TEXT_STYLE.fontFamily.startsWith(style.fontFamily)
+            ? `${style.fontFamily}, sans-serif`
+            : DEFAULT_TEXT_STYLE.fontFamily,
+        fontWeight: fontStyle & 1 ? 'bold' : 'normal',
+        fontStyle: fontStyle & 2 ? 'italic' : 'normal',
+        textAlign: align && ['left', 'center', 'right'].includes(align) ? align : 'center',
+        verticalAlign: verticalAlign && ['top', 'middle', 'bottom'].includes(verticalAlign) ? verticalAlign : 'middle',
+        color: style.fontColor && style.fontColor !== 'default' ? style.fontColor : DEFAULT_TEXT_STYLE.color,
+    };
+}
+
+function readCornerRadius(style: Record<string, string>, geometry: { width: number; height: number }): number {
+    if (style.rounded !== '1') return 0;
+    if (style.absoluteArcSize === '1') return (Number(style.arcSize) || 20) / 2;
+    // Relative arc size is a percentage of the shorter side
+    return Math.min(geometry.width, geometry.height) * (Number(style.arcSize) || 15) / 100;
+}
+
+function readArrowHead(value: string | undefined, fallback: ArrowHead): ArrowHead {
+    switch (value) {
+        case undefined:
+            return fallback;
+        case 'none':
+        case '':
+            return 'none';
+        case 'open':
+        case 'classic':
+        case 'classicThin':
+            return 'arrow';
+        case 'block':
+        case 'blockThin':
+            return 'triangle';
+        case 'diamond':
+        case 'diamondThin':
+            return 'diamond';
+        case 'oval':
+            return 'circle';
+        case 'dash':
+            return 'bar';
+        default:
+            return 'arrow';
+    }
+}
+
+function findStickyColor(fillColor: string | undefined): StickyColor {
+    const entry = Object.entries(STICKY_COLORS)
+        .find(([, color]) => color.toLowerCase() === fillColor?.toLowerCase());
+    return (entry?.[0] as StickyColor) || 'yellow';
+}
+
+function getCenter(el: CanvasElement): Point {
+    return { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+}
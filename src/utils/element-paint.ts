@@ -0,0 +1,335 @@
+/**
+ * Element paint
+ *
+ * What each element draws, worked out once for both renderer backends:
+ * rough.js drawables, smoothed freedraw paths and text layout. The SVG
+ * renderer and the canvas renderer draw from the same instructions, so a
+ * board looks the same in either and exports match the screen
+ */
+
+import rough from 'roughjs';
+import type { Drawable, Options } from 'roughjs/bin/core';
+import {
+    CanvasElement,
+    FillStyle,
+    FreedrawElement,
+    Point,
+    StrokeStyle,
+    TextElement,
+    STICKY_COLORS,
+} from '../types/canvas';
+import { getElementSeed } from './rough-renderer';
+import { getRoutePath } from './connector-routing';
+
+// Used when an element does not override them
+export const DEFAULT_ROUGHNESS = 1.5;
+export const DEFAULT_BOWING = 1.2;
+
+const NO_FILL: FillStyle = { type: 'none', color: '' };
+
+export interface DropShadow {
+    x: number;
+    y: number;
+    blur: number;
+    color: string;
+}
+
+export const SHAPE_SHADOW: DropShadow = { x: 2, y: 4, blur: 6, color: 'rgba(0,0,0,0.15)' };
+export const STICKY_SHADOW: DropShadow = { x: 3, y: 5, blur: 8, color: 'rgba(0,0,0,0.2)' };
+
+export function toCssDropShadow({ x, y, blur, color }: DropShadow): string {
+    return `drop-shadow(${x}px ${y}px ${blur}px ${color})`;
+}
+
+// Sticky note text
+export const STICKY_PADDING = 16;
+export const STICKY_FONT_FAMILY = "'Caveat', 'Comic Sans MS', cursive";
+export const STICKY_TEXT_COLOR = '#333';
+export const STICKY_PLACEHOLDER = 'Click to edit...';
+
+// =============================================================================
+// Rough Drawables
+// =============================================================================
+
+const generator = rough.generator();
+
+// Element id -> its last drawables and what they were generated from.
+// Generating is the slow part of drawing, so unchanged elements reuse them.
+// They are generated at the origin and moved into place, so moving an
+// element only shifts the cached ones
+interface CachedDrawables {
+    key: string;
+    drawables: Drawable[]; // at the origin
+    origin: Point;
+    placed: Drawable[]; // at `origin`
+}
+
+const drawableCache = new Map<string, CachedDrawables>();
+
+// Get rough.js options from element styles
+export function getRoughOptions(
+    stroke: StrokeStyle,
+    fill: FillStyle,
+    seed: number,
+    roughness = DEFAULT_ROUGHNESS,
+    bowing = DEFAULT_BOWING
+): Options {
+    const options: Options = {
+        seed,
+        roughness,
+        bowing,
+        stroke: stroke.color,
+        strokeWidth: stroke.width,
+        fill: fill.type !== 'none' ? fill.color : undefined,
+        fillStyle: fill.type === 'hachure' ? 'hachure' : fill.type === 'solid' ? 'solid' : undefined,
+        hachureAngle: -41,
+        hachureGap: Math.max(4, stroke.width * 2),
+        fillWeight: stroke.width * 0.4,
+        curveFitting: 0.95,
+        curveStepCount: 9,
+    };
+
+    if (stroke.style === 'dashed') {
+        options.strokeLineDash = [12, 6];
+    } else if (stroke.style === 'dotted') {
+        options.strokeLineDash = [3, 6];
+    }
+
+    return options;
+}
+
+// Rough strokes and fills of shapes, lines, arrows, connectors (along
+// `route`) and sticky note backgrounds, in paint order. Other elements
+// are not drawn through rough.js and get none
+export function getElementDrawables(element: CanvasElement, route?: Point[]): Drawable[] {
+    // Connectors are placed by their route, other elements by (x, y)
+    const origin = element.type === 'connector' ? route?.[0] ?? { x: 0, y: 0 } : { x: element.x, y: element.y };
+    const relativeRoute = route?.map((p) => ({ x: p.x - origin.x, y: p.y - origin.y }));
+    const atOrigin = { ...element, x: 0, y: 0 } as CanvasElement;
+
+    const key = getDrawableKey(atOrigin, relativeRoute);
+    if (key === null) return [];
+
+    let cached = drawableCache.get(element.id);
+    if (cached?.key !== key) {
+        const drawables = generateDrawables(atOrigin, relativeRoute);
+        cached = { key, drawables, origin: { x: 0, y: 0 }, placed: drawables };
+        drawableCache.set(element.id, cached);
+    }
+    if (cached.origin.x !== origin.x || cached.origin.y !== origin.y) {
+        cached.origin = origin;
+        cached.placed = cached.drawables.map((drawable) => translateDrawable(drawable, origin.x, origin.y));
+    }
+    return cached.placed;
+}
+
+// Everything the drawables depend on: the seed, style and shape, for an
+// element at the origin. Moves, selection and other edits that change
+// none of these keep the cached drawables. Null when there is nothing to draw
+function getDrawableKey(element: CanvasElement, route?: Point[]): string | null {
+    const seed = getElementSeed(element);
+    const { roughness, bowing } = element;
+    switch (element.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle': {
+            const { type, width, height, stroke, fill } = element;
+            if (width < 1 || height < 1) return null;
+            return JSON.stringify([type, seed, roughness, bowing, width, height, stroke, fill]);
+        }
+        case 'line':
+        case 'arrow': {
+            const { type, points, stroke } = element;
+            if (points.length < 2) return null;
+            const arrows = element.type === 'arrow' ? [element.startArrow, element.endArrow] : [];
+            return JSON.stringify([type, seed, roughness, bowing, points, stroke, arrows]);
+        }
+        case 'connector': {
+            const { routeType, stroke, startArrow, endArrow } = element;
+            if (!route || route.length < 2) return null;
+            return JSON.stringify(['connector', seed, roughness, bowing, route, routeType, stroke, startArrow, endArrow]);
+        }
+        case 'sticky': {
+            const { width, height, color } = element;
+            return JSON.stringify(['sticky', seed, width, height, color]);
+        }
+        default:
+            return null;
+    }
+}
+
+function generateDrawables(element: CanvasElement, route?: Point[]): Drawable[] {
+    const seed = getElementSeed(element);
+    const { roughness, bowing } = element;
+
+    switch (element.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle': {
+            const { x, y, width, height, stroke, fill } = element;
+            const options = getRoughOptions(stroke, fill, seed, roughness, bowing);
+            switch (element.type) {
+                case 'ellipse':
+                    return [generator.ellipse(x + width / 2, y + height / 2, width, height, options)];
+                case 'diamond':
+                    return [generator.polygon([
+                        [x + width / 2, y],
+                        [x + width, y + height / 2],
+                        [x + width / 2, y + height],
+                        [x, y + height / 2],
+                    ], options)];
+                case 'triangle':
+                    return [generator.polygon([
+                        [x + width / 2, y],
+                        [x + width, y + height],
+                        [x, y + height],
+                    ], options)];
+                default:
+                    return [generator.rectangle(x, y, width, height, options)];
+            }
+        }
+        case 'line':
+        case 'arrow': {
+            const { x, y, points, stroke } = element;
+            const options = getRoughOptions(stroke, NO_FILL, seed, roughness, bowing);
+            const path = points.map((p) => ({ x: x + p.x, y: y + p.y }));
+            const last = path.length - 1;
+
+            // Imported lines may bend; drawn ones have two points
+            const drawables = [path.length === 2
+                ? generator.line(path[0].x, path[0].y, path[1].x, path[1].y, options)
+                : generator.linearPath(path.map((p) => [p.x, p.y]), options)];
+            if (element.type === 'arrow') {
+                if (element.endArrow === 'arrow') drawables.push(getArrowHead(path[last - 1], path[last], stroke, options));
+                if (element.startArrow === 'arrow') drawables.push(getArrowHead(path[1], path[0], stroke, options));
+            }
+            return drawables;
+        }
+        case 'connector': {
+            const { stroke, startArrow, endArrow, routeType } = element;
+            const path = route!;
+            const options = getRoughOptions(stroke, NO_FILL, seed, roughness, bowing);
+
+            const drawables = [routeType === 'curved'
+                ? generator.path(getRoutePath(path, routeType), options)
+                : generator.linearPath(path.map((p) => [p.x, p.y]), options)];
+
+            const last = path.length - 1;
+            if (endArrow === 'arrow') drawables.push(getArrowHead(path[last - 1], path[last], stroke, options));
+            if (startArrow === 'arrow') drawables.push(getArrowHead(path[1], path[0], stroke, options));
+            return drawables;
+        }
+        case 'sticky': {
+            const { x, y, width, height, color } = element;
+            return [
+                // Shadow rectangle
+                generator.rectangle(x + 4, y + 4, width, height, {
+                    seed,
+                    fill: 'rgba(0,0,0,0.1)',
+                    fillStyle: 'solid',
+                    stroke: 'none',
+                    roughness: 0.8,
+                }),
+                // Main sticky note
+                generator.rectangle(x, y, width, height, {
+                    seed,
+                    fill: STICKY_COLORS[color],
+                    fillStyle: 'solid',
+                    stroke: 'rgba(0,0,0,0.15)',
+                    strokeWidth: 1,
+                    roughness: 0.8,
+                    bowing: 0.5,
+                }),
+            ];
+        }
+        default:
+            return [];
+    }
+}
+
+// Op data alternates x and y
+function translateDrawable(drawable: Drawable, dx: number, dy: number): Drawable {
+    return {
+        ...drawable,
+        sets: drawable.sets.map((set) => ({
+            ...set,
+            ops: set.ops.map((op) => ({ ...op, data: op.data.map((value, i) => value + (i % 2 === 0 ? dx : dy)) })),
+        })),
+    };
+}
+
+// Filled head at `tip`, pointing along from -> tip
+function getArrowHead(from: Point, tip: Point, stroke: StrokeStyle, options: Options): Drawable {
+    const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+    const arrowLength = Math.max(18, stroke.width * 7);
+    const arrowAngle = Math.PI / 6;
+
+    return generator.polygon([
+        [tip.x, tip.y],
+        [tip.x - arrowLength * Math.cos(angle - arrowAngle), tip.y - arrowLength * Math.sin(angle - arrowAngle)],
+        [tip.x - arrowLength * Math.cos(angle + arrowAngle), tip.y - arrowLength * Math.sin(angle + arrowAngle)],
+    ], { ...options, fill: stroke.color, fillStyle: 'solid' });
+}
+
+// =============================================================================
+// Freedraw
+// =============================================================================
+
+// Smooth the path using quadratic bezier curves
+export function getFreedrawPath({ x, y, points }: FreedrawElement): string {
+    if (points.length < 2) return '';
+
+    let d = `M ${x + points[0].x} ${y + points[0].y}`;
+
+    for (let i = 1; i < points.length - 1; i++) {
+        const p1 = points[i];
+        const p2 = points[i + 1];
+
+        const midX = (x + p1.x + x + p2.x) / 2;
+        const midY = (y + p1.y + y + p2.y) / 2;
+
+        d += ` Q ${x + p1.x} ${y + p1.y} ${midX} ${midY}`;
+    }
+
+    // Last point
+    const last = points[points.length - 1];
+    d += ` L ${x + last.x} ${y + last.y}`;
+
+    return d;
+}
+
+export function getFreedrawDash(stroke: StrokeStyle): number[] | undefined {
+    return stroke.style === 'dashed' ? [8, 4] : stroke.style === 'dotted' ? [2, 2] : undefined;
+}
+
+// =============================================================================
+// Text
+// =============================================================================
+
+export interface TextLayout {
+    lines: string[];
+    x: number;
+    y: number; // baseline of the first line
+    lineHeight: number;
+    anchor: 'start' | 'middle' | 'end';
+}
+
+export function getTextLayout({ x, y, width, height, text, textStyle }: TextElement): TextLayout {
+    const lines = text.split('\n');
+    const lineHeight = textStyle.fontSize * textStyle.lineHeight;
+    const totalHeight = lines.length * lineHeight;
+
+    return {
+        lines,
+        x: textStyle.textAlign === 'left' ? x + 4 : textStyle.textAlign === 'right' ? x + width - 4 : x + width / 2,
+        y: textStyle.verticalAlign === 'top'
+            ? y + textStyle.fontSize
+            : textStyle.verticalAlign === 'bottom'
+                ? y + height - totalHeight + textStyle.fontSize
+                : y + (height - totalHeight) / 2 + textStyle.fontSize,
+        lineHeight,
+        anchor: textStyle.textAlign === 'left' ? 'start' : textStyle.textAlign === 'right' ? 'end' : 'middle',
+    };
+}
@@ -0,0 +1,715 @@
+/**
+ * Excalidraw scene export and import
+ *
+ * Maps the board's element union to Excalidraw elements and back.
+ * Seeds and roughness are carried verbatim so rough.js draws the same
+ * wobble on both sides; board-only types (sticky, triangle, connector)
+ * are tagged in customData so they survive the round trip.
+ */
+
+import {
+    CanvasElement,
+    ShapeElement,
+    LineElement,
+    ArrowElement,
+    ConnectorElement,
+    FreedrawElement,
+    TextElement,
+    StickyElement,
+    ImageElement,
+    FrameElement,
+    StrokeStyle,
+    FillStyle,
+    TextStyle,
+    ArrowHead,
+    Binding,
+    Point,
+    StickyColor,
+    createBaseElement,
+    DEFAULT_TEXT_STYLE,
+    STICKY_COLORS,
+} from '../types/canvas';
+import { getElementSeed } from './rough-renderer';
+import { DEFAULT_ROUGHNESS } from './element-paint';
+import { ExportResult } from './diagram-ir';
+import { getImageSource } from './images';
+
+// =============================================================================
+// Excalidraw Types
+// =============================================================================
+
+type ExcalidrawArrowhead = 'arrow' | 'bar' | 'dot' | 'circle' | 'circle_outline' | 'triangle' | 'triangle_outline' | 'diamond' | 'diamond_outline' | null;
+
+interface ExcalidrawBinding {
+    elementId: string;
+    focus: number;
+    gap: number;
+}
+
+interface ExcalidrawElement {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    angle: number;
+    strokeColor: string;
+    backgroundColor: string;
+    fillStyle: string;
+    strokeWidth: number;
+    strokeStyle: 'solid' | 'dashed' | 'dotted';
+    roughness: number;
+    opacity: number;
+    groupIds: string[];
+    frameId: string | null;
+    roundness: { type: number; value?: number } | null;
+    seed: number;
+    version: number;
+    versionNonce: number;
+    isDeleted: boolean;
+    boundElements: { id: string; type: 'arrow' | 'text' }[] | null;
+    updated: number;
+    link: string | null;
+    locked: boolean;
+    customData?: Record<string, unknown>;
+    // text
+    text?: string;
+    originalText?: string;
+    fontSize?: number;
+    fontFamily?: number;
+    textAlign?: string;
+    verticalAlign?: string;
+    containerId?: string | null;
+    lineHeight?: number;
+    autoResize?: boolean;
+    // linear
+    points?: [number, number][];
+    lastCommittedPoint?: [number, number] | null;
+    startBinding?: ExcalidrawBinding | null;
+    endBinding?: ExcalidrawBinding | null;
+    startArrowhead?: ExcalidrawArrowhead;
+    endArrowhead?: ExcalidrawArrowhead;
+    elbowed?: boolean;
+    // freedraw
+    pressures?: number[];
+    simulatePressure?: boolean;
+    // frame
+    name?: string | null;
+    // image
+    fileId?: string | null;
+    status?: string;
+    scale?: [number, number];
+}
+
+interface ExcalidrawFile {
+    id: string;
+    mimeType: string;
+    dataURL: string;
+    created: number;
+}
+
+interface ExcalidrawScene {
+    type: 'excalidraw';
+    version: 2;
+    source: string;
+    elements: ExcalidrawElement[];
+    appState: Record<string, unknown>;
+    files: Record<string, ExcalidrawFile>;
+}
+
+// Excalidraw's own default when an element has no roughness
+const EXCALIDRAW_DEFAULT_ROUGHNESS = 1;
+
+const FONT_FAMILIES: Record<number, string> = {
+    1: "Virgil, 'Caveat', cursive",
+    2: DEFAULT_TEXT_STYLE.fontFamily,
+    3: "'Cascadia Code', monospace",
+    5: "Excalifont, 'Caveat', cursive",
+};
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export function exportToExcalidraw(elements: CanvasElement[]): ExportResult {
+    const out: ExcalidrawElement[] = [];
+    const files: Record<string, ExcalidrawFile> = {};
+    const byId = new Map<string, ExcalidrawElement>();
+
+    const frameOf = new Map<string, string>();
+    elements.forEach((el) => {
+        if (el.type === 'frame') el.childIds.forEach((childId) => frameOf.set(childId, el.id));
+    });
+
+    elements.forEach((el) => {
+        const base = createExcalidrawBase(el, frameOf.get(el.id) || null);
+        const converted = convertElement(el, base, files);
+        converted.forEach((item) => {
+            out.push(item);
+            byId.set(item.id, item);
+        });
+    });
+
+    // Bindable elements must list the arrows attached to them
+    out.forEach((item) => {
+        [item.startBinding, item.endBinding].forEach((binding) => {
+            const target = binding && byId.get(binding.elementId);
+            if (!target) return;
+            target.boundElements = [...(target.boundElements || []), { id: item.id, type: 'arrow' }];
+        });
+    });
+
+    const scene: ExcalidrawScene = {
+        type: 'excalidraw',
+        version: 2,
+        source: 'wb-diagram-board',
+        elements: out,
+        appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+        files,
+    };
+
+    return { output: JSON.stringify(scene, null, 2), skipped: [] };
+}
+
+function createExcalidrawBase(el: CanvasElement, frameId: string | null): ExcalidrawElement {
+    const stroke = 'stroke' in el ? el.stroke : undefined;
+    return {
+        id: el.id,
+        type: el.type,
+        x: el.x,
+        y: el.y,
+        width: el.width,
+        height: el.height,
+        angle: (el.rotation * Math.PI) / 180,
+        strokeColor: stroke?.color || '#1e1e1e',
+        backgroundColor: 'transparent',
+        fillStyle: 'solid',
+        strokeWidth: stroke?.width || 2,
+        strokeStyle: stroke?.style || 'solid',
+        roughness: el.roughness ?? DEFAULT_ROUGHNESS,
+        opacity: Math.round(el.opacity * 100),
+        groupIds: el.groupId ? [el.groupId] : [],
+        frameId,
+        roundness: null,
+        seed: getElementSeed(el),
+        version: 1,
+        versionNonce: Math.floor(Math.random() * 2 ** 31),
+        isDeleted: false,
+        boundElements: null,
+        updated: el.updatedAt,
+        link: null,
+        locked: el.locked,
+    };
+}
+
+function convertElement(
+    el: CanvasElement,
+    base: ExcalidrawElement,
+    files: Record<string, ExcalidrawFile>
+): ExcalidrawElement[] {
+    switch (el.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond': {
+            const shape: ExcalidrawElement = {
+                ...base,
+                ...getFillProps(el.fill),
+                roundness: el.type === 'rectangle' && el.cornerRadius > 0 ? { type: 3, value: el.cornerRadius } : null,
+            };
+            return withBoundText(shape, el.text, el.textStyle);
+        }
+        case 'triangle': {
+            const { width, height } = el;
+            const shape: ExcalidrawElement = {
+                ...base,
+                type: 'line',
+                ...getFillProps(el.fill),
+                ...getLinearProps(
+                    [{ x: width / 2, y: 0 }, { x: width, y: height }, { x: 0, y: height }, { x: width / 2, y: 0 }],
+                    'none',
+                    'none'
+                ),
+                customData: { wbType: 'triangle' },
+            };
+            return withBoundText(shape, el.text, el.textStyle);
+        }
+        case 'line':
+            return [{
+                ...base,
+                ...getLinearProps(el.points, el.startArrow, el.endArrow),
+            }];
+        case 'arrow': {
+            const arrow: ExcalidrawElement = {
+                ...base,
+                ...getLinearProps(el.points, el.startArrow, el.endArrow),
+                startBinding: el.startBinding ? { ...el.startBinding } : null,
+                endBinding: el.endBinding ? { ...el.endBinding } : null,
+            };
+            return withBoundText(arrow, el.label, el.labelStyle);
+        }
+        case 'connector': {
+            const route = [{ x: 0, y: 0 }, ...el.waypoints.map((p) => ({ x: p.x - el.x, y: p.y - el.y })), { x: el.width, y: el.height }];
+            const arrow: ExcalidrawElement = {
+                ...base,
+                type: 'arrow',
+                ...getLinearProps(route, el.startArrow, el.endArrow),
+                startBinding: el.startBinding ? { ...el.startBinding } : null,
+                endBinding: el.endBinding ? { ...el.endBinding } : null,
+                elbowed: el.routeType === 'elbow',
+                roundness: el.routeType === 'curved' ? { type: 2 } : null,
+                customData: { wbType: 'connector', routeType: el.routeType },
+            };
+            return withBoundText(arrow, el.label, el.labelStyle);
+        }
+        case 'freedraw':
+            return [{
+                ...base,
+                points: el.points.map((p) => [p.x, p.y]),
+                pressures: [],
+                simulatePressure: el.simulatePressure,
+                lastCommittedPoint: null,
+            }];
+        case 'text':
+            return [{
+                ...base,
+                strokeColor: el.textStyle.color,
+                ...getTextProps(el.text, el.textStyle),
+                containerId: null,
+            }];
+        case 'sticky': {
+            const shape: ExcalidrawElement = {
+                ...base,
+                type: 'rectangle',
+                strokeColor: 'transparent',
+                backgroundColor: STICKY_COLORS[el.color],
+                fillStyle: 'solid',
+                customData: { wbType: 'sticky', color: el.color },
+            };
+            return withBoundText(shape, el.text, el.textStyle);
+        }
+        case 'image': {
+            const src = getImageSource(el);
+            if (!src) return [];
+            // Stored images are shared by content, so their files are too
+            const fileId = el.fileId ?? `file-${el.id}`;
+            const mimeType = src.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+            files[fileId] = { id: fileId, mimeType, dataURL: src, created: el.createdAt };
+            return [{
+                ...base,
+                fileId,
+                status: 'saved',
+                scale: [1, 1],
+            }];
+        }
+        case 'frame':
+            return [{
+                ...base,
+                name: el.name,
+                roundness: null,
+            }];
+    }
+}
+
+// Excalidraw keeps container text in a separate element bound both ways
+function withBoundText(container: ExcalidrawElement, text: string | undefined, style: TextStyle | undefined): ExcalidrawElement[] {
+    if (!text) return [container];
+
+    const textStyle = style || DEFAULT_TEXT_STYLE;
+    const textProps = getTextProps(text, textStyle);
+    const center = container.points
+        ? getLinearMidpoint(container)
+        : { x: container.x + container.width / 2, y: container.y + container.height / 2 };
+
+    const textElement: ExcalidrawElement = {
+        id: `${container.id}-text`,
+        type: 'text',
+        x: center.x - textProps.width / 2,
+        y: center.y - textProps.height / 2,
+        angle: container.type === 'arrow' ? 0 : container.angle,
+        strokeColor: textStyle.color,
+        backgroundColor: 'transparent',
+        fillStyle: 'solid',
+        strokeWidth: container.strokeWidth,
+        strokeStyle: 'solid',
+        roughness: container.roughness,
+        opacity: container.opacity,
+        groupIds: container.groupIds,
+        frameId: container.frameId,
+        roundness: null,
+        seed: container.seed,
+        version: 1,
+        versionNonce: container.versionNonce,
+        isDeleted: false,
+        boundElements: null,
+        updated: container.updated,
+        link: null,
+        locked: container.locked,
+        ...textProps,
+        containerId: container.id,
+    };
+
+    return [
+        { ...container, boundElements: [{ id: textElement.id, type: 'text' }] },
+        textElement,
+    ];
+}
+
+function getLinearMidpoint(el: ExcalidrawElement): Point {
+    const points = el.points!;
+    const [px, py] = points[Math.floor(points.length / 2)];
+    if (points.length % 2 === 1) return { x: el.x + px, y: el.y + py };
+    const [qx, qy] = points[points.length / 2 - 1];
+    return { x: el.x + (px + qx) / 2, y: el.y + (py + qy) / 2 };
+}
+
+function getFillProps(fill: FillStyle): Pick<ExcalidrawElement, 'backgroundColor' | 'fillStyle'> {
+    return {
+        backgroundColor: fill.type === 'none' ? 'transparent' : fill.color,
+        fillStyle: fill.type === 'none' ? 'solid' : fill.type,
+    };
+}
+
+function getLinearProps(points: Point[], startArrow: ArrowHead, endArrow: ArrowHead) {
+    return {
+        points: points.map((p) => [p.x, p.y] as [number, number]),
+        lastCommittedPoint: null,
+        startBinding: null,
+        endBinding: null,
+        startArrowhead: toExcalidrawArrowhead(startArrow),
+        endArrowhead: toExcalidrawArrowhead(endArrow),
+    };
+}
+
+function getTextProps(text: string, style: TextStyle) {
+    const lines = text.split('\n');
+    const fontFamily = /mono/i.test(style.fontFamily) ? 3 : /virgil|caveat|cursive|excalifont/i.test(style.fontFamily) ? 1 : 2;
+    return {
+        text,
+        originalText: text,
+        fontSize: style.fontSize,
+        fontFamily,
+        textAlign: style.textAlign,
+        verticalAlign: style.verticalAlign,
+        lineHeight: style.lineHeight,
+        autoResize: true,
+        // Rough metrics; Excalidraw re-measures text when it loads the scene
+        width: Math.max(...lines.map((line) => line.length)) * style.fontSize * 0.6,
+        height: lines.length * style.fontSize * style.lineHeight,
+    };
+}
+
+function toExcalidrawArrowhead(head: ArrowHead): ExcalidrawArrowhead {
+    switch (head) {
+        case 'arrow':
+            return 'arrow';
+        case 'triangle':
+            return 'triangle';
+        case 'diamond':
+            return 'diamond';
+        case 'circle':
+            return 'circle';
+        case 'bar':
+            return 'bar';
+        default:
+            return null;
+    }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+export function importFromExcalidraw(json: string): CanvasElement[] {
+    const data = JSON.parse(json);
+    if (!data || !Array.isArray(data.elements) || (data.type && !String(data.type).startsWith('excalidraw'))) {
+        throw new Error('File is not an Excalidraw scene');
+    }
+
+    const source: ExcalidrawElement[] = data.elements.filter((el: ExcalidrawElement) => !el.isDeleted);
+    const files: Record<string, ExcalidrawFile> = data.files || {};
+
+    // Container text is folded back into its shape or arrow
+    const boundText = new Map<string, ExcalidrawElement>();
+    source.forEach((el) => {
+        if (el.type === 'text' && el.containerId) boundText.set(el.containerId, el);
+    });
+
+    const sourceIds = new Set(source.map((el) => el.id));
+    const elements: CanvasElement[] = [];
+    source.forEach((el) => {
+        if (el.type === 'text' && el.containerId && sourceIds.has(el.containerId)) return;
+        const converted = fromExcalidraw(el, boundText.get(el.id), files);
+        if (converted) elements.push(converted);
+    });
+
+    // Rebuild frame membership from the children's frameId
+    const frames = new Map(elements.filter((el): el is FrameElement => el.type === 'frame').map((f) => [f.id, f]));
+    const frameIds = new Map(source.map((el) => [el.id, el.frameId]));
+    elements.forEach((el) => {
+        const frameId = frameIds.get(el.id);
+        const frame = frameId ? frames.get(frameId) : undefined;
+        if (frame) frame.childIds.push(el.id);
+    });
+
+    return elements;
+}
+
+function fromExcalidraw(
+    el: ExcalidrawElement,
+    text: ExcalidrawElement | undefined,
+    files: Record<string, ExcalidrawFile>
+): CanvasElement | null {
+    const base = {
+        ...createBaseElement('rectangle', el.x, el.y),
+        id: el.id,
+        width: el.width,
+        height: el.height,
+        rotation: ((el.angle || 0) * 180) / Math.PI,
+        opacity: (el.opacity ?? 100) / 100,
+        locked: !!el.locked,
+        groupId: el.groupIds?.length ? el.groupIds[el.groupIds.length - 1] : undefined,
+        seed: el.seed,
+        roughness: el.roughness ?? EXCALIDRAW_DEFAULT_ROUGHNESS,
+        updatedAt: el.updated || Date.now(),
+    };
+    const stroke = readStroke(el);
+    const wbType = el.customData?.wbType;
+
+    switch (el.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond': {
+            if (wbType === 'sticky') {
+                const sticky: StickyElement = {
+                    ...base,
+                    type: 'sticky',
+                    text: text?.text || '',
+                    textStyle: text ? readTextStyle(text) : { ...DEFAULT_TEXT_STYLE, fontSize: 14 },
+                    color: (el.customData?.color as StickyColor) || 'yellow',
+                };
+                return sticky;
+            }
+            const shape: ShapeElement = {
+                ...base,
+                type: el.type,
+                stroke,
+                fill: readFill(el),
+                cornerRadius: el.type === 'rectangle' && el.roundness
+                    ? Math.min(el.roundness.value ?? 32, Math.min(el.width, el.height) * 0.25)
+                    : 0,
+                ...(text ? { text: text.text, textStyle: readTextStyle(text) } : {}),
+            };
+            return shape;
+        }
+        case 'line': {
+            const points = readPoints(el);
+            if (wbType === 'triangle') {
+                const shape: ShapeElement = {
+                    ...base,
+                    type: 'triangle',
+                    stroke,
+                    fill: readFill(el),
+                    cornerRadius: 0,
+                    ...(text ? { text: text.text, textStyle: readTextStyle(text) } : {}),
+                };
+                return shape;
+            }
+            if (isCurved(el, points)) {
+                const connector: ConnectorElement = {
+                    ...base,
+                    ...readRoute(el, points),
+                    stroke,
+                    startArrow: fromExcalidrawArrowhead(el.startArrowhead),
+                    endArrow: fromExcalidrawArrowhead(el.endArrowhead),
+                };
+                return connector;
+            }
+            const line: LineElement = {
+                ...base,
+                type: 'line',
+                ...normalizeLinear(el.x, el.y, points),
+                stroke,
+                startArrow: fromExcalidrawArrowhead(el.startArrowhead),
+                endArrow: fromExcalidrawArrowhead(el.endArrowhead),
+            };
+            return line;
+        }
+        case 'arrow': {
+            const points = readPoints(el);
+            const startBinding = readBinding(el.startBinding);
+            const endBinding = readBinding(el.endBinding);
+            const startArrow = fromExcalidrawArrowhead(el.startArrowhead);
+            const endArrow = fromExcalidrawArrowhead(el.endArrowhead);
+
+            // We only draw curves as connectors
+            if (wbType === 'connector' || isCurved(el, points)) {
+                const connector: ConnectorElement = {
+                    ...base,
+                    ...readRoute(el, points),
+                    stroke,
+                    startArrow,
+                    endArrow,
+                    startBinding,
+                    endBinding,
+                    label: text?.text,
+                    labelStyle: text ? readTextStyle(text) : undefined,
+                };
+                return connector;
+            }
+
+            const arrow: ArrowElement = {
+                ...base,
+                type: 'arrow',
+                ...normalizeLinear(el.x, el.y, points),
+                stroke,
+                startArrow,
+                endArrow,
+                startBinding,
+                endBinding,
+                label: text?.text,
+                labelStyle: text ? readTextStyle(text) : undefined,
+            };
+            return arrow;
+        }
+        case 'freedraw': {
+            const freedraw: FreedrawElement = {
+                ...base,
+                type: 'freedraw',
+                points: readPoints(el),
+                stroke,
+                simulatePressure: el.simulatePressure ?? true,
+            };
+            return freedraw;
+        }
+        case 'text': {
+            const textElement: TextElement = {
+                ...base,
+                type: 'text',
+                text: el.text || '',
+                textStyle: readTextStyle(el),
+            };
+            return textElement;
+        }
+        case 'image': {
+            const file = el.fileId ? files[el.fileId] : undefined;
+            if (!file) return null;
+            const image: ImageElement = {
+                ...base,
+                type: 'image',
+                src: file.dataURL,
+                naturalWidth: el.width,
+                naturalHeight: el.height,
+            };
+            return image;
+        }
+        case 'frame':
+        case 'magicframe': {
+            const frame: FrameElement = {
+                ...base,
+                type: 'frame',
+                name: el.name || 'Frame',
+                stroke,
+                fill: { type: 'none', color: '#ffffff' },
+                childIds: [],
+                clip: true,
+            };
+            return frame;
+        }
+        default:
+            return null;
+    }
+}
+
+function readPoints(el: ExcalidrawElement): Point[] {
+    return (el.points || []).map(([x, y]) => ({ x, y }));
+}
+
+// Bent and rounded; two points make a straight line either way
+function isCurved(el: ExcalidrawElement, points: Point[]): boolean {
+    return !!el.roundness && points.length > 2;
+}
+
+// A connector through the points, starting at the first one
+function readRoute(el: ExcalidrawElement, points: Point[]) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    return {
+        type: 'connector' as const,
+        x: el.x + first.x,
+        y: el.y + first.y,
+        width: last.x - first.x,
+        height: last.y - first.y,
+        routeType: (el.customData?.routeType as ConnectorElement['routeType']) || (el.roundness ? 'curved' : 'straight'),
+        waypoints: points.slice(1, -1).map((p) => ({ x: el.x + p.x, y: el.y + p.y })),
+    };
+}
+
+// Excalidraw points may be negative; ours are relative to the bounding box
+function normalizeLinear(x: number, y: number, points: Point[]) {
+    const minX = Math.min(...points.map((p) => p.x));
+    const minY = Math.min(...points.map((p) => p.y));
+    const maxX = Math.max(...points.map((p) => p.x));
+    const maxY = Math.max(...points.map((p) => p.y));
+    return {
+        x: x + minX,
+        y: y + minY,
+        width: Math.max(maxX - minX, 1),
+        height: Math.max(maxY - minY, 1),
+        points: points.map((p) => ({ x: p.x - minX, y: p.y - minY })),
+    };
+}
+
+function readBinding(binding: ExcalidrawBinding | null | undefined): Binding | undefined {
+    if (!binding) return undefined;
+    return { elementId: binding.elementId, focus: binding.focus, gap: binding.gap };
+}
+
+function readStroke(el: ExcalidrawElement): StrokeStyle {
+    return {
+        color: el.strokeColor === 'transparent' ? 'transparent' : el.strokeColor || '#1e1e1e',
+        width: el.strokeWidth || 1,
+        style: el.strokeStyle || 'solid',
+    };
+}
+
+function readFill(el: ExcalidrawElement): FillStyle {
+    if (!el.backgroundColor || el.backgroundColor === 'transparent') {
+        return { type: 'none', color: '#ffffff' };
+    }
+    const type = el.fillStyle === 'hachure' || el.fillStyle === 'cross-hatch' ? el.fillStyle : 'solid';
+    return { type, color: el.backgroundColor };
+}
+
+function readTextStyle(el: ExcalidrawElement): TextStyle {
+    return {
+        ...DEFAULT_TEXT_STYLE,
+        fontSize: el.fontSize || DEFAULT_TEXT_STYLE.fontSize,
+        fontFamily: FONT_FAMILIES[el.fontFamily || 2] || DEFAULT_TEXT_STYLE.fontFamily,
+        textAlign: (el.textAlign as TextStyle['textAlign']) || 'center',
+        verticalAlign: (el.verticalAlign as TextStyle['verticalAlign']) || 'middle',
+        color: el.strokeColor || DEFAULT_TEXT_STYLE.color,
+        lineHeight: el.lineHeight || 1.25,
+    };
+}
+
+function fromExcalidrawArrowhead(head: ExcalidrawArrowhead | undefined): ArrowHead {
+    switch (head) {
+        case 'arrow':
+            return 'arrow';
+        case 'triangle':
+        case 'triangle_outline':
+            return 'triangle';
+        case 'diamond':
+        case 'diamond_outline':
+            return 'diamond';
+        case 'dot':
+        case 'circle':
+        case 'circle_outline':
+            return 'circle';
+        case 'bar':
+            return 'bar';
+        default:
+            return 'none';
+    }
+}
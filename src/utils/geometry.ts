@@ -0,0 +1,306 @@
+/**
+ * Geometry helpers
+ *
+ * Outline-accurate tests against element geometry, in canvas coordinates
+ */
+
+import { Bounds, CanvasElement, Point, ResizeHandle } from '../types/canvas';
+
+const ELLIPSE_SEGMENTS = 32;
+
+// =============================================================================
+// Primitives
+// =============================================================================
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+export function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+    const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+// Parameter t along ab where it crosses cd, or null
+export function intersectSegments(a: Point, b: Point, c: Point, d: Point): number | null {
+    if (!segmentsIntersect(a, b, c, d)) return null;
+    const denom = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+    if (denom === 0) return null;
+    return ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denom;
+}
+
+// Shortest distance between segments ab and cd
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+    if (segmentsIntersect(a, b, c, d)) return 0;
+    return Math.min(
+        distanceToSegment(a, c, d),
+        distanceToSegment(b, c, d),
+        distanceToSegment(c, a, b),
+        distanceToSegment(d, a, b),
+    );
+}
+
+// Rotate p around center, clockwise on screen (y points down)
+export function rotatePoint(p: Point, center: Point, degrees: number): Point {
+    if (!degrees) return p;
+    const angle = (degrees * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = p.x - center.x;
+    const dy = p.y - center.y;
+    return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+// Even-odd rule
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// =============================================================================
+// Element Outlines
+// =============================================================================
+
+// Drawn bounds, axis-aligned around the rotated element
+export function getElementBounds(el: CanvasElement): Bounds {
+    if (!getRotation(el)) return getUnrotatedBounds(el);
+    const { minX, minY, maxX, maxY } = getPointsBounds(getElementOutline(el));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Bounds before rotation. Point-based elements are not guaranteed to stay
+// within x/y/width/height (freedraw points go negative, connectors run
+// from x/y to x+width/y+height in any direction), so those are measured
+export function getUnrotatedBounds(el: CanvasElement): Bounds {
+    if (el.type !== 'line' && el.type !== 'arrow' && el.type !== 'freedraw' && el.type !== 'connector') {
+        return { x: el.x, y: el.y, width: el.width, height: el.height };
+    }
+    const { minX, minY, maxX, maxY } = getPointsBounds(getUnrotatedOutline(el));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Degrees clockwise. Connectors and frames are never drawn rotated
+export function getRotation(el: CanvasElement): number {
+    return el.type === 'connector' || el.type === 'frame' ? 0 : el.rotation || 0;
+}
+
+// Elements rotate around the center of their unrotated bounds
+export function getRotationCenter(el: CanvasElement): Point {
+    const b = getUnrotatedBounds(el);
+    return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+// How far to move a rotated box resized from `from` to `to` so the side
+// or corner opposite `handle` stays where it is on screen
+export function getResizeAnchorOffset(from: Bounds, to: Bounds, handle: ResizeHandle, rotation: number): Point {
+    if (!rotation) return { x: 0, y: 0 };
+    const anchor = (b: Bounds): Point => ({
+        x: handle.includes('w') ? b.x + b.width : handle.includes('e') ? b.x : b.x + b.width / 2,
+        y: handle.includes('n') ? b.y + b.height : handle.includes('s') ? b.y : b.y + b.height / 2,
+    });
+    const center = (b: Bounds): Point => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+    const before = rotatePoint(anchor(from), center(from), rotation);
+    const after = rotatePoint(anchor(to), center(to), rotation);
+    return { x: before.x - after.x, y: before.y - after.y };
+}
+
+// A canvas point in the element's unrotated frame, for hit tests
+export function toUnrotatedPoint(el: CanvasElement, p: Point): Point {
+    const rotation = getRotation(el);
+    return rotation ? rotatePoint(p, getRotationCenter(el), -rotation) : p;
+}
+
+export function pointInBounds(p: Point, b: Bounds): boolean {
+    return p.x >= b.x && p.x <= b.x + b.width && p.y >= b.y && p.y <= b.y + b.height;
+}
+
+// Touching edges count
+export function boundsOverlap(a: Bounds, b: Bounds): boolean {
+    return a.x <= b.x + b.width && b.x <= a.x + a.width &&
+        a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+// The strokes an element draws, as absolute polylines. Closed outlines
+// repeat their first point at the end. Connectors give their control
+// points; the routed path depends on other elements
+export function getElementOutline(el: CanvasElement): Point[] {
+    const outline = getUnrotatedOutline(el);
+    const rotation = getRotation(el);
+    if (!rotation) return outline;
+
+    const center = getRotationCenter(el);
+    return outline.map((p) => rotatePoint(p, center, rotation));
+}
+
+function getUnrotatedOutline(el: CanvasElement): Point[] {
+    const { x, y, width: w, height: h } = el;
+
+    switch (el.type) {
+        case 'connector':
+            return [{ x, y }, ...el.waypoints, { x: x + w, y: y + h }];
+        case 'line':
+        case 'arrow':
+        case 'freedraw':
+            return el.points.map((p) => ({ x: x + p.x, y: y + p.y }));
+        case 'ellipse': {
+            const points: Point[] = [];
+            for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+                const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+                points.push({ x: x + w / 2 + (w / 2) * Math.cos(angle), y: y + h / 2 + (h / 2) * Math.sin(angle) });
+            }
+            return points;
+        }
+        case 'diamond':
+            return [
+                { x: x + w / 2, y },
+                { x: x + w, y: y + h / 2 },
+                { x: x + w / 2, y: y + h },
+                { x, y: y + h / 2 },
+                { x: x + w / 2, y },
+            ];
+        case 'triangle':
+            return [
+                { x: x + w / 2, y },
+                { x: x + w, y: y + h },
+                { x, y: y + h },
+                { x: x + w / 2, y },
+            ];
+        default:
+            return [
+                { x, y },
+                { x: x + w, y },
+                { x: x + w, y: y + h },
+                { x, y: y + h },
+                { x, y },
+            ];
+    }
+}
+
+// Whether the element's interior counts as part of it, rather than just
+// its outline. Frames are containers, so only their border is solid
+export function hasSolidInterior(el: CanvasElement): boolean {
+    switch (el.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle':
+            return el.fill.type !== 'none';
+        case 'text':
+        case 'sticky':
+        case 'image':
+            return true;
+        default:
+            return false;
+    }
+}
+
+function getPointsBounds(points: Point[]) {
+    let minX = Infinity, minY = Infinity;
+    let maxX = -Infinity, maxY = -Infinity;
+    points.forEach((p) => {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+    });
+    return { minX, minY, maxX, maxY };
+}
+
+function getStrokeWidth(el: CanvasElement): number {
+    return 'stroke' in el ? el.stroke.width : 0;
+}
+
+// =============================================================================
+// Path Tests
+// =============================================================================
+
+// Whether a pointer path segment from -> to, of the given radius, touches
+// the element's drawn strokes (or its interior, for solid elements)
+export function pathHitsElement(
+    el: CanvasElement,
+    from: Point,
+    to: Point,
+    radius: number,
+    outline = getElementOutline(el)
+): boolean {
+    const tolerance = radius + getStrokeWidth(el) / 2;
+
+    // Cheap reject against the outline's bounds. Point lists are not
+    // guaranteed to lie within x/y/width/height (freedraw starts at 0,0)
+    const bounds = getPointsBounds(outline);
+    if (
+        Math.max(from.x, to.x) + tolerance < bounds.minX ||
+        Math.min(from.x, to.x) - tolerance > bounds.maxX ||
+        Math.max(from.y, to.y) + tolerance < bounds.minY ||
+        Math.min(from.y, to.y) - tolerance > bounds.maxY
+    ) {
+        return false;
+    }
+
+    if (outline.length === 1) {
+        return segmentDistance(from, to, outline[0], outline[0]) <= tolerance;
+    }
+    for (let i = 0; i < outline.length - 1; i++) {
+        if (segmentDistance(from, to, outline[i], outline[i + 1]) <= tolerance) return true;
+    }
+
+    return hasSolidInterior(el) && (pointInPolygon(from, outline) || pointInPolygon(to, outline));
+}
+
+// =============================================================================
+// Hit Tests
+// =============================================================================
+
+// Whether a click at p picks the element: within `tolerance` of a drawn
+// stroke, or anywhere inside a solid element. Unfilled shapes are picked
+// by their outline only, so whatever shows through them stays clickable
+export function hitTestElement(
+    el: CanvasElement,
+    p: Point,
+    tolerance: number,
+    outline = getElementOutline(el)
+): boolean {
+    return pathHitsElement(el, p, p, tolerance, outline);
+}
+
+// Marquee that only takes elements it fully encloses
+export function elementInBox(el: CanvasElement, box: Bounds, outline = getElementOutline(el)): boolean {
+    return outline.every((p) => pointInBounds(p, box));
+}
+
+// Marquee that takes everything it touches
+export function elementIntersectsBox(el: CanvasElement, box: Bounds, outline = getElementOutline(el)): boolean {
+    if (outline.some((p) => pointInBounds(p, box))) return true;
+
+    const corners = [
+        { x: box.x, y: box.y },
+        { x: box.x + box.width, y: box.y },
+        { x: box.x + box.width, y: box.y + box.height },
+        { x: box.x, y: box.y + box.height },
+    ];
+    for (let i = 0; i < outline.length - 1; i++) {
+        for (let j = 0; j < 4; j++) {
+            if (segmentsIntersect(outline[i], outline[i + 1], corners[j], corners[(j + 1) % 4])) return true;
+        }
+    }
+
+    // Box drawn entirely inside a solid element
+    return hasSolidInterior(el) && pointInPolygon(corners[0], outline);
+}
@@ -0,0 +1,48 @@
+/**
+ * History tree
+ *
+ * Undo history is a tree: every entry points at the entry it was made on
+ * top of, so editing after an undo starts a new branch instead of throwing
+ * the undone entries away
+ */
+
+import { HistoryEntry } from '../types/canvas';
+
+// Entries from the first one down to `id`, oldest first. Empty for null,
+// the state before any entry
+export function getHistoryPath(history: HistoryEntry[], id: string | null): HistoryEntry[] {
+    const byId = new Map(history.map((entry) => [entry.id, entry]));
+    const path: HistoryEntry[] = [];
+    for (let entry = id === null ? undefined : byId.get(id); entry; entry = entry.parentId === null ? undefined : byId.get(entry.parentId)) {
+        path.push(entry);
+    }
+    return path.reverse();
+}
+
+// Last entry of the branch through `id`, following the newest edits
+export function getBranchEnd(history: HistoryEntry[], id: string): string {
+    let end = id;
+    for (;;) {
+        const children = history.filter((entry) => entry.parentId === end);
+        if (children.length === 0) return end;
+        // Entries are in creation order, so the last child is the newest
+        end = children[children.length - 1].id;
+    }
+}
+
+// Entries made on top of `id`, which itself is left out
+export function getDescendantIds(history: HistoryEntry[], id: string): Set<string> {
+    const ids = new Set([id]);
+    history.forEach((entry) => {
+        if (entry.parentId !== null && ids.has(entry.parentId)) ids.add(entry.id);
+    });
+    ids.delete(id);
+    return ids;
+}
+
+export function describeHistoryEntry(entry: HistoryEntry): string {
+    if (entry.label) return entry.label;
+    const action = entry.type === 'add' ? 'Add' : entry.type === 'delete' ? 'Delete' : 'Edit';
+    const count = entry.elementIds.length;
+    return `${action} ${count} element${count === 1 ? '' : 's'}`;
+}
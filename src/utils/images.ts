@@ -0,0 +1,185 @@
+/**
+ * Images
+ *
+ * Image data lives in a content-addressed file store rather than on the
+ * elements, so history entries, copies and duplicates all share one copy.
+ * Files are kept in memory as data URLs and written to IndexedDB in the
+ * background
+ */
+
+import { Bounds, CanvasElement, ImageElement, ResizeHandle } from '../types/canvas';
+import * as storage from './storage';
+
+const files = new Map<string, string>(); // file id -> data URL
+
+export interface ImageFileInfo {
+    fileId: string;
+    naturalWidth: number;
+    naturalHeight: number;
+}
+
+// =============================================================================
+// File Store
+// =============================================================================
+
+// Add an image to the store, returning its id. Identical images get the
+// same id and are stored once
+export function addImageFile(dataUrl: string): string {
+    const id = hashString(dataUrl);
+    if (!files.has(id)) {
+        files.set(id, dataUrl);
+        persistFile(id, dataUrl).catch((e) => console.error('Failed to store image:', e));
+    }
+    return id;
+}
+
+export function getImageFile(id: string): string | undefined {
+    return files.get(id);
+}
+
+// Bring stored files into memory, e.g. before opening a board
+export async function loadImageFiles(ids: string[]): Promise<void> {
+    const missing = [...new Set(ids)].filter((id) => !files.has(id));
+    if (missing.length === 0) return;
+
+    const stored = await storage.loadFiles(missing);
+    await Promise.all(stored.map(async (file) => {
+        files.set(file.id, await blobToDataUrl(file.blob));
+    }));
+}
+
+// Read a pasted, dropped or picked file into the store
+export async function readImageFile(file: Blob): Promise<ImageFileInfo> {
+    const dataUrl = await blobToDataUrl(file);
+    const image = await decodeImage(dataUrl);
+    return {
+        fileId: addImageFile(dataUrl),
+        naturalWidth: image.naturalWidth,
+        naturalHeight: image.naturalHeight,
+    };
+}
+
+async function persistFile(id: string, dataUrl: string) {
+    const blob = await (await fetch(dataUrl)).blob();
+    await storage.saveFile({ id, blob, createdAt: Date.now() });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('File is not a supported image'));
+        image.src = src;
+    });
+}
+
+// cyrb53 - fast 53-bit string hash, plenty to tell images apart
+function hashString(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// =============================================================================
+// Elements
+// =============================================================================
+
+// Where to draw an image from; undefined while its file is missing
+export function getImageSource(el: ImageElement): string | undefined {
+    return el.fileId ? files.get(el.fileId) : el.src;
+}
+
+export function getImageFileIds(elements: CanvasElement[]): string[] {
+    return elements.flatMap((el) => (el.type === 'image' && el.fileId ? [el.fileId] : []));
+}
+
+// Move inline data URLs (imported files, older boards) into the store
+export function internImages<T extends CanvasElement>(elements: T[]): T[] {
+    return elements.map((el) => {
+        if (el.type !== 'image' || !el.src?.startsWith('data:')) return el;
+        const { src, ...rest } = el;
+        return { ...rest, fileId: addImageFile(src) } as T;
+    });
+}
+
+// Inline the stored data, for files that leave the browser
+export function inlineImages<T extends CanvasElement>(elements: T[]): T[] {
+    return elements.map((el) => {
+        if (el.type !== 'image' || !el.fileId) return el;
+        const { fileId, ...rest } = el;
+        return { ...rest, src: files.get(fileId) } as T;
+    });
+}
+
+// =============================================================================
+// Crop
+// =============================================================================
+
+// Where the whole image would be drawn at the element's current scale
+export function getUncroppedBounds(el: ImageElement): Bounds {
+    const crop = el.crop ?? { x: 0, y: 0, width: el.naturalWidth, height: el.naturalHeight };
+    const scaleX = el.width / crop.width;
+    const scaleY = el.height / crop.height;
+    return {
+        x: el.x - crop.x * scaleX,
+        y: el.y - crop.y * scaleY,
+        width: el.naturalWidth * scaleX,
+        height: el.naturalHeight * scaleY,
+    };
+}
+
+// Move the crop edges under `handle` by (dx, dy), keeping the image where
+// it is and the crop inside it
+export function cropImage(
+    el: ImageElement,
+    handle: ResizeHandle,
+    dx: number,
+    dy: number,
+    minSize: number
+): Pick<ImageElement, 'x' | 'y' | 'width' | 'height' | 'crop'> {
+    const full = getUncroppedBounds(el);
+    let left = el.x;
+    let top = el.y;
+    let right = el.x + el.width;
+    let bottom = el.y + el.height;
+
+    if (handle.includes('w')) left = clamp(left + dx, full.x, right - minSize);
+    if (handle.includes('e')) right = clamp(right + dx, left + minSize, full.x + full.width);
+    if (handle.includes('n')) top = clamp(top + dy, full.y, bottom - minSize);
+    if (handle.includes('s')) bottom = clamp(bottom + dy, top + minSize, full.y + full.height);
+
+    const scaleX = full.width / el.naturalWidth;
+    const scaleY = full.height / el.naturalHeight;
+    return {
+        x: left,
+        y: top,
+        width: right - left,
+        height: bottom - top,
+        crop: {
+            x: (left - full.x) / scaleX,
+            y: (top - full.y) / scaleY,
+            width: (right - left) / scaleX,
+            height: (bottom - top) / scaleY,
+        },
+    };
+}
+
+function clamp(value: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,32 @@
+/**
+ * Mermaid flowchart export
+ */
+
+import { generateMermaid } from '@whitebite/diagram-converter';
+import type { Diagram } from '@whitebite/diagram-converter';
+import { CanvasElement } from '../types/canvas';
+import { canvasToDiagram, ExportResult } from './diagram-ir';
+
+export function exportToMermaid(elements: CanvasElement[]): ExportResult {
+    const { diagram, skipped } = canvasToDiagram(elements);
+    return {
+        output: generateMermaid(quoteLabels(diagram)) + '\n',
+        skipped,
+    };
+}
+
+// The generator writes labels verbatim, so brackets, pipes or quotes in
+// user text would break the syntax. Quoted labels accept anything except
+// '"', which Mermaid spells as an entity code.
+function quoteLabels(diagram: Diagram): Diagram {
+    return {
+        ...diagram,
+        nodes: diagram.nodes.map((node) => ({ ...node, label: quote(node.label || ' ') })),
+        edges: diagram.edges.map((edge) => ({ ...edge, label: edge.label ? quote(edge.label) : undefined })),
+        groups: diagram.groups.map((group) => ({ ...group, label: quote(group.label || group.id) })),
+    };
+}
+
+function quote(text: string): string {
+    return `"${text.replace(/"/g, '#quot;').replace(/\r?\n/g, '<br/>')}"`;
+}
@@ -0,0 +1,277 @@
+/**
+ * PlantUML export
+ *
+ * Emits component-diagram syntax from the diagram IR, or activity-diagram
+ * syntax when the board reads as a flow: an ellipse that only has arrows
+ * leaving it is a start, a diamond with several arrows leaving it is a
+ * decision. The converter package ships a generator too, but it escapes
+ * labels in a way that turns line breaks into literal "\n" text, so the
+ * source is built here
+ */
+
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode } from '@whitebite/diagram-converter';
+import { CanvasElement } from '../types/canvas';
+import { canvasToDiagram, ExportResult, SkippedElement } from './diagram-ir';
+
+export function exportToPlantUML(elements: CanvasElement[]): ExportResult {
+    const { diagram, skipped } = canvasToDiagram(elements);
+    const types = new Map(elements.map((el) => [el.id, el.type]));
+
+    if (isActivity(diagram)) {
+        const activity = generateActivity(diagram, types);
+        return {
+            output: activity.output,
+            skipped: [...skipped, ...activity.skipped],
+        };
+    }
+
+    return {
+        output: generate(diagram, types),
+        skipped,
+    };
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+function generate(diagram: Diagram, types: Map<string, CanvasElement['type']>): string {
+    const lines = ['@startuml', ''];
+
+    if (diagram.metadata?.direction === 'LR') {
+        lines.push('left to right direction');
+    }
+    lines.push('skinparam defaultTextAlignment center');
+    lines.push('skinparam shadowing false');
+    lines.push('');
+
+    const grouped = new Set(diagram.groups.flatMap((g) => g.children));
+    const nodes = new Map(diagram.nodes.map((n) => [n.id, n]));
+
+    diagram.groups.forEach((group) => {
+        lines.push(...groupLines(group, nodes, types), '');
+    });
+
+    const loose = diagram.nodes.filter((n) => !grouped.has(n.id));
+    loose.forEach((node) => lines.push(nodeLine(node, types)));
+    if (loose.length > 0) lines.push('');
+
+    diagram.edges.forEach((edge) => lines.push(edgeLine(edge)));
+    if (diagram.edges.length > 0) lines.push('');
+
+    lines.push('@enduml', '');
+    return lines.join('\n');
+}
+
+function groupLines(
+    group: DiagramGroup,
+    nodes: Map<string, DiagramNode>,
+    types: Map<string, CanvasElement['type']>
+): string[] {
+    const header = `package ${quote(group.label || group.id)} as ${group.id}${color(group.style?.fill)} {`;
+    const children = group.children
+        .map((id) => nodes.get(id))
+        .filter((node): node is DiagramNode => !!node)
+        .map((node) => `    ${nodeLine(node, types)}`);
+
+    return [header, ...children, '}'];
+}
+
+function nodeLine(node: DiagramNode, types: Map<string, CanvasElement['type']>): string {
+    const label = quote(node.label || ' ');
+    const fill = color(node.style.fill);
+    const elementType = types.get(node.metadata?.elementId as string);
+
+    // Free text has no border in PlantUML either
+    if (elementType === 'text') {
+        return `label ${label} as ${node.id}`;
+    }
+
+    switch (node.shape) {
+        case 'diamond':
+            return `agent ${label} as ${node.id} <<decision>>${fill}`;
+        case 'ellipse':
+            return `usecase ${label} as ${node.id}${fill}`;
+        case 'rounded-rectangle':
+            return `card ${label} as ${node.id}${fill}`;
+        case 'note':
+            return `note ${label} as ${node.id}${fill}`;
+        default:
+            return `rectangle ${label} as ${node.id}${fill}`;
+    }
+}
+
+function edgeLine(edge: DiagramEdge): string {
+    const relation = `${edge.source} ${arrowSyntax(edge)} ${edge.target}`;
+    return edge.label ? `${relation} : ${escape(edge.label)}` : relation;
+}
+
+function arrowSyntax(edge: DiagramEdge): string {
+    const { sourceType, targetType, lineType } = edge.arrow;
+    const body = lineType === 'dashed' || lineType === 'dotted' ? '..' : '--';
+    return `${headSyntax(sourceType, 'start')}${body}${headSyntax(targetType, 'end')}`;
+}
+
+function headSyntax(type: DiagramEdge['arrow']['sourceType'], side: 'start' | 'end'): string {
+    switch (type) {
+        case 'arrow':
+            return side === 'start' ? '<' : '>';
+        case 'circle':
+            return 'o';
+        case 'diamond':
+        case 'diamond-filled':
+            return '*';
+        default:
+            return '';
+    }
+}
+
+// =============================================================================
+// Activity diagrams
+// =============================================================================
+
+function isActivity(diagram: Diagram): boolean {
+    return diagram.nodes.some((node) => {
+        const incoming = diagram.edges.filter((e) => e.target === node.id).length;
+        const outgoing = diagram.edges.filter((e) => e.source === node.id).length;
+        return (node.shape === 'ellipse' && incoming === 0 && outgoing > 0)
+            || (node.shape === 'diamond' && outgoing > 1);
+    });
+}
+
+// Walks the flow from its starts. Branches of a decision (or of a fork,
+// for any other step with several arrows leaving it) run until the first
+// step all of them reach. Activity syntax cannot jump back, so arrows to
+// a step already placed are reported, as are steps outside the flow
+function generateActivity(
+    diagram: Diagram,
+    types: Map<string, CanvasElement['type']>
+): { output: string; skipped: SkippedElement[] } {
+    const lines = ['@startuml', ''];
+    const skipped: SkippedElement[] = [];
+    const placed = new Set<string>();
+    const nodes = new Map(diagram.nodes.map((n) => [n.id, n]));
+    const connected = diagram.nodes.filter((n) => diagram.edges.some((e) => e.source === n.id || e.target === n.id));
+    // Frames become swimlanes only when every step is in one: a lane runs
+    // on until the next, so a step outside would land in the last one
+    const framed = new Map(diagram.groups.flatMap((g) => g.children.map((id) => [id, g.label || g.id] as const)));
+    const lanes = connected.every((n) => framed.has(n.id)) ? framed : new Map<string, string>();
+    let lane: string | undefined;
+
+    const outgoing = (id: string) => diagram.edges.filter((e) => e.source === id);
+    const hasIncoming = (id: string) => diagram.edges.some((e) => e.target === id);
+
+    const skip = (item: DiagramNode | DiagramEdge, reason: string) => {
+        const elementId = item.metadata?.elementId as string;
+        skipped.push({ id: elementId, type: types.get(elementId)!, reason });
+    };
+    const skipJump = (edge: DiagramEdge) => skip(edge, 'leads back to an earlier step, which activity diagrams cannot draw');
+
+    // Steps reachable from every branch, nearest to the first one first
+    const findJoin = (targets: string[], until: string | undefined): string | undefined => {
+        const reach = targets.map((target) => {
+            const seen = [target];
+            for (let i = 0; i < seen.length; i++) {
+                if (seen[i] === until) continue;
+                outgoing(seen[i]).forEach((e) => {
+                    if (!placed.has(e.target) && !seen.includes(e.target)) seen.push(e.target);
+                });
+            }
+            return seen;
+        });
+        return reach[0].find((id) => reach.every((ids) => ids.includes(id)));
+    };
+
+    const flow = (start: string, until: string | undefined, indent: string) => {
+        let current: string | undefined = start;
+        while (current && current !== until) {
+            const node: DiagramNode = nodes.get(current)!;
+            placed.add(current);
+            const edges = outgoing(current);
+
+            const nodeLane = lanes.get(current);
+            if (nodeLane && nodeLane !== lane) {
+                lane = nodeLane;
+                lines.push(`|${escape(nodeLane)}|`);
+            }
+
+            const forward = edges.filter((e) => {
+                if (!placed.has(e.target) || e.target === until) return true;
+                skipJump(e);
+                return false;
+            });
+            const branches = node.shape === 'diamond' ? forward.length > 0 : forward.length > 1;
+
+            if (node.shape === 'ellipse' && !hasIncoming(current)) lines.push(`${indent}start`);
+            else if (node.shape === 'ellipse' && edges.length === 0) lines.push(`${indent}stop`);
+            else if (node.shape !== 'diamond' || !branches) lines.push(`${indent}:${escape(node.label || ' ')};`);
+
+            if (forward.length === 0) return;
+            if (!branches) {
+                if (forward[0].label) lines.push(`${indent}-> ${escape(forward[0].label)};`);
+                current = forward[0].target;
+                continue;
+            }
+
+            const join: string | undefined = findJoin(forward.map((e) => e.target), until) ?? until;
+            const inner = `${indent}    `;
+            const switched = node.shape === 'diamond' && forward.length > 2;
+            if (switched) lines.push(`${indent}switch (${escape(node.label || ' ')})`);
+            forward.forEach((edge, i) => {
+                lines.push(`${indent}${branchLine(node, edge, i, forward.length)}`);
+                if (node.shape !== 'diamond' && edge.label) lines.push(`${inner}-> ${escape(edge.label)};`);
+                flow(edge.target, join, inner);
+            });
+            lines.push(`${indent}${switched ? 'endswitch' : node.shape === 'diamond' ? 'endif' : 'end fork'}`);
+            current = join;
+        }
+    };
+
+    // Starts first, then whatever else nothing leads to, then cycles
+    const roots = [
+        ...connected.filter((n) => n.shape === 'ellipse' && !hasIncoming(n.id)),
+        ...connected.filter((n) => n.shape !== 'ellipse' && !hasIncoming(n.id)),
+        ...connected,
+    ];
+    roots.forEach((node) => {
+        if (placed.has(node.id)) return;
+        flow(node.id, undefined, '');
+        lines.push('');
+    });
+
+    diagram.nodes.forEach((node) => {
+        if (!placed.has(node.id)) skip(node, 'not connected to the flow');
+    });
+
+    lines.push('@enduml', '');
+    return { output: lines.join('\n'), skipped };
+}
+
+// Opens the i-th of `count` branches leaving `node`
+function branchLine(node: DiagramNode, edge: DiagramEdge, i: number, count: number): string {
+    const label = edge.label ? ` (${escape(edge.label)})` : '';
+    if (node.shape !== 'diamond') return i === 0 ? 'fork' : 'fork again';
+    if (count > 2) return `case (${escape(edge.label || ' ')})`;
+    return i === 0 ? `if (${escape(node.label || ' ')}) then${label}` : `else${label}`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Creole entities keep quotes and backslashes from ending the string or
+// starting an escape; real line breaks become PlantUML's "\n"
+function escape(text: string): string {
+    return text
+        .replace(/\\/g, '&#92;')
+        .replace(/"/g, '&#34;')
+        .replace(/\r?\n/g, '\\n');
+}
+
+function quote(text: string): string {
+    return `"${escape(text)}"`;
+}
+
+function color(value: string | undefined): string {
+    return value && /^#[0-9a-f]{3,8}$/i.test(value) ? ` ${value}` : '';
+}
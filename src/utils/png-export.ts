@@ -0,0 +1,95 @@
+/**
+ * PNG export
+ *
+ * Rasterizes the scene SVG onto a canvas in the browser
+ */
+
+import { buildSceneSvg, SceneSvgOptions } from './scene-svg';
+
+export type PngScale = 1 | 2 | 4;
+
+// What to export: everything, the selection, or one image per frame
+export type PngExportScope = 'board' | 'selection' | 'frames';
+
+export interface PngExportOptions extends SceneSvgOptions {
+    scale: PngScale;
+    scope: PngExportScope;
+}
+
+export const DEFAULT_PNG_EXPORT_OPTIONS: PngExportOptions = {
+    scale: 2,
+    background: 'theme',
+    padding: 16,
+    scope: 'board',
+    embedFonts: true,
+};
+
+// Render the given elements (in paint order) to a PNG blob
+export async function exportToPNG(
+    scene: SVGGElement,
+    elementIds: string[],
+    options: PngExportOptions
+): Promise<Blob> {
+    const { svg, width, height } = await buildSceneSvg(scene, elementIds, options);
+    const canvas = await rasterize(svg, width, height, options.scale);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) resolve(blob);
+            else reject(new Error('Failed to encode PNG'));
+        }, 'image/png');
+    });
+}
+
+// Small PNG data URL of the given elements, for board previews
+export async function renderThumbnail(
+    scene: SVGGElement,
+    elementIds: string[],
+    maxSize = 240
+): Promise<string> {
+    const { svg, width, height } = await buildSceneSvg(scene, elementIds, {
+        background: 'transparent',
+        padding: 8,
+        embedFonts: false,
+    });
+    const canvas = await rasterize(svg, width, height, Math.min(1, maxSize / Math.max(width, height)));
+    return canvas.toDataURL('image/png');
+}
+
+// Same, scaled down from a canvas the scene is already drawn on
+export function renderCanvasThumbnail(source: HTMLCanvasElement, maxSize = 240): string {
+    const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available');
+    }
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+}
+
+async function rasterize(svg: SVGSVGElement, width: number, height: number, scale: number) {
+    const image = await loadImage(new XMLSerializer().serializeToString(svg));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available');
+    }
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas;
+}
+
+function loadImage(svgMarkup: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Failed to rasterize the scene'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgMarkup)}`;
+    });
+}
@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LoopbackHub } from './sync-transport';
+
+// A fresh copy of the store and presence module, as in another browser
+async function loadReplica() {
+    vi.resetModules();
+    const { useCanvasStore } = await import('../store/canvas-store');
+    const presence = await import('./presence');
+    return { store: useCanvasStore, ...presence };
+}
+
+describe('presence over a loopback hub', () => {
+    const stops: (() => void)[] = [];
+
+    afterEach(() => {
+        stops.splice(0).forEach((stop) => stop());
+    });
+
+    async function join() {
+        const hub = new LoopbackHub();
+        const a = await loadReplica();
+        const b = await loadReplica();
+        stops.push(a.startPresence(hub.connect(), 'a'), b.startPresence(hub.connect(), 'b'));
+        await vi.waitFor(() => {
+            expect(a.store.getState().collaborators.b).toBeDefined();
+            expect(b.store.getState().collaborators.a).toBeDefined();
+        });
+        return { a, b };
+    }
+
+    it('shares the cursor and selection', async () => {
+        const { a, b } = await join();
+
+        a.reportCursor({ x: 10, y: 20 });
+        a.store.getState().setSelection(['shape-1', 'shape-2']);
+
+        await vi.waitFor(() => {
+            const presence = b.store.getState().collaborators.a;
+            expect(presence.cursor).toEqual({ x: 10, y: 20 });
+            expect(presence.selectedIds).toEqual(['shape-1', 'shape-2']);
+        });
+        expect(a.store.getState().collaborators.a).toBeUndefined();
+    });
+
+    it('moves a follower along with the view it follows', async () => {
+        const { a, b } = await join();
+
+        b.store.getState().followCollaborator('a');
+        a.store.getState().setTransform({ x: -100, y: -50, scale: 2 });
+
+        await vi.waitFor(() => {
+            const { transform } = b.store.getState();
+            expect(transform.x).toBeCloseTo(-100);
+            expect(transform.y).toBeCloseTo(-50);
+            expect(transform.scale).toBeCloseTo(2);
+        });
+        expect(b.store.getState().followingId).toBe('a');
+
+        // Panning on their own takes the view back
+        b.store.getState().setTransform({ x: 0 });
+        expect(b.store.getState().followingId).toBeNull();
+    });
+
+    it('drops a collaborator who leaves', async () => {
+        const { b } = await join();
+
+        stops.shift()!();
+
+        await vi.waitFor(() => expect(b.store.getState().collaborators.a).toBeUndefined());
+    });
+});
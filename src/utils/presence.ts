@@ -0,0 +1,158 @@
+/**
+ * Presence
+ *
+ * Who else is on a shared board and what they are doing: their cursor,
+ * selection and view. Presence travels over the board's transport but is
+ * never stored; each update replaces the last one from the same client
+ */
+
+import { useCanvasStore } from '../store/canvas-store';
+import { Bounds, Point, Presence, Transform } from '../types/canvas';
+import { SyncTransport } from './sync-transport';
+
+const USER_KEY = 'wb-canvas-user';
+const PRESENCE_INTERVAL = 50; // ms, at most one update per interval
+
+export const PRESENCE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+// How this browser's user shows up to others
+export interface LocalUser {
+    name: string;
+    color: string;
+}
+
+export function getLocalUser(): LocalUser {
+    try {
+        const stored = JSON.parse(localStorage.getItem(USER_KEY) ?? 'null') as LocalUser | null;
+        if (stored?.name && stored.color) return stored;
+    } catch {
+        // Unreadable; pick a new one
+    }
+    const user: LocalUser = {
+        name: `Guest ${Math.floor(100 + Math.random() * 900)}`,
+        color: PRESENCE_COLORS[Math.floor(Math.random() * PRESENCE_COLORS.length)],
+    };
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    return user;
+}
+
+export function setLocalUserName(name: string) {
+    localStorage.setItem(USER_KEY, JSON.stringify({ ...getLocalUser(), name }));
+    activePresence?.update();
+}
+
+// The pointer over the canvas, in canvas coordinates; null once it leaves
+export function reportCursor(point: Point | null) {
+    activePresence?.setCursor(point);
+}
+
+let activePresence: { setCursor: (point: Point | null) => void; update: () => void } | null = null;
+
+// Shares this user's presence over `transport` and keeps the store's
+// collaborators up to date. Returns a function that stops it
+export function startPresence(transport: SyncTransport, clientId: string): () => void {
+    let cursor: Point | null = null;
+    let timer: number | undefined;
+    let lastSent = '';
+    let mirroring = false; // the transform is being set to follow someone
+
+    const send = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        const { selectedIds, transform } = useCanvasStore.getState();
+        const presence: Presence = { clientId, ...getLocalUser(), cursor, selectedIds, viewport: getViewport(transform) };
+        const data = JSON.stringify(presence);
+        if (data === lastSent) return;
+        lastSent = data;
+        transport.send({ type: 'presence', presence });
+    };
+
+    const schedule = () => {
+        timer ??= window.setTimeout(send, PRESENCE_INTERVAL);
+    };
+
+    // Newcomers have seen nothing yet
+    const resend = () => {
+        lastSent = '';
+        send();
+    };
+
+    const mirror = (presence: Presence | undefined) => {
+        if (!presence) return;
+        mirroring = true;
+        useCanvasStore.getState().setTransform(fitViewport(presence.viewport));
+        mirroring = false;
+    };
+
+    const leave = () => transport.send({ type: 'leave', clientId });
+
+    transport.onStatus((status) => {
+        if (status === 'connected') {
+            resend();
+        } else {
+            // Out of touch; whoever is still there shows up again on reconnect
+            const { collaborators, removeCollaborator } = useCanvasStore.getState();
+            Object.keys(collaborators).forEach(removeCollaborator);
+        }
+    });
+
+    transport.onMessage((message) => {
+        const { followingId, setCollaboratorPresence, removeCollaborator } = useCanvasStore.getState();
+        switch (message.type) {
+            case 'join':
+                resend();
+                break;
+            case 'presence':
+                if (message.presence.clientId === clientId) return;
+                setCollaboratorPresence(message.presence);
+                if (followingId === message.presence.clientId) mirror(message.presence);
+                break;
+            case 'leave':
+                removeCollaborator(message.clientId);
+                break;
+        }
+    });
+
+    const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+        if (state.followingId !== prev.followingId) {
+            if (state.followingId) mirror(state.collaborators[state.followingId]);
+        } else if (state.followingId && state.transform !== prev.transform && !mirroring) {
+            // Panning or zooming takes the view back
+            state.followCollaborator(null);
+        }
+        if (state.selectedIds !== prev.selectedIds || state.transform !== prev.transform) schedule();
+    });
+
+    window.addEventListener('pagehide', leave);
+    activePresence = {
+        setCursor: (point) => {
+            cursor = point;
+            schedule();
+        },
+        update: resend,
+    };
+
+    return () => {
+        leave();
+        clearTimeout(timer);
+        unsubscribe();
+        window.removeEventListener('pagehide', leave);
+        activePresence = null;
+    };
+}
+
+// The canvas area shown with `transform`. The canvas spans the window,
+// as zoomToFit assumes too
+function getViewport({ x, y, scale }: Transform): Bounds {
+    return { x: -x / scale, y: -y / scale, width: window.innerWidth / scale, height: window.innerHeight / scale };
+}
+
+// Transform showing all of `viewport`, centered
+function fitViewport(viewport: Bounds): Transform {
+    const scale = Math.min(window.innerWidth / viewport.width, window.innerHeight / viewport.height);
+    return {
+        x: (window.innerWidth - viewport.width * scale) / 2 - viewport.x * scale,
+        y: (window.innerHeight - viewport.height * scale) / 2 - viewport.y * scale,
+        scale,
+    };
+}
@@ -0,0 +1,511 @@
+/**
+ * Scene file format
+ *
+ * Versioned JSON written by exportToJSON. Files are migrated step by
+ * step to the current version, then every element is checked against
+ * its variant's schema: recoverable problems are repaired with
+ * defaults, anything else is rejected, and both end up in the report
+ */
+
+import {
+    CanvasElement,
+    ElementType,
+    Point,
+    StrokeStyle,
+    FillStyle,
+    TextStyle,
+    Binding,
+    ArrowHead,
+    StickyColor,
+    DEFAULT_STROKE,
+    DEFAULT_FILL,
+    DEFAULT_TEXT_STYLE,
+    STICKY_COLORS,
+} from '../types/canvas';
+
+export const SCENE_FILE_VERSION = 1;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SceneFile {
+    version: number;
+    elements: Record<string, CanvasElement>;
+    elementOrder: string[];
+}
+
+export interface ImportReport {
+    sourceVersion: number; // 0 for files written before versioning
+    imported: number;
+    repaired: { id: string; type: string; issues: string[] }[];
+    rejected: { id: string; type: string; reason: string }[];
+    sceneIssues: string[];
+}
+
+type RawObject = Record<string, unknown>;
+
+// =============================================================================
+// Serialize / Parse
+// =============================================================================
+
+export function serializeScene(elements: Record<string, CanvasElement>, elementOrder: string[]): string {
+    const file: SceneFile = { version: SCENE_FILE_VERSION, elements, elementOrder };
+    return JSON.stringify(file, null, 2);
+}
+
+// Throws when the file cannot be read at all; per-element problems are
+// reported instead
+export function parseSceneFile(json: string): { scene: SceneFile; report: ImportReport } {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+    if (!isObject(data)) {
+        throw new Error('File is not a WB Canvas scene');
+    }
+
+    const sourceVersion = data.version === undefined ? 0 : data.version;
+    if (typeof sourceVersion !== 'number' || !Number.isInteger(sourceVersion) || sourceVersion < 0) {
+        throw new Error(`Unknown file version: ${String(data.version)}`);
+    }
+    if (sourceVersion > SCENE_FILE_VERSION) {
+        throw new Error(`File was saved by a newer version of WB Canvas (format v${sourceVersion})`);
+    }
+
+    const migrated = migrate(data, sourceVersion);
+    if (!isObject(migrated.elements)) {
+        throw new Error('File is not a WB Canvas scene');
+    }
+
+    return validateScene(migrated.elements, migrated.elementOrder, sourceVersion);
+}
+
+export function isCleanImport(report: ImportReport): boolean {
+    return report.repaired.length === 0 && report.rejected.length === 0 && report.sceneIssues.length === 0;
+}
+
+// Human-readable summary of what an import had to fix or drop
+export function formatImportReport(report: ImportReport): string {
+    const lines = [`Imported ${report.imported} element${report.imported === 1 ? '' : 's'}.`];
+
+    if (report.sourceVersion < SCENE_FILE_VERSION) {
+        lines.push(`The file was upgraded from format v${report.sourceVersion} to v${SCENE_FILE_VERSION}.`);
+    }
+    if (report.rejected.length > 0) {
+        lines.push('', `Rejected (${report.rejected.length}):`);
+        report.rejected.forEach((r) => lines.push(`• ${r.type} (${r.id}): ${r.reason}`));
+    }
+    if (report.repaired.length > 0) {
+        lines.push('', `Repaired (${report.repaired.length}):`);
+        report.repaired.forEach((r) => lines.push(`• ${r.type} (${r.id}): ${r.issues.join('; ')}`));
+    }
+    if (report.sceneIssues.length > 0) {
+        lines.push('', ...report.sceneIssues.map((issue) => `• ${issue}`));
+    }
+
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, (data: RawObject) => RawObject> = {
+    // Before versioning, elements could be saved as a plain array and the
+    // z-order was implied by key order
+    0: (data) => {
+        const elements = Array.isArray(data.elements)
+            ? Object.fromEntries(data.elements.filter(isObject).map((el, i) => [String(el.id ?? i), el]))
+            : data.elements;
+        return {
+            ...data,
+            elements,
+            elementOrder: data.elementOrder ?? (isObject(elements) ? Object.keys(elements) : []),
+        };
+    },
+};
+
+function migrate(data: RawObject, fromVersion: number): RawObject {
+    let result = data;
+    for (let version = fromVersion; version < SCENE_FILE_VERSION; version++) {
+        result = { ...MIGRATIONS[version](result), version: version + 1 };
+    }
+    return result;
+}
+
+// =============================================================================
+// Scene Validation
+// =============================================================================
+
+function validateScene(
+    rawElements: RawObject,
+    rawOrder: unknown,
+    sourceVersion: number
+): { scene: SceneFile; report: ImportReport } {
+    const report: ImportReport = { sourceVersion, imported: 0, repaired: [], rejected: [], sceneIssues: [] };
+    const elements: Record<string, CanvasElement> = {};
+    const issuesById = new Map<string, string[]>();
+
+    Object.entries(rawElements).forEach(([key, raw]) => {
+        const rawId = isObject(raw) && typeof raw.id === 'string' && raw.id ? raw.id : key;
+        const rawType = isObject(raw) && typeof raw.type === 'string' ? raw.type : 'unknown';
+        const issues: string[] = [];
+
+        try {
+            const element = validateElement(raw, key, issues);
+            if (elements[element.id]) {
+                throw new Error('duplicate id');
+            }
+            elements[element.id] = element;
+            issuesById.set(element.id, issues);
+        } catch (e) {
+            report.rejected.push({ id: rawId, type: rawType, reason: (e as Error).message });
+        }
+    });
+
+    // References can only be checked once every element is known
+    Object.values(elements).forEach((el) => {
+        const issues = issuesById.get(el.id)!;
+        if (el.type === 'arrow' || el.type === 'connector') {
+            if (el.startBinding && !elements[el.startBinding.elementId]) {
+                delete el.startBinding;
+                issues.push('start binding pointed at a missing element, removed');
+            }
+            if (el.endBinding && !elements[el.endBinding.elementId]) {
+                delete el.endBinding;
+                issues.push('end binding pointed at a missing element, removed');
+            }
+        }
+        if (el.type === 'frame') {
+            const childIds = el.childIds.filter((id) => elements[id] && id !== el.id);
+            if (childIds.length !== el.childIds.length) {
+                issues.push(`${el.childIds.length - childIds.length} missing child reference(s) removed`);
+                el.childIds = childIds;
+            }
+        }
+        if (issues.length > 0) {
+            report.repaired.push({ id: el.id, type: el.type, issues });
+        }
+    });
+
+    const rejectedIds = new Set(report.rejected.map((r) => r.id));
+    const elementOrder = validateOrder(rawOrder, elements, rejectedIds, report.sceneIssues);
+    report.imported = elementOrder.length;
+
+    return { scene: { version: SCENE_FILE_VERSION, elements, elementOrder }, report };
+}
+
+// Known ids in file order without duplicates, then anything the order missed
+function validateOrder(
+    raw: unknown,
+    elements: Record<string, CanvasElement>,
+    rejectedIds: Set<string>,
+    issues: string[]
+): string[] {
+    if (raw !== undefined && !Array.isArray(raw)) {
+        issues.push('Element order was invalid and has been rebuilt');
+    }
+
+    const seen = new Set<string>();
+    let dropped = 0;
+    (Array.isArray(raw) ? raw : []).forEach((id) => {
+        if (typeof id === 'string' && elements[id] && !seen.has(id)) seen.add(id);
+        else if (!rejectedIds.has(id)) dropped++;
+    });
+
+    const missing = Object.keys(elements).filter((id) => !seen.has(id));
+    if (Array.isArray(raw) && dropped > 0) {
+        issues.push(`${dropped} unknown or duplicate entr${dropped === 1 ? 'y was' : 'ies were'} removed from the element order`);
+    }
+    if (Array.isArray(raw) && missing.length > 0) {
+        issues.push(`${missing.length} element${missing.length === 1 ? ' was' : 's were'} missing from the element order and placed on top`);
+    }
+
+    return [...seen, ...missing];
+}
+
+// =============================================================================
+// Element Validation
+// =============================================================================
+
+const ELEMENT_TYPES: ElementType[] = [
+    'rectangle', 'ellipse', 'diamond', 'triangle', 'line', 'arrow',
+    'freedraw', 'text', 'image', 'frame', 'sticky', 'connector',
+];
+const ARROW_HEADS: ArrowHead[] = ['none', 'arrow', 'triangle', 'diamond', 'circle', 'bar'];
+const STICKY_COLOR_NAMES = Object.keys(STICKY_COLORS) as StickyColor[];
+const ROUTE_TYPES = ['straight', 'elbow', 'curved'] as const;
+
+function validateElement(raw: unknown, key: string, issues: string[]): CanvasElement {
+    if (!isObject(raw)) {
+        throw new Error('not an object');
+    }
+
+    const r = createReader(raw, issues);
+
+    let id = raw.id;
+    if (typeof id !== 'string' || !id) {
+        id = key;
+        issues.push('id missing, taken from its key');
+    }
+    const type = raw.type as ElementType;
+    if (!ELEMENT_TYPES.includes(type)) {
+        throw new Error(`unknown element type "${String(raw.type)}"`);
+    }
+
+    const now = Date.now();
+    const base = {
+        id: id as string,
+        x: r.requiredNumber('x'),
+        y: r.requiredNumber('y'),
+        width: r.number('width', 0, 0),
+        height: r.number('height', 0, 0),
+        rotation: r.number('rotation', 0),
+        opacity: Math.min(1, r.number('opacity', 1, 0)),
+        locked: r.boolean('locked', false),
+        groupId: r.optionalString('groupId'),
+        seed: r.optionalNumber('seed'),
+        roughness: r.optionalNumber('roughness'),
+        bowing: r.optionalNumber('bowing'),
+        // Bookkeeping fields are filled in silently
+        zIndex: isFiniteNumber(raw.zIndex) ? raw.zIndex : now,
+        createdAt: isFiniteNumber(raw.createdAt) ? raw.createdAt : now,
+        updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : now,
+    };
+
+    switch (type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'diamond':
+        case 'triangle':
+            return {
+                ...base,
+                type,
+                stroke: r.stroke(),
+                fill: r.fill(),
+                cornerRadius: r.number('cornerRadius', 0, 0),
+                text: r.optionalString('text'),
+                textStyle: raw.textStyle === undefined ? undefined : r.textStyle('textStyle'),
+            };
+        case 'line':
+            return {
+                ...base,
+                type,
+                points: r.points('points', 2),
+                stroke: r.stroke(),
+                startArrow: r.oneOf('startArrow', ARROW_HEADS, 'none'),
+                endArrow: r.oneOf('endArrow', ARROW_HEADS, 'none'),
+            };
+        case 'arrow':
+            return {
+                ...base,
+                type,
+                points: r.points('points', 2),
+                stroke: r.stroke(),
+                startArrow: r.oneOf('startArrow', ARROW_HEADS, 'none'),
+                endArrow: r.oneOf('endArrow', ARROW_HEADS, 'arrow'),
+                startBinding: r.binding('startBinding'),
+                endBinding: r.binding('endBinding'),
+                label: r.optionalString('label'),
+                labelStyle: raw.labelStyle === undefined ? undefined : r.textStyle('labelStyle'),
+            };
+        case 'freedraw':
+            return {
+                ...base,
+                type,
+                points: r.points('points', 1),
+                stroke: r.stroke(),
+                simulatePressure: r.boolean('simulatePressure', true),
+            };
+        case 'text':
+            return {
+                ...base,
+                type,
+                text: r.string('text', ''),
+                textStyle: r.textStyle('textStyle'),
+            };
+        case 'image': {
+            const src = typeof raw.src === 'string' && raw.src ? raw.src : undefined;
+            const fileId = typeof raw.fileId === 'string' && raw.fileId ? raw.fileId : undefined;
+            if (!src && !fileId) {
+                throw new Error('image has no source');
+            }
+            return {
+                ...base,
+                type,
+                ...(fileId && { fileId }),
+                ...(src && { src }),
+                naturalWidth: r.number('naturalWidth', base.width, 0),
+                naturalHeight: r.number('naturalHeight', base.height, 0),
+                crop: r.crop('crop'),
+            };
+        }
+        case 'frame':
+            return {
+                ...base,
+                type,
+                name: r.string('name', 'Frame'),
+                stroke: r.stroke(),
+                fill: r.fill(),
+                childIds: r.stringArray('childIds'),
+                clip: r.boolean('clip', true),
+            };
+        case 'sticky':
+            return {
+                ...base,
+                type,
+                text: r.string('text', ''),
+                textStyle: r.textStyle('textStyle'),
+                color: r.oneOf('color', STICKY_COLOR_NAMES, 'yellow'),
+            };
+        case 'connector':
+            return {
+                ...base,
+                type,
+                stroke: r.stroke(),
+                startArrow: r.oneOf('startArrow', ARROW_HEADS, 'none'),
+                endArrow: r.oneOf('endArrow', ARROW_HEADS, 'arrow'),
+                startBinding: r.binding('startBinding'),
+                endBinding: r.binding('endBinding'),
+                routeType: r.oneOf('routeType', ROUTE_TYPES, 'straight'),
+                waypoints: raw.waypoints === undefined ? [] : r.points('waypoints', 0),
+                label: r.optionalString('label'),
+                labelStyle: raw.labelStyle === undefined ? undefined : r.textStyle('labelStyle'),
+            };
+    }
+}
+
+// =============================================================================
+// Field Readers
+// =============================================================================
+
+// Reads fields off a raw object, falling back to defaults and recording
+// an issue for each repair. Required fields throw instead
+function createReader(raw: RawObject, issues: string[], prefix = '') {
+    const repair = (key: string, fallback: unknown) => {
+        if (fallback === undefined) {
+            issues.push(`${prefix}${key} invalid, removed`);
+        } else {
+            const state = raw[key] === undefined ? 'missing' : 'invalid';
+            const value = typeof fallback === 'object' ? 'default' : JSON.stringify(fallback);
+            issues.push(`${prefix}${key} ${state}, reset to ${value}`);
+        }
+        return fallback;
+    };
+
+    const reader = {
+        requiredNumber(key: string): number {
+            if (!isFiniteNumber(raw[key])) throw new Error(`${prefix}${key} is missing or not a number`);
+            return raw[key] as number;
+        },
+        number(key: string, fallback: number, min = -Infinity): number {
+            const value = raw[key];
+            return isFiniteNumber(value) && value >= min ? value : repair(key, fallback) as number;
+        },
+        optionalNumber(key: string): number | undefined {
+            if (raw[key] === undefined) return undefined;
+            return isFiniteNumber(raw[key]) ? raw[key] as number : repair(key, undefined) as undefined;
+        },
+        string(key: string, fallback: string): string {
+            return typeof raw[key] === 'string' ? raw[key] as string : repair(key, fallback) as string;
+        },
+        optionalString(key: string): string | undefined {
+            if (raw[key] === undefined) return undefined;
+            return typeof raw[key] === 'string' ? raw[key] as string : repair(key, undefined) as undefined;
+        },
+        boolean(key: string, fallback: boolean): boolean {
+            return typeof raw[key] === 'boolean' ? raw[key] as boolean : repair(key, fallback) as boolean;
+        },
+        oneOf<T extends string>(key: string, values: readonly T[], fallback: T): T {
+            return values.includes(raw[key] as T) ? raw[key] as T : repair(key, fallback) as T;
+        },
+        stringArray(key: string): string[] {
+            const value = raw[key];
+            if (!Array.isArray(value)) return repair(key, []) as string[];
+            const strings = value.filter((v): v is string => typeof v === 'string');
+            if (strings.length !== value.length) issues.push(`${prefix}${key} had invalid entries, removed`);
+            return strings;
+        },
+        points(key: string, minCount: number): Point[] {
+            const value = raw[key];
+            if (!Array.isArray(value)) throw new Error(`${prefix}${key} is missing`);
+            const points = value.filter((p): p is Point => isObject(p) && isFiniteNumber(p.x) && isFiniteNumber(p.y))
+                .map((p) => ({ x: p.x, y: p.y }));
+            if (points.length < minCount) throw new Error(`${prefix}${key} needs at least ${minCount} valid point(s)`);
+            if (points.length !== value.length) issues.push(`${value.length - points.length} invalid point(s) removed`);
+            return points;
+        },
+        nested(key: string, fallback: object) {
+            const value = raw[key];
+            if (isObject(value)) return createReader(value, issues, `${prefix}${key}.`);
+            repair(key, fallback);
+            return createReader({ ...fallback }, [], '');
+        },
+        stroke(): StrokeStyle {
+            const s = reader.nested('stroke', DEFAULT_STROKE);
+            return {
+                color: s.string('color', DEFAULT_STROKE.color),
+                width: s.number('width', DEFAULT_STROKE.width, 0),
+                style: s.oneOf('style', ['solid', 'dashed', 'dotted'], DEFAULT_STROKE.style),
+            };
+        },
+        fill(): FillStyle {
+            const f = reader.nested('fill', DEFAULT_FILL);
+            return {
+                type: f.oneOf('type', ['solid', 'hachure', 'cross-hatch', 'none'], DEFAULT_FILL.type),
+                color: f.string('color', DEFAULT_FILL.color),
+            };
+        },
+        textStyle(key: string): TextStyle {
+            const t = reader.nested(key, DEFAULT_TEXT_STYLE);
+            const d = DEFAULT_TEXT_STYLE;
+            return {
+                fontSize: t.number('fontSize', d.fontSize, 1),
+                fontFamily: t.string('fontFamily', d.fontFamily),
+                fontWeight: t.oneOf('fontWeight', ['normal', 'bold'], d.fontWeight),
+                fontStyle: t.oneOf('fontStyle', ['normal', 'italic'], d.fontStyle),
+                textAlign: t.oneOf('textAlign', ['left', 'center', 'right'], d.textAlign),
+                verticalAlign: t.oneOf('verticalAlign', ['top', 'middle', 'bottom'], d.verticalAlign),
+                color: t.string('color', d.color),
+                lineHeight: t.number('lineHeight', d.lineHeight, 0),
+            };
+        },
+        binding(key: string): Binding | undefined {
+            const value = raw[key];
+            if (value === undefined) return undefined;
+            if (!isObject(value) || typeof value.elementId !== 'string') {
+                issues.push(`${prefix}${key} invalid, removed`);
+                return undefined;
+            }
+            const b = createReader(value, issues, `${prefix}${key}.`);
+            return {
+                elementId: value.elementId,
+                focus: Math.max(-1, Math.min(1, b.number('focus', 0))),
+                gap: b.number('gap', 4, 0),
+            };
+        },
+        crop(key: string): { x: number; y: number; width: number; height: number } | undefined {
+            const value = raw[key];
+            if (value === undefined) return undefined;
+            if (!isObject(value) || !['x', 'y', 'width', 'height'].every((k) => isFiniteNumber(value[k]))) {
+                issues.push(`${prefix}${key} invalid, removed`);
+                return undefined;
+            }
+            return { x: value.x as number, y: value.y as number, width: value.width as number, height: value.height as number };
+        },
+    };
+
+    return reader;
+}
+
+function isObject(value: unknown): value is RawObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
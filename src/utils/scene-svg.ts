@@ -0,0 +1,243 @@
+/**
+ * Scene SVG
+ *
+ * Builds a standalone SVG from the rendered scene. Renderers draw
+ * through rough.js imperatively, so the live DOM is the only complete
+ * copy of what is on screen: element groups are cloned out of it and
+ * cropped to their bounds
+ */
+
+import { Bounds } from '../types/canvas';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export interface SceneSvgOptions {
+    background: 'transparent' | 'theme';
+    padding: number;
+    embedFonts: boolean;
+    crop?: Bounds; // export this area instead of the elements' bounds
+}
+
+export interface SceneSvg {
+    svg: SVGSVGElement;
+    width: number;
+    height: number;
+}
+
+// The <g> that holds rendered elements, marked by Canvas
+export function findCanvasScene(): SVGGElement | null {
+    return document.querySelector<SVGGElement>('g[data-canvas-scene]');
+}
+
+// The <canvas> boards using the canvas backend are drawn on. It holds
+// pixels only; exports still go through the SVG scene
+export function findSceneCanvas(): HTMLCanvasElement | null {
+    return document.querySelector<HTMLCanvasElement>('canvas[data-scene-canvas]');
+}
+
+// Clone the given elements (in paint order) into a detached <svg>
+export async function buildSceneSvg(
+    scene: SVGGElement,
+    elementIds: string[],
+    options: SceneSvgOptions
+): Promise<SceneSvg> {
+    const found = elementIds
+        .map((id) => scene.querySelector<SVGGElement>(`g[data-element-id="${id}"]`))
+        .filter((node): node is SVGGElement => !!node);
+
+    // Frame children are rendered inside their frame's group; cloning
+    // the frame already brings them along
+    const nodes = found.filter((node) => !found.some((other) => other !== node && other.contains(node)));
+
+    if (nodes.length === 0) {
+        throw new Error('Nothing to export');
+    }
+
+    const bounds = options.crop ?? getSceneBounds(nodes);
+    const { padding } = options;
+    const width = Math.ceil(bounds.width + padding * 2);
+    const height = Math.ceil(bounds.height + padding * 2);
+
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    svg.setAttribute('viewBox', `${bounds.x - padding} ${bounds.y - padding} ${width} ${height}`);
+
+    if (options.background === 'theme') {
+        const rect = document.createElementNS(SVG_NS, 'rect');
+        rect.setAttribute('x', String(bounds.x - padding));
+        rect.setAttribute('y', String(bounds.y - padding));
+        rect.setAttribute('width', String(width));
+        rect.setAttribute('height', String(height));
+        rect.setAttribute('fill', getThemeBackground());
+        svg.appendChild(rect);
+    }
+
+    nodes.forEach((node) => svg.appendChild(node.cloneNode(true)));
+
+    // Frame names sit outside the frame and are not part of a cropped slide
+    if (options.crop) {
+        svg.querySelectorAll('[data-frame-label]').forEach((label) => label.remove());
+    }
+
+    if (options.embedFonts) {
+        const css = await buildFontFaceCss(getUsedFontFamilies(svg));
+        if (css) {
+            const style = document.createElementNS(SVG_NS, 'style');
+            style.textContent = css;
+            svg.insertBefore(style, svg.firstChild);
+        }
+    }
+
+    return { svg, width, height };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Union of rendered bounds in canvas coordinates. getBBox() covers the
+// rough.js jitter that element.x/y/width/height would miss
+function getSceneBounds(nodes: SVGGElement[]) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    nodes.forEach((node) => {
+        const box = node.getBBox();
+        minX = Math.min(minX, box.x);
+        minY = Math.min(minY, box.y);
+        maxX = Math.max(maxX, box.x + box.width);
+        maxY = Math.max(maxY, box.y + box.height);
+    });
+
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function getThemeBackground(): string {
+    return getComputedStyle(document.documentElement).getPropertyValue('--canvas-bg').trim() || '#ffffff';
+}
+
+// =============================================================================
+// Font Embedding
+// =============================================================================
+
+// SVGs opened as images cannot load external resources, so the
+// @font-face rules for every family in use are inlined as data URLs
+
+function getUsedFontFamilies(svg: SVGSVGElement): Set<string> {
+    const families = new Set<string>();
+
+    svg.querySelectorAll<SVGElement | HTMLElement>('*').forEach((el) => {
+        const values = [el.getAttribute('font-family'), el.style?.fontFamily];
+        values.forEach((value) => {
+            value?.split(',').forEach((name) => {
+                const family = name.trim().replace(/^['"]|['"]$/g, '');
+                if (family) families.add(family.toLowerCase());
+            });
+        });
+    });
+
+    return families;
+}
+
+interface FontFaceSource {
+    css: string;
+    baseUrl: string;
+}
+
+async function buildFontFaceCss(families: Set<string>): Promise<string> {
+    if (families.size === 0) return '';
+
+    const sources = await collectFontFaces();
+    const used = sources.filter(({ css }) => {
+        const match = css.match(/font-family:\s*['"]?([^;'"]+)/i);
+        return !!match && families.has(match[1].trim().toLowerCase());
+    });
+
+    const dataUrls = new Map<string, Promise<string | null>>();
+    const rules = await Promise.all(used.map(({ css, baseUrl }) => inlineUrls(css, baseUrl, dataUrls)));
+
+    return rules.join('\n');
+}
+
+async function collectFontFaces(): Promise<FontFaceSource[]> {
+    const faces: FontFaceSource[] = [];
+    const pending: Promise<void>[] = [];
+
+    const fetchSheet = (href: string) => {
+        pending.push(
+            fetch(href)
+                .then((res) => (res.ok ? res.text() : ''))
+                .then((text) => {
+                    (text.match(/@font-face\s*{[^}]*}/g) ?? []).forEach((css) => faces.push({ css, baseUrl: href }));
+                })
+                .catch((e) => console.warn('Failed to load stylesheet for font embedding:', href, e))
+        );
+    };
+
+    const visit = (sheet: CSSStyleSheet) => {
+        let rules: CSSRuleList;
+        try {
+            rules = sheet.cssRules;
+        } catch {
+            // Cross-origin sheets (e.g. Google Fonts) are not readable from CSSOM
+            if (sheet.href) fetchSheet(sheet.href);
+            return;
+        }
+
+        Array.from(rules).forEach((rule) => {
+            if (rule instanceof CSSFontFaceRule) {
+                faces.push({ css: rule.cssText, baseUrl: sheet.href ?? document.baseURI });
+            } else if (rule instanceof CSSImportRule) {
+                if (rule.styleSheet) visit(rule.styleSheet);
+                else fetchSheet(new URL(rule.href, sheet.href ?? document.baseURI).href);
+            }
+        });
+    };
+
+    Array.from(document.styleSheets).forEach(visit);
+    await Promise.all(pending);
+
+    return faces;
+}
+
+async function inlineUrls(
+    css: string,
+    baseUrl: string,
+    cache: Map<string, Promise<string | null>>
+): Promise<string> {
+    const urls = Array.from(css.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g), (m) => m[1])
+        .filter((url) => !url.startsWith('data:'));
+
+    let result = css;
+    for (const url of urls) {
+        const absolute = new URL(url, baseUrl).href;
+        if (!cache.has(absolute)) {
+            cache.set(absolute, fetchAsDataUrl(absolute));
+        }
+        const dataUrl = await cache.get(absolute);
+        if (dataUrl) {
+            result = result.split(url).join(dataUrl);
+        }
+    }
+    return result;
+}
+
+async function fetchAsDataUrl(url: string): Promise<string | null> {
+    try {
+        const res = await fetch(url);
+        if (!res.ok) return null;
+        const blob = await res.blob();
+        return await new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        });
+    } catch (e) {
+        console.warn('Failed to embed font:', url, e);
+        return null;
+    }
+}
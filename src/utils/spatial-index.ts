@@ -0,0 +1,136 @@
+/**
+ * Spatial index
+ *
+ * Quadtree over item bounds, so lookups by area only visit the items near
+ * it. Each item sits in the smallest node that fully contains it, and the
+ * root doubles in size whenever an item lands outside it, so the canvas
+ * stays unbounded
+ */
+
+import { Bounds } from '../types/canvas';
+import { boundsOverlap } from './geometry';
+
+const NODE_CAPACITY = 16; // items a node holds before it splits
+const MIN_NODE_SIZE = 64; // nodes this small never split
+const INITIAL_SIZE = 4096;
+
+interface QuadNode {
+    bounds: Bounds;
+    items: Map<string, Bounds>;
+    children: QuadNode[] | null;
+}
+
+export class SpatialIndex {
+    private root = createNode({ x: -INITIAL_SIZE / 2, y: -INITIAL_SIZE / 2, width: INITIAL_SIZE, height: INITIAL_SIZE });
+    private nodes = new Map<string, QuadNode>(); // item id -> node holding it
+    // Items without finite bounds (e.g. a freedraw with no points yet)
+    // cannot be placed, so every search returns them
+    private unplaced = new Set<string>();
+
+    get size(): number {
+        return this.nodes.size + this.unplaced.size;
+    }
+
+    // Add an item, or move it if it is already indexed
+    insert(id: string, bounds: Bounds) {
+        this.remove(id);
+
+        if (![bounds.x, bounds.y, bounds.width, bounds.height].every(Number.isFinite)) {
+            this.unplaced.add(id);
+            return;
+        }
+
+        while (!contains(this.root.bounds, bounds)) this.grow(bounds);
+
+        let node = this.root;
+        while (node.children) {
+            const child = node.children.find((c) => contains(c.bounds, bounds));
+            if (!child) break;
+            node = child;
+        }
+        node.items.set(id, bounds);
+        this.nodes.set(id, node);
+
+        if (!node.children && node.items.size > NODE_CAPACITY && node.bounds.width > MIN_NODE_SIZE) {
+            this.split(node);
+        }
+    }
+
+    remove(id: string) {
+        this.unplaced.delete(id);
+        const node = this.nodes.get(id);
+        if (!node) return;
+        node.items.delete(id);
+        this.nodes.delete(id);
+    }
+
+    // Ids of items whose bounds touch the area, in no particular order
+    search(area: Bounds): string[] {
+        const found = [...this.unplaced];
+        const stack = [this.root];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            node.items.forEach((bounds, id) => {
+                if (boundsOverlap(bounds, area)) found.push(id);
+            });
+            node.children?.forEach((child) => {
+                if (boundsOverlap(child.bounds, area)) stack.push(child);
+            });
+        }
+        return found;
+    }
+
+    clear() {
+        this.root = createNode(this.root.bounds);
+        this.nodes.clear();
+        this.unplaced.clear();
+    }
+
+    // Push items down into four new quadrants where they fit in one
+    private split(node: QuadNode) {
+        node.children = getQuadrants(node.bounds).map(createNode);
+        node.items.forEach((bounds, id) => {
+            const child = node.children!.find((c) => contains(c.bounds, bounds));
+            if (!child) return;
+            node.items.delete(id);
+            child.items.set(id, bounds);
+            this.nodes.set(id, child);
+        });
+    }
+
+    // Double the root towards `bounds`; the old root becomes a quadrant
+    private grow(bounds: Bounds) {
+        const { x, y, width, height } = this.root.bounds;
+        const grown = createNode({
+            x: bounds.x < x ? x - width : x,
+            y: bounds.y < y ? y - height : y,
+            width: width * 2,
+            height: height * 2,
+        });
+        grown.children = getQuadrants(grown.bounds).map((quadrant) =>
+            quadrant.x === x && quadrant.y === y ? this.root : createNode(quadrant)
+        );
+        this.root = grown;
+    }
+}
+
+function createNode(bounds: Bounds): QuadNode {
+    return { bounds, items: new Map(), children: null };
+}
+
+function getQuadrants({ x, y, width, height }: Bounds): Bounds[] {
+    const w = width / 2;
+    const h = height / 2;
+    return [
+        { x, y, width: w, height: h },
+        { x: x + w, y, width: w, height: h },
+        { x, y: y + h, width: w, height: h },
+        { x: x + w, y: y + h, width: w, height: h },
+    ];
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+        inner.x + inner.width <= outer.x + outer.width &&
+        inner.y + inner.height <= outer.y + outer.height;
+}
@@ -0,0 +1,216 @@
+/**
+ * Local board storage
+ *
+ * Thin promise wrapper around IndexedDB. localStorage caps out at a few
+ * megabytes, which image-heavy boards exceed quickly
+ */
+
+import { BoardInfo, CanvasElement, HistoryCheckpoint, Transform, createId } from '../types/canvas';
+import type { DocOp } from './crdt-document';
+
+const DB_NAME = 'wb-canvas';
+const DB_VERSION = 4;
+const BOARDS_STORE = 'boards'; // board id -> BoardSnapshot
+const BOARD_INFO_STORE = 'boardInfo'; // BoardInfo, keyed by id
+const FILES_STORE = 'files'; // StoredFile, keyed by content hash
+const OPS_STORE = 'ops'; // OpLogEntry, keyed by [room, clientId, seq]
+
+export const DEFAULT_BOARD_NAME = 'Untitled board';
+
+export interface BoardSnapshot {
+    elements: Record<string, CanvasElement>;
+    elementOrder: string[];
+    transform: Transform;
+    checkpoints?: HistoryCheckpoint[]; // missing from boards saved before checkpoints were
+    savedAt: number;
+}
+
+// Binary content shared by every board that references it
+export interface StoredFile {
+    id: string;
+    blob: Blob;
+    createdAt: number;
+}
+
+// Ops of a shared board, as this browser made or received them. Replaying
+// a room's entries rebuilds its document
+export interface OpLogEntry {
+    room: string;
+    clientId: string; // the session that wrote it
+    seq: number; // per session
+    ops: DocOp[];
+    local: boolean; // made here rather than received
+    acked: boolean; // known to the server; received entries always are
+    time: number;
+}
+
+// =============================================================================
+// Database
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (e) => upgrade(request, e.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a retry after a failed open (e.g. private browsing)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function upgrade(request: IDBOpenDBRequest, oldVersion: number) {
+    const db = request.result;
+    const tx = request.transaction!;
+
+    if (oldVersion < 1) {
+        db.createObjectStore(BOARDS_STORE);
+    }
+
+    if (oldVersion < 2) {
+        const infoStore = db.createObjectStore(BOARD_INFO_STORE, { keyPath: 'id' });
+
+        // v1 kept a single autosaved board under a fixed key
+        if (oldVersion === 1) {
+            const boards = tx.objectStore(BOARDS_STORE);
+            const legacy = boards.get('current');
+            legacy.onsuccess = () => {
+                const snapshot = legacy.result as BoardSnapshot | undefined;
+                if (!snapshot) return;
+
+                const id = createId();
+                boards.put(snapshot, id);
+                boards.delete('current');
+                infoStore.put({
+                    id,
+                    name: DEFAULT_BOARD_NAME,
+                    createdAt: snapshot.savedAt,
+                    updatedAt: snapshot.savedAt,
+                } satisfies BoardInfo);
+            };
+        }
+    }
+
+    if (oldVersion < 3) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+    }
+
+    if (oldVersion < 4) {
+        db.createObjectStore(OPS_STORE, { keyPath: ['room', 'clientId', 'seq'] });
+    }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+// =============================================================================
+// Boards
+// =============================================================================
+
+// All boards, most recently updated first
+export async function listBoards(): Promise<BoardInfo[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(BOARD_INFO_STORE, 'readonly');
+    const boards = await promisify<BoardInfo[]>(tx.objectStore(BOARD_INFO_STORE).getAll());
+    return boards.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadBoard(id: string): Promise<BoardSnapshot | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(BOARDS_STORE, 'readonly');
+    return promisify<BoardSnapshot | undefined>(tx.objectStore(BOARDS_STORE).get(id));
+}
+
+// Write a board's info, and its content when given, in one transaction
+export async function saveBoard(info: BoardInfo, snapshot?: BoardSnapshot): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([BOARD_INFO_STORE, BOARDS_STORE], 'readwrite');
+    tx.objectStore(BOARD_INFO_STORE).put(info);
+    if (snapshot) {
+        tx.objectStore(BOARDS_STORE).put(snapshot, info.id);
+    }
+    return transactionDone(tx);
+}
+
+// Along with its op log, if it was shared
+export async function deleteBoard(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([BOARD_INFO_STORE, BOARDS_STORE, OPS_STORE], 'readwrite');
+    tx.objectStore(BOARD_INFO_STORE).delete(id);
+    tx.objectStore(BOARDS_STORE).delete(id);
+    tx.objectStore(OPS_STORE).delete(roomRange(id));
+    return transactionDone(tx);
+}
+
+// =============================================================================
+// Files
+// =============================================================================
+
+// Files are content-addressed, so rewriting one changes nothing
+export async function saveFile(file: StoredFile): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readwrite');
+    tx.objectStore(FILES_STORE).put(file);
+    return transactionDone(tx);
+}
+
+export async function loadFiles(ids: string[]): Promise<StoredFile[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(FILES_STORE, 'readonly');
+    const store = tx.objectStore(FILES_STORE);
+    const files = await Promise.all(ids.map((id) => promisify<StoredFile | undefined>(store.get(id))));
+    return files.filter((file): file is StoredFile => file !== undefined);
+}
+
+// =============================================================================
+// Op Log
+// =============================================================================
+
+// Every key of a room: arrays sort after strings, so [room, []] follows
+// all of them
+function roomRange(room: string): IDBKeyRange {
+    return IDBKeyRange.bound([room], [room, []]);
+}
+
+// Adds the entry, or updates it once acknowledged
+export async function putOpLogEntry(entry: OpLogEntry): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(OPS_STORE, 'readwrite');
+    tx.objectStore(OPS_STORE).put(entry);
+    return transactionDone(tx);
+}
+
+// Entries of a room, oldest first
+export async function loadOpLog(room: string): Promise<OpLogEntry[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(OPS_STORE, 'readonly');
+    const entries = await promisify<OpLogEntry[]>(tx.objectStore(OPS_STORE).getAll(roomRange(room)));
+    return entries.sort((a, b) => a.time - b.time);
+}
+
+// Swap a room's log for `entries` in one go, for compaction
+export async function replaceOpLog(room: string, entries: OpLogEntry[]): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(OPS_STORE, 'readwrite');
+    const store = tx.objectStore(OPS_STORE);
+    store.delete(roomRange(room));
+    entries.forEach((entry) => store.put(entry));
+    return transactionDone(tx);
+}
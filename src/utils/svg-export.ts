@@ -0,0 +1,58 @@
+/**
+ * Editable SVG export
+ *
+ * A standalone SVG of the scene that carries the exportToJSON payload
+ * in its <metadata>, so the file can be dropped back onto a board
+ */
+
+import { buildSceneSvg, SceneSvgOptions } from './scene-svg';
+
+const WB_NS = 'https://github.com/whitebite/wb-diagrams';
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SceneSvgOptions = {
+    background: 'transparent',
+    padding: 16,
+    embedFonts: true,
+};
+
+// Serialize the given elements (in paint order) with the scene payload attached
+export async function exportToSVG(
+    scene: SVGGElement,
+    elementIds: string[],
+    sceneJSON: string,
+    options: SceneSvgOptions = DEFAULT_SVG_EXPORT_OPTIONS
+): Promise<string> {
+    const { svg } = await buildSceneSvg(scene, elementIds, options);
+
+    const metadata = document.createElementNS(svg.namespaceURI, 'metadata');
+    const payload = document.createElementNS(WB_NS, 'wb:scene');
+    payload.textContent = sceneJSON;
+    metadata.appendChild(payload);
+    svg.insertBefore(metadata, svg.firstChild);
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(svg);
+}
+
+// Pull the scene payload back out of an exported SVG
+export function extractSceneFromSVG(svgText: string): string {
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('File is not a valid SVG');
+    }
+
+    const payload = doc.getElementsByTagNameNS(WB_NS, 'scene')[0];
+    if (!payload?.textContent) {
+        throw new Error('SVG does not contain WB Canvas scene data');
+    }
+    return payload.textContent;
+}
+
+// Whether an SVG was written by exportToSVG; others are plain images
+export function hasEmbeddedScene(svgText: string): boolean {
+    try {
+        extractSceneFromSVG(svgText);
+        return true;
+    } catch {
+        return false;
+    }
+}
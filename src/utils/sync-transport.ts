@@ -0,0 +1,220 @@
+/**
+ * Sync transport
+ *
+ * How collaboration messages travel between replicas of a board. Sessions
+ * only see this interface; the WebSocket transport talks to the reference
+ * server (server/sync-server.js), the BroadcastChannel one links tabs
+ * of the same browser without any server and the loopback one links
+ * replicas in memory, for tests
+ */
+
+import { DocOp } from './crdt-document';
+import { CollabStatus, Presence } from '../types/canvas';
+
+export type SyncMessage =
+    | { type: 'join'; room: string; clientId: string }
+    | { type: 'sync'; ops: DocOp[] } // the room so far, answering a join
+    | { type: 'ops'; ops: DocOp[]; seq?: number } // seq: the sender's op log entry, to acknowledge
+    | { type: 'ack'; seq: number } // the entry is stored in the room
+    | { type: 'file'; id: string; dataUrl: string } // an image file the room's elements use
+    | { type: 'fileRequest'; id: string } // answered with 'file' by whoever has it
+    | { type: 'presence'; presence: Presence } // latest only, never stored
+    | { type: 'leave'; clientId: string };
+
+// Messages sent while disconnected are dropped: sessions keep their own
+// op log and send what the room is missing once they are back
+export interface SyncTransport {
+    send(message: SyncMessage): void;
+    onMessage(listener: (message: SyncMessage) => void): void;
+    // Reconnects are reported too; a session joins again on each 'connected'
+    onStatus(listener: (status: CollabStatus) => void): void;
+    close(): void;
+}
+
+const DEFAULT_PORT = 8787;
+const RECONNECT_DELAYS = [500, 1000, 2000, 5000];
+// How long a tab waits for others to answer its join
+const TAB_SYNC_TIMEOUT = 300;
+
+// ?sync=tabs links tabs, ?sync=ws://host:port picks a server; the default
+// is the reference server on this host
+export function createTransport(room: string): SyncTransport {
+    const sync = new URLSearchParams(location.search).get('sync');
+    if (sync === 'tabs') return new BroadcastChannelTransport(room);
+    return new WebSocketTransport(sync ?? `ws://${location.hostname || 'localhost'}:${DEFAULT_PORT}`);
+}
+
+// =============================================================================
+// WebSocket
+// =============================================================================
+
+export class WebSocketTransport implements SyncTransport {
+    private socket: WebSocket | null = null;
+    private attempts = 0;
+    private timer: number | undefined;
+    private closed = false;
+    private messageListeners: ((message: SyncMessage) => void)[] = [];
+    private statusListeners: ((status: CollabStatus) => void)[] = [];
+
+    constructor(private readonly url: string) {
+        this.connect();
+    }
+
+    send(message: SyncMessage) {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    }
+
+    onMessage(listener: (message: SyncMessage) => void) {
+        this.messageListeners.push(listener);
+    }
+
+    onStatus(listener: (status: CollabStatus) => void) {
+        this.statusListeners.push(listener);
+    }
+
+    close() {
+        this.closed = true;
+        clearTimeout(this.timer);
+        this.socket?.close();
+    }
+
+    private connect() {
+        this.emitStatus('connecting');
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.attempts = 0;
+            this.emitStatus('connected');
+        };
+        socket.onmessage = (e) => {
+            let message: SyncMessage;
+            try {
+                message = JSON.parse(e.data) as SyncMessage;
+            } catch (err) {
+                console.warn('Dropped a malformed message:', err);
+                return;
+            }
+            this.messageListeners.forEach((listener) => listener(message));
+        };
+        socket.onclose = () => {
+            if (this.closed) return;
+            this.emitStatus('offline');
+            const delay = RECONNECT_DELAYS[Math.min(this.attempts++, RECONNECT_DELAYS.length - 1)];
+            this.timer = window.setTimeout(() => this.connect(), delay);
+        };
+    }
+
+    private emitStatus(status: CollabStatus) {
+        this.statusListeners.forEach((listener) => listener(status));
+    }
+}
+
+// =============================================================================
+// BroadcastChannel
+// =============================================================================
+
+// Tabs answer each other's joins with what they have, standing in for the
+// server's room log. A join nobody answers is answered with an empty room
+export class BroadcastChannelTransport implements SyncTransport {
+    private channel: BroadcastChannel;
+    private syncTimer: number | undefined;
+    private messageListeners: ((message: SyncMessage) => void)[] = [];
+
+    constructor(room: string) {
+        this.channel = new BroadcastChannel(`wb-canvas-sync:${room}`);
+        this.channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+            if (e.data.type === 'sync') clearTimeout(this.syncTimer);
+            this.emit(e.data);
+        };
+    }
+
+    // Other tabs get a message as it is posted, so ops count as stored
+    send(message: SyncMessage) {
+        this.channel.postMessage(message);
+        if (message.type === 'join') {
+            this.syncTimer = window.setTimeout(() => this.emit({ type: 'sync', ops: [] }), TAB_SYNC_TIMEOUT);
+        } else if (message.type === 'ops' && message.seq !== undefined) {
+            const seq = message.seq;
+            queueMicrotask(() => this.emit({ type: 'ack', seq }));
+        }
+    }
+
+    private emit(message: SyncMessage) {
+        this.messageListeners.forEach((listener) => listener(message));
+    }
+
+    onMessage(listener: (message: SyncMessage) => void) {
+        this.messageListeners.push(listener);
+    }
+
+    onStatus(listener: (status: CollabStatus) => void) {
+        // Nothing to connect to; report it once the caller is listening
+        queueMicrotask(() => listener('connected'));
+    }
+
+    close() {
+        clearTimeout(this.syncTimer);
+        this.channel.close();
+    }
+}
+
+// =============================================================================
+// Loopback
+// =============================================================================
+
+// Replicas in one page, as if in one room. Messages arrive asynchronously,
+// like over a network, a join nobody answers gets an empty room and ops
+// are acknowledged as soon as they are delivered
+export class LoopbackHub {
+    private members = new Set<LoopbackTransport>();
+
+    connect(): SyncTransport {
+        const transport = new LoopbackTransport(this);
+        this.members.add(transport);
+        return transport;
+    }
+
+    broadcast(from: LoopbackTransport, message: SyncMessage) {
+        // Copied, so no replica ever holds another's objects
+        const data = JSON.stringify(message);
+        const others = [...this.members].filter((member) => member !== from);
+        queueMicrotask(() => {
+            others.forEach((member) => member.receive(JSON.parse(data)));
+            if (message.type === 'join' && others.length === 0) from.receive({ type: 'sync', ops: [] });
+            if (message.type === 'ops' && message.seq !== undefined) from.receive({ type: 'ack', seq: message.seq });
+        });
+    }
+
+    leave(member: LoopbackTransport) {
+        this.members.delete(member);
+    }
+}
+
+class LoopbackTransport implements SyncTransport {
+    private messageListeners: ((message: SyncMessage) => void)[] = [];
+    private closed = false;
+
+    constructor(private readonly hub: LoopbackHub) { }
+
+    send(message: SyncMessage) {
+        if (!this.closed) this.hub.broadcast(this, message);
+    }
+
+    receive(message: SyncMessage) {
+        if (!this.closed) this.messageListeners.forEach((listener) => listener(message));
+    }
+
+    onMessage(listener: (message: SyncMessage) => void) {
+        this.messageListeners.push(listener);
+    }
+
+    onStatus(listener: (status: CollabStatus) => void) {
+        queueMicrotask(() => listener('connected'));
+    }
+
+    close() {
+        this.closed = true;
+        this.hub.leave(this);
+    }
+}